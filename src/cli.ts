@@ -0,0 +1,240 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import { execFileSync } from 'child_process';
+import { XCStrings } from './types';
+import { CatalogSource, runLocalization } from './services/localizationRunner';
+import { resolveCatalogPaths } from './helpers/catalogPaths';
+import { findConfigFile, loadRepoConfig } from './helpers/repoConfig';
+import { resolveSettings } from './helpers/settings';
+import * as log from './helpers/logger';
+import { describeUsageEstimate } from './helpers/dryRunReport';
+
+const USAGE = `Usage: vibe-localize translate [options]
+
+Translates String Catalogs in place, without any GitHub pull request step.
+Settings not given as options are read from .vibe-localizer.yml when present.
+
+Options:
+  -f, --file <path>               Catalog path or glob pattern; repeat or separate with commas (default: Localizable.xcstrings)
+  -l, --languages <codes>         Comma-separated target languages, e.g. es,fr
+      --pseudo-locales <codes>    Pseudo-locales to generate locally, e.g. en-XA,ar-XB
+  -c, --config <path>             Config file (default: .vibe-localizer.yml, .yaml or .json)
+      --provider <name>           openai, azure-openai, anthropic, openai-compatible, deepl or mock
+      --model <name>              Model used by the provider
+      --base-url <url>            Provider API endpoint
+      --api-version <version>     Azure OpenAI API version
+      --deployment <name>         Azure OpenAI deployment name
+      --language-providers <map>  Per-language providers, e.g. de:deepl,fr:deepl
+      --provider-models <map>     Models of the per-language providers, e.g. anthropic:claude-3-5-haiku-latest
+      --mock-fixtures <path>      Fixture translations for the mock provider
+      --system-prompt <text>      Additional context for the model
+      --glossary <path>           JSON glossary file
+      --language-styles <path>    JSON language styles file
+      --translation-memory <path> JSON translation memory file
+      --changed-source-strategy <strategy>
+                                  retranslate or needs_review
+      --base <ref>                Git ref to compare against to detect changed source strings
+      --force-keys <keys>         Comma-separated keys to translate again even where translations exist
+      --max-strings <n>           Maximum strings per request
+      --max-tokens <n>            Maximum estimated tokens per request
+      --max-concurrent <n>        Maximum requests in parallel
+      --retries <n>               Retries for a request whose response could not be read
+      --dry-run                   Report what would be translated and the estimated cost without calling a provider or writing files
+      --token-prices <prices>     US dollars per million input and output tokens per model, e.g. openai:gpt-4o-mini=0.15,0.60
+  -h, --help                      Show this help
+`;
+
+/** CLI options that map onto action inputs, so both front ends resolve settings the same way. */
+const INPUT_OPTIONS: { [option: string]: string } = {
+  '--file': 'xcstrings_file_path',
+  '--languages': 'target_languages',
+  '--pseudo-locales': 'pseudo_locales',
+  '--provider': 'provider',
+  '--model': 'model',
+  '--base-url': 'provider_base_url',
+  '--api-version': 'provider_api_version',
+  '--deployment': 'provider_deployment_name',
+  '--language-providers': 'language_providers',
+  '--provider-models': 'provider_models',
+  '--mock-fixtures': 'mock_fixtures_path',
+  '--system-prompt': 'base_system_prompt',
+  '--glossary': 'glossary_path',
+  '--language-styles': 'language_styles_path',
+  '--translation-memory': 'translation_memory_path',
+  '--changed-source-strategy': 'changed_source_strategy',
+  '--force-keys': 'force_keys',
+  '--max-strings': 'max_strings_per_batch',
+  '--max-tokens': 'max_tokens_per_batch',
+  '--max-concurrent': 'max_concurrent_batches',
+  '--retries': 'batch_retries',
+  '--token-prices': 'token_prices'
+};
+
+const SHORT_OPTIONS: { [option: string]: string } = {
+  '-f': '--file',
+  '-l': '--languages',
+  '-c': '--config',
+  '-h': '--help'
+};
+
+export interface CliArguments {
+  command?: string;
+  /** Option values keyed by the action input they stand in for. */
+  inputs: { [inputName: string]: string };
+  configPath?: string;
+  baseRef?: string;
+  dryRun: boolean;
+  help: boolean;
+}
+
+/**
+ * Parses command line arguments. Options take their value as the next argument or after `=`.
+ * @param argv The arguments after the executable and script
+ * @returns The parsed arguments
+ */
+export function parseCliArguments(argv: string[]): CliArguments {
+  const parsed: CliArguments = { inputs: {}, dryRun: false, help: false };
+  for (let i = 0; i < argv.length; i++) {
+    const [rawOption, inlineValue] = argv[i].startsWith('--') && argv[i].includes('=')
+      ? [argv[i].slice(0, argv[i].indexOf('=')), argv[i].slice(argv[i].indexOf('=') + 1)]
+      : [argv[i], undefined];
+    const option = SHORT_OPTIONS[rawOption] ?? rawOption;
+
+    if (option === '--help') {
+      parsed.help = true;
+      continue;
+    }
+    if (option === '--dry-run') {
+      parsed.dryRun = true;
+      continue;
+    }
+    if (!option.startsWith('-')) {
+      if (parsed.command) {
+        throw new Error(`Unexpected argument '${option}'.`);
+      }
+      parsed.command = option;
+      continue;
+    }
+
+    const inputName = INPUT_OPTIONS[option];
+    if (!inputName && option !== '--config' && option !== '--base') {
+      throw new Error(`Unknown option '${rawOption}'.`);
+    }
+    const value = inlineValue ?? argv[++i];
+    if (value === undefined || (inlineValue === undefined && value.startsWith('-'))) {
+      throw new Error(`Option ${rawOption} requires a value.`);
+    }
+
+    if (option === '--config') {
+      parsed.configPath = value;
+    } else if (option === '--base') {
+      parsed.baseRef = value;
+    } else if (option === '--file' && parsed.inputs[inputName]) {
+      parsed.inputs[inputName] += `\n${value}`;
+    } else {
+      parsed.inputs[inputName] = value;
+    }
+  }
+  return parsed;
+}
+
+/**
+ * Reads and parses a catalog from disk, and from a git ref when one is given.
+ * @param filePath The catalog path
+ * @param baseRef The git ref to read the base version from, if any
+ * @returns The parsed catalog
+ */
+function loadCatalog(filePath: string, baseRef?: string): CatalogSource {
+  let currentXcstringsData: XCStrings;
+  try {
+    currentXcstringsData = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (e: any) {
+    throw new Error(`Failed to read ${filePath}: ${e.message}`);
+  }
+
+  let baseXcstringsData: XCStrings | undefined;
+  if (baseRef) {
+    try {
+      const baseContent = execFileSync('git', ['show', `${baseRef}:./${filePath}`], { encoding: 'utf8', maxBuffer: 256 * 1024 * 1024, stdio: ['ignore', 'pipe', 'pipe'] });
+      baseXcstringsData = JSON.parse(baseContent);
+    } catch {
+      log.warning(`Could not read ${filePath} at ${baseRef}, source changes will not be detected.`);
+    }
+  }
+  return { filePath, currentXcstringsData, baseXcstringsData };
+}
+
+/**
+ * Runs the command line interface.
+ * @param argv The arguments after the executable and script
+ * @returns The process exit code
+ */
+export async function runCli(argv: string[]): Promise<number> {
+  let args: CliArguments;
+  try {
+    args = parseCliArguments(argv);
+  } catch (e: any) {
+    console.error(`error: ${e.message}\n\n${USAGE}`);
+    return 2;
+  }
+  if (args.help || !args.command) {
+    console.log(USAGE);
+    return args.help ? 0 : 2;
+  }
+  if (args.command !== 'translate') {
+    console.error(`error: Unknown command '${args.command}'.\n\n${USAGE}`);
+    return 2;
+  }
+
+  log.setLogger({
+    info: message => console.log(message),
+    warning: message => console.warn(`warning: ${message}`),
+    error: message => console.error(`error: ${message}`)
+  });
+
+  try {
+    const configPath = findConfigFile(args.configPath);
+    if (configPath) {
+      console.log(`Using config file ${configPath}`);
+    }
+    const settings = resolveSettings(name => args.inputs[name] ?? '', configPath ? loadRepoConfig(configPath) : {});
+
+    const filePaths = await resolveCatalogPaths(settings.catalogPatterns);
+    if (filePaths.length === 0) {
+      throw new Error(`No string catalogs match ${settings.catalogPatterns.join(', ')}.`);
+    }
+    console.log(`Catalogs: ${filePaths.join(', ')}`);
+    console.log(`Target languages: ${settings.targetLanguages.join(', ')}`);
+    if (!args.dryRun) {
+      console.log(`Translation provider: ${settings.providerConfig.provider} (model: ${settings.providerConfig.model})`);
+    }
+
+    const catalogs = filePaths.map(filePath => loadCatalog(filePath, args.baseRef));
+    const { changedFiles, totals, usage } = await runLocalization(catalogs, settings, { dryRun: args.dryRun });
+
+    console.log('');
+    if (args.dryRun) {
+      console.log(`Dry run: ${totals.added} translations would be added and ${totals.updated} updated, ${totals.staleRemoved} stale strings removed and ${totals.needsReview} translations marked as needs review.`);
+      for (const estimate of usage) {
+        console.log(`Estimated usage: ${describeUsageEstimate(estimate)}`);
+      }
+      console.log(changedFiles.length > 0 ? `Files that would change: ${changedFiles.join(', ')}` : 'No files would change.');
+      return 0;
+    }
+    console.log(`Added: ${totals.added}, Updated: ${totals.updated}, Stale removed: ${totals.staleRemoved}, Needs review: ${totals.needsReview}, Failed: ${totals.failed}, Rejected: ${totals.rejected}, Glossary violations: ${totals.glossaryViolations}`);
+    for (const providerUsage of usage) {
+      console.log(`Usage: ${describeUsageEstimate(providerUsage, false)}`);
+    }
+    console.log(changedFiles.length > 0 ? `Files modified: ${changedFiles.join(', ')}` : 'Files modified: None');
+    return 0;
+  } catch (e: any) {
+    console.error(`error: ${e instanceof Error ? e.message : String(e)}`);
+    return 1;
+  }
+}
+
+if (require.main === module) {
+  runCli(process.argv.slice(2)).then(exitCode => {
+    process.exitCode = exitCode;
+  });
+}
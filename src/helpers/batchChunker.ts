@@ -0,0 +1,70 @@
+import { TranslationRequest } from '../types';
+
+const CHARS_PER_TOKEN = 4;
+const TOKENS_PER_LANGUAGE_OVERHEAD = 10;
+const TRANSLATION_EXPANSION_FACTOR = 1.5;
+
+export interface ChunkLimits {
+  maxStrings: number;
+  maxTokens: number;
+}
+
+/**
+ * Roughly estimates the prompt and completion tokens a translation request consumes.
+ * Uses ~4 characters per token and assumes translations can be 50% longer than the source.
+ * @param request The translation request
+ * @returns The estimated token count
+ */
+export function estimateRequestTokens(request: TranslationRequest): number {
+  const promptChars = request.key.length + request.text.length + (request.comment?.length ?? 0) + (request.unitPath?.length ?? 0) + (request.glossary ? JSON.stringify(request.glossary).length : 0);
+  return Math.ceil(promptChars / CHARS_PER_TOKEN) + estimateCompletionTokens(request);
+}
+
+/**
+ * Roughly estimates the completion tokens of a translation request's translations.
+ * @param request The translation request
+ * @returns The estimated token count
+ */
+export function estimateCompletionTokens(request: TranslationRequest): number {
+  const completionTokensPerLanguage = Math.ceil((request.text.length / CHARS_PER_TOKEN) * TRANSLATION_EXPANSION_FACTOR) + TOKENS_PER_LANGUAGE_OVERHEAD;
+  return completionTokensPerLanguage * request.targetLanguages.length;
+}
+
+/**
+ * Roughly estimates the tokens of a prompt text, at ~4 characters per token.
+ * @param text The prompt text
+ * @returns The estimated token count
+ */
+export function estimateTextTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Splits translation requests into chunks that respect both a string count and an estimated token budget.
+ * A single request exceeding the token budget is placed in a chunk of its own.
+ * @param requests The translation requests to split
+ * @param limits Maximum strings and estimated tokens per chunk
+ * @returns The chunks, preserving request order
+ */
+export function chunkTranslationRequests(requests: TranslationRequest[], limits: ChunkLimits): TranslationRequest[][] {
+  const chunks: TranslationRequest[][] = [];
+  let currentChunk: TranslationRequest[] = [];
+  let currentTokens = 0;
+
+  for (const request of requests) {
+    const requestTokens = estimateRequestTokens(request);
+    const exceedsLimits = currentChunk.length >= limits.maxStrings || currentTokens + requestTokens > limits.maxTokens;
+    if (currentChunk.length > 0 && exceedsLimits) {
+      chunks.push(currentChunk);
+      currentChunk = [];
+      currentTokens = 0;
+    }
+    currentChunk.push(request);
+    currentTokens += requestTokens;
+  }
+
+  if (currentChunk.length > 0) {
+    chunks.push(currentChunk);
+  }
+  return chunks;
+}
@@ -0,0 +1,51 @@
+import * as glob from '@actions/glob';
+import * as path from 'path';
+
+const GLOB_CHARACTERS = /[*?[\]{}!]/;
+
+/**
+ * Splits the `xcstrings_file_path` input into individual paths or glob patterns.
+ * Entries may be separated by commas or newlines.
+ * @param input The raw input value
+ * @returns The trimmed, non-empty entries
+ */
+export function parseCatalogPathInput(input: string): string[] {
+  return input.split(/[,\n]/).map(entry => entry.trim()).filter(entry => entry);
+}
+
+/**
+ * Resolves catalog paths and glob patterns (e.g. `Packages/*\/Sources/**\/*.xcstrings`) to catalog
+ * files relative to the working directory. Plain paths are kept as-is so a missing catalog is
+ * reported when it is read; patterns starting with `!` exclude glob matches.
+ * @param entries Paths and glob patterns
+ * @param workingDirectory The directory paths are resolved against
+ * @returns The unique catalog paths: plain paths first, then glob matches in alphabetical order
+ */
+export async function resolveCatalogPaths(entries: string[], workingDirectory: string = process.cwd()): Promise<string[]> {
+  const catalogPaths: string[] = [];
+  const globPatterns = entries.filter(entry => GLOB_CHARACTERS.test(entry));
+
+  for (const entry of entries) {
+    if (!GLOB_CHARACTERS.test(entry)) {
+      catalogPaths.push(path.normalize(entry));
+    }
+  }
+
+  const includePatterns = globPatterns.filter(pattern => !pattern.startsWith('!'));
+  if (includePatterns.length > 0) {
+    const globber = await glob.create(globPatterns.map(pattern => resolvePattern(pattern, workingDirectory)).join('\n'), {
+      matchDirectories: false,
+      implicitDescendants: false
+    });
+    const matches = (await globber.glob()).map(match => path.relative(workingDirectory, match)).sort();
+    catalogPaths.push(...matches);
+  }
+
+  return [...new Set(catalogPaths)];
+}
+
+function resolvePattern(pattern: string, workingDirectory: string): string {
+  const isExclude = pattern.startsWith('!');
+  const resolved = path.resolve(workingDirectory, isExclude ? pattern.slice(1) : pattern);
+  return isExclude ? `!${resolved}` : resolved;
+}
@@ -0,0 +1,65 @@
+import { CatalogChanges, generatePrDescription } from './prDescriptionGenerator';
+import { UsageEstimate } from '../services/usageEstimator';
+
+/**
+ * Describes the usage of a provider in one line, e.g. for logs.
+ * @param estimate The usage of one provider
+ * @param estimated Whether the token and character counts are estimates rather than billed amounts
+ * @returns A description such as "openai (gpt-4o-mini): 2 requests, ~1,200 prompt and ~300 completion tokens, ~$0.0004"
+ */
+export function describeUsageEstimate(estimate: UsageEstimate, estimated: boolean = true): string {
+  const provider = estimate.model ? `${estimate.provider} (${estimate.model})` : estimate.provider;
+  const approximately = estimated ? '~' : '';
+  const usage = estimate.provider === 'deepl'
+    ? `${approximately}${formatNumber(estimate.characters)} characters`
+    : `${approximately}${formatNumber(estimate.promptTokens)} prompt and ${approximately}${formatNumber(estimate.completionTokens)} completion tokens`;
+  const cost = estimate.estimatedCost !== undefined ? `, ~${formatCost(estimate.estimatedCost)}` : '';
+  return `${provider}: ${estimate.batches} requests, ${usage}${cost}`;
+}
+
+/**
+ * Generates the Markdown report of a dry run: the changes a real run would make, in the same
+ * format as the pull request description, followed by the estimated usage and cost.
+ * @param catalogChanges The changes a real run would make to each catalog
+ * @param targetLanguages Array of target language codes
+ * @param changedFiles The files a real run would change
+ * @param usageEstimates The estimated usage per provider
+ * @returns The Markdown report
+ */
+export function generateDryRunReport(catalogChanges: CatalogChanges[], targetLanguages: string[], changedFiles: string[], usageEstimates: UsageEstimate[]): string {
+  const intro = changedFiles.length > 0
+    ? 'Dry run: no translations were requested and no files were changed. A real run would make these changes:'
+    : 'Dry run: all strings are up to date, a real run would not change any files.';
+  let report = `## 🔍 Localization Dry Run\n\n${generatePrDescription(intro, catalogChanges, targetLanguages, changedFiles)}\n`;
+
+  if (usageEstimates.length > 0) {
+    report += '\n### 💰 Estimated Usage\n\n';
+    report += formatUsageTable(usageEstimates);
+    report += '\nToken counts are rough estimates (about 4 characters per token) and exclude retries. Costs use list prices; set `token_prices` for other models or your own rates.\n';
+  }
+  return report;
+}
+
+/**
+ * Formats the usage of each provider as a Markdown table.
+ * @param usage The usage of each provider
+ * @returns The Markdown table; unknown costs are shown as "unknown"
+ */
+export function formatUsageTable(usage: UsageEstimate[]): string {
+  let table = '| Provider | Requests | Prompt tokens | Completion tokens | Characters | Estimated cost |\n';
+  table += '|----------|----------|---------------|-------------------|------------|----------------|\n';
+  for (const estimate of usage) {
+    const provider = estimate.model ? `${estimate.provider} (${estimate.model})` : estimate.provider;
+    const cost = estimate.estimatedCost !== undefined ? formatCost(estimate.estimatedCost) : 'unknown';
+    table += `| ${provider} | ${estimate.batches} | ${formatNumber(estimate.promptTokens)} | ${formatNumber(estimate.completionTokens)} | ${formatNumber(estimate.characters)} | ${cost} |\n`;
+  }
+  return table;
+}
+
+function formatNumber(value: number): string {
+  return value.toLocaleString('en-US');
+}
+
+function formatCost(cost: number): string {
+  return `$${cost.toFixed(cost > 0 && cost < 0.01 ? 4 : 2)}`;
+}
@@ -0,0 +1,163 @@
+import * as fs from 'fs';
+import { GlossaryTerm, TranslationRequest } from '../types';
+
+/**
+ * Loads and validates a glossary file of the form `{ "terms": [{ "term": "Workspace", "translations": { "de": "Arbeitsbereich" } }] }`.
+ * @param filePath The glossary file path
+ * @returns The glossary terms
+ */
+export function loadGlossary(filePath: string): GlossaryTerm[] {
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, 'utf8');
+  } catch (e: any) {
+    throw new Error(`Could not read glossary ${filePath}: ${e.message}`);
+  }
+
+  let glossary: unknown;
+  try {
+    glossary = JSON.parse(content);
+  } catch (e: any) {
+    throw new Error(`Failed to parse glossary ${filePath}: ${e.message}`);
+  }
+  const terms = typeof glossary === 'object' && glossary !== null && 'terms' in glossary ? glossary.terms : undefined;
+  return parseGlossaryTerms(terms, filePath);
+}
+
+/**
+ * Validates glossary terms, reporting the first invalid entry.
+ * @param terms The raw `terms` value
+ * @param source Where the terms come from, used in error messages
+ * @returns The glossary terms
+ */
+export function parseGlossaryTerms(terms: unknown, source: string): GlossaryTerm[] {
+  if (!Array.isArray(terms)) {
+    throw new Error(`Invalid glossary ${source}: expected a "terms" array.`);
+  }
+
+  return terms.map((entry, index) => {
+    const location = `glossary ${source}, term #${index + 1}`;
+    if (typeof entry?.term !== 'string' || !entry.term.trim()) {
+      throw new Error(`Invalid ${location}: "term" must be a non-empty string.`);
+    }
+    if (entry.doNotTranslate !== undefined && typeof entry.doNotTranslate !== 'boolean') {
+      throw new Error(`Invalid ${location} ("${entry.term}"): "doNotTranslate" must be true or false.`);
+    }
+    if (entry.caseSensitive !== undefined && typeof entry.caseSensitive !== 'boolean') {
+      throw new Error(`Invalid ${location} ("${entry.term}"): "caseSensitive" must be true or false.`);
+    }
+    if (entry.translations !== undefined) {
+      const translationsValid = typeof entry.translations === 'object' && entry.translations !== null && !Array.isArray(entry.translations)
+        && Object.values(entry.translations).every(value => typeof value === 'string' && value);
+      if (!translationsValid) {
+        throw new Error(`Invalid ${location} ("${entry.term}"): "translations" must map language codes to non-empty strings, e.g. { "de": "Arbeitsbereich" }.`);
+      }
+    }
+    if (entry.doNotTranslate && entry.translations) {
+      throw new Error(`Invalid ${location} ("${entry.term}"): a term cannot have both "doNotTranslate" and "translations".`);
+    }
+    if (!entry.doNotTranslate && !entry.translations) {
+      throw new Error(`Invalid ${location} ("${entry.term}"): set "doNotTranslate": true or provide "translations".`);
+    }
+
+    const term: GlossaryTerm = { term: entry.term };
+    if (entry.translations) {
+      term.translations = entry.translations;
+    }
+    if (entry.doNotTranslate) {
+      term.doNotTranslate = true;
+    }
+    if (entry.caseSensitive) {
+      term.caseSensitive = true;
+    }
+    return term;
+  });
+}
+
+/**
+ * Finds the glossary terms that occur in a text as whole words and apply to at least one of the
+ * target languages. Translations are narrowed to those languages.
+ * @param text The source text
+ * @param glossary The glossary terms
+ * @param targetLanguages The languages the text is translated into
+ * @returns The matching terms
+ */
+export function findGlossaryTerms(text: string, glossary: GlossaryTerm[], targetLanguages: string[]): GlossaryTerm[] {
+  const matches: GlossaryTerm[] = [];
+  for (const term of glossary) {
+    if (!containsWord(text, term.term, !!term.caseSensitive)) {
+      continue;
+    }
+    if (term.doNotTranslate) {
+      matches.push(term);
+      continue;
+    }
+    const translations = Object.fromEntries(Object.entries(term.translations ?? {}).filter(([lang]) => targetLanguages.includes(lang)));
+    if (Object.keys(translations).length > 0) {
+      matches.push({ ...term, translations });
+    }
+  }
+  return matches;
+}
+
+/**
+ * Attaches the glossary terms found in each request's text, so they are sent only with the strings that use them.
+ * @param requests The translation requests
+ * @param glossary The glossary terms
+ * @returns The requests, with `glossary` set where terms were found
+ */
+export function applyGlossary(requests: TranslationRequest[], glossary: GlossaryTerm[]): TranslationRequest[] {
+  return requests.map(request => {
+    const terms = findGlossaryTerms(request.text, glossary, request.targetLanguages);
+    return terms.length > 0 ? { ...request, glossary: terms } : request;
+  });
+}
+
+/**
+ * Checks a translation against the glossary terms of its source text. Required translations are
+ * matched as substrings so inflected forms (e.g. "Arbeitsbereichs") still count.
+ * @param translatedText The translated text
+ * @param language The translation's language
+ * @param terms The glossary terms found in the source text
+ * @returns Human-readable descriptions of every violation, empty when the translation follows the glossary
+ */
+export function checkGlossary(translatedText: string, language: string, terms: GlossaryTerm[]): string[] {
+  const issues: string[] = [];
+  for (const term of terms) {
+    if (term.doNotTranslate) {
+      if (!containsText(translatedText, term.term, !!term.caseSensitive)) {
+        issues.push(`"${term.term}" must not be translated`);
+      }
+      continue;
+    }
+    const expected = term.translations?.[language];
+    if (expected && !containsText(translatedText, expected, !!term.caseSensitive)) {
+      issues.push(`"${term.term}" must be translated as "${expected}"`);
+    }
+  }
+  return issues;
+}
+
+/**
+ * Replaces every whole-word occurrence of a glossary term in a text.
+ * @param text The text
+ * @param term The glossary term
+ * @param replacement Returns the replacement for each occurrence
+ * @returns The text with the occurrences replaced
+ */
+export function replaceGlossaryTerm(text: string, term: GlossaryTerm, replacement: (occurrence: string) => string): string {
+  return text.replace(wordPattern(term.term, !!term.caseSensitive, 'g'), replacement);
+}
+
+function containsWord(text: string, word: string, caseSensitive: boolean): boolean {
+  return wordPattern(word, caseSensitive).test(text);
+}
+
+function wordPattern(word: string, caseSensitive: boolean, flags: string = ''): RegExp {
+  const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, (caseSensitive ? 'u' : 'iu') + flags);
+}
+
+function containsText(text: string, expected: string, caseSensitive: boolean): boolean {
+  return caseSensitive ? text.includes(expected) : text.toLocaleLowerCase().includes(expected.toLocaleLowerCase());
+}
@@ -0,0 +1,57 @@
+import { LocalizationRunResult } from '../services/localizationRunner';
+import { formatUsageTable } from './dryRunReport';
+import { combineCoverage, escapeTableCell, formatCoverageTable, NewTranslation } from './translationReport';
+
+/** How many new translations of each language the job summary shows. */
+export const SAMPLE_TRANSLATIONS_PER_LANGUAGE = 3;
+
+/**
+ * Generates the Markdown job summary of a run: the change totals, the translation coverage per
+ * language, a sample of the new translations next to their source, and the usage and cost of each
+ * provider.
+ * @param result The changes of the run
+ * @param targetLanguages Array of target language codes
+ * @param outcome A sentence saying where the translations went, e.g. a link to the pull request
+ * @returns The Markdown summary
+ */
+export function generateJobSummary(result: LocalizationRunResult, targetLanguages: string[], outcome: string): string {
+  const { catalogChanges, totals, newTranslations, usage } = result;
+  let summary = `## 🌍 iOS Vibe Localization\n\n${outcome}\n\n`;
+
+  summary += '| Added | Updated | Needs review | Stale removed | Rejected | Failed | Glossary violations |\n';
+  summary += '|-------|---------|--------------|---------------|----------|--------|---------------------|\n';
+  summary += `| ${totals.added} | ${totals.updated} | ${totals.needsReview} | ${totals.staleRemoved} | ${totals.rejected} | ${totals.failed} | ${totals.glossaryViolations} |\n`;
+
+  const coverages = catalogChanges.flatMap(catalog => catalog.coverage ? [catalog.coverage] : []);
+  if (coverages.length > 0) {
+    summary += '\n### 📊 Translation Coverage\n\n';
+    summary += formatCoverageTable(combineCoverage(coverages));
+  }
+
+  const samples = sampleTranslations(newTranslations, targetLanguages);
+  if (samples.length > 0) {
+    summary += '\n### ✨ Sample Translations\n\n';
+    summary += '| Language | Key | Source | Translation |\n';
+    summary += '|----------|-----|--------|-------------|\n';
+    for (const sample of samples) {
+      const key = sample.unitPath ? `${sample.key} [${sample.unitPath}]` : sample.key;
+      summary += `| ${sample.language} | ${escapeTableCell(key)} | ${escapeTableCell(sample.source)} | ${escapeTableCell(sample.translation)} |\n`;
+    }
+    if (samples.length < newTranslations.length) {
+      summary += `\nShowing ${samples.length} of ${newTranslations.length} new translations.\n`;
+    }
+  }
+
+  if (usage.length > 0) {
+    summary += '\n### 💰 Usage\n\n';
+    summary += formatUsageTable(usage);
+    summary += '\nTokens and characters as billed by each provider, including responses that could not be read and were requested again. Costs use list prices; set `token_prices` for other models or your own rates.\n';
+  }
+  return summary;
+}
+
+function sampleTranslations(newTranslations: NewTranslation[], targetLanguages: string[]): NewTranslation[] {
+  return targetLanguages.flatMap(language =>
+    newTranslations.filter(translation => translation.language === language).slice(0, SAMPLE_TRANSLATIONS_PER_LANGUAGE)
+  );
+}
@@ -0,0 +1,121 @@
+import * as fs from 'fs';
+import { LanguageStyle } from '../types';
+
+export type LanguageStyles = { [languageCode: string]: LanguageStyle };
+
+const FORMALITY_INSTRUCTIONS: { [formality in NonNullable<LanguageStyle['formality']>]: string } = {
+  formal: 'Address the user formally (e.g. "Sie" in German, "vous" in French, "usted" in Spanish).',
+  informal: 'Address the user informally (e.g. "du" in German, "tu" in French, "tú" in Spanish).'
+};
+
+/**
+ * Loads and validates a language styles file mapping language codes to styles,
+ * e.g. `{ "de": { "formality": "informal" }, "pt-BR": { "instructions": "..." } }`.
+ * @param filePath The styles file path
+ * @returns The style of each configured language
+ */
+export function loadLanguageStyles(filePath: string): LanguageStyles {
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, 'utf8');
+  } catch (e: any) {
+    throw new Error(`Could not read language styles ${filePath}: ${e.message}`);
+  }
+
+  let styles: unknown;
+  try {
+    styles = JSON.parse(content);
+  } catch (e: any) {
+    throw new Error(`Failed to parse language styles ${filePath}: ${e.message}`);
+  }
+  return parseLanguageStyles(styles, filePath);
+}
+
+/**
+ * Validates language styles, reporting the first invalid value.
+ * @param styles The raw styles object
+ * @param source Where the styles come from, used in error messages
+ * @returns The style of each configured language
+ */
+export function parseLanguageStyles(styles: unknown, source: string): LanguageStyles {
+  if (typeof styles !== 'object' || styles === null || Array.isArray(styles)) {
+    throw new Error(`Invalid language styles ${source}: expected an object mapping language codes to styles, e.g. { "de": { "formality": "informal" } }.`);
+  }
+
+  const languageStyles: LanguageStyles = {};
+  for (const [languageCode, style] of Object.entries(styles as { [languageCode: string]: any })) {
+    const location = `language style for '${languageCode}' in ${source}`;
+    if (typeof style !== 'object' || style === null || Array.isArray(style)) {
+      throw new Error(`Invalid ${location}: expected an object with "formality", "genderNeutral" or "instructions".`);
+    }
+    const unknownKeys = Object.keys(style).filter(key => !['formality', 'genderNeutral', 'instructions'].includes(key));
+    if (unknownKeys.length > 0) {
+      throw new Error(`Invalid ${location}: unknown setting '${unknownKeys[0]}'. Expected "formality", "genderNeutral" or "instructions".`);
+    }
+    if (style.formality !== undefined && style.formality !== 'formal' && style.formality !== 'informal') {
+      throw new Error(`Invalid ${location}: "formality" must be "formal" or "informal".`);
+    }
+    if (style.genderNeutral !== undefined && typeof style.genderNeutral !== 'boolean') {
+      throw new Error(`Invalid ${location}: "genderNeutral" must be true or false.`);
+    }
+    if (style.instructions !== undefined && typeof style.instructions !== 'string') {
+      throw new Error(`Invalid ${location}: "instructions" must be a string.`);
+    }
+    languageStyles[languageCode] = style;
+  }
+  return languageStyles;
+}
+
+/**
+ * Describes a language style as prompt instructions.
+ * @param style The language style
+ * @returns The instructions, empty when the style sets nothing
+ */
+export function describeLanguageStyle(style: LanguageStyle): string {
+  const instructions: string[] = [];
+  if (style.formality) {
+    instructions.push(FORMALITY_INSTRUCTIONS[style.formality]);
+  }
+  if (style.genderNeutral) {
+    instructions.push('Use gender-neutral wording where the language allows it.');
+  }
+  if (style.instructions?.trim()) {
+    instructions.push(style.instructions.trim());
+  }
+  return instructions.join(' ');
+}
+
+/**
+ * Groups target languages so each language with style instructions is translated in requests of
+ * its own, while languages without instructions share requests.
+ * @param languages The target languages
+ * @param styles The configured language styles
+ * @returns The language groups
+ */
+export function groupLanguagesByStyle(languages: string[], styles: LanguageStyles): string[][] {
+  const groups: string[][] = [];
+  const unstyledLanguages: string[] = [];
+  for (const lang of languages) {
+    if (styles[lang] && describeLanguageStyle(styles[lang])) {
+      groups.push([lang]);
+    } else {
+      unstyledLanguages.push(lang);
+    }
+  }
+  return unstyledLanguages.length > 0 ? [unstyledLanguages, ...groups] : groups;
+}
+
+/**
+ * Composes the system prompt for a language group by adding the group's style instructions to the base prompt.
+ * @param baseSystemPrompt The base system prompt
+ * @param languages The languages translated together
+ * @param styles The configured language styles
+ * @returns The system prompt for the group
+ */
+export function buildStyledSystemPrompt(baseSystemPrompt: string, languages: string[], styles: LanguageStyles): string {
+  const styleInstructions = languages
+    .map(lang => [lang, styles[lang] ? describeLanguageStyle(styles[lang]) : ''])
+    .filter(([, description]) => description)
+    .map(([lang, description]) => `When translating to ${lang}: ${description}`);
+  return [baseSystemPrompt.trim(), ...styleInstructions].filter(part => part).join('\n\n');
+}
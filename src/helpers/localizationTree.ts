@@ -0,0 +1,223 @@
+import { Localization, StringUnit, VariationValue, XCStrings } from '../types';
+
+const PLURAL_CATEGORY_ORDER = ['zero', 'one', 'two', 'few', 'many', 'other'];
+
+export interface SourceStringUnit {
+  path: string;
+  text: string;
+}
+
+type PathSegment = ['plural' | 'device' | 'substitutions', string];
+
+/**
+ * Returns the CLDR plural categories a language requires, in Xcode's display order.
+ * @param languageCode The language code (e.g., "ru", "pt-BR")
+ * @returns Plural categories such as ['one', 'few', 'many', 'other']
+ */
+export function getPluralCategories(languageCode: string): string[] {
+  let categories: string[];
+  try {
+    categories = new Intl.PluralRules(languageCode).resolvedOptions().pluralCategories;
+  } catch {
+    categories = ['other'];
+  }
+  return PLURAL_CATEGORY_ORDER.filter(category => categories.includes(category));
+}
+
+/**
+ * Checks whether a localization varies by plural or device, or uses substitutions.
+ * @param localization The localization to inspect
+ * @returns True if the localization holds more than a single top-level string unit
+ */
+export function hasNestedStringUnits(localization?: Localization): boolean {
+  const variations = localization?.variations;
+  const hasVariations = !!variations && (!!variations.plural || !!variations.device);
+  const hasSubstitutions = !!localization?.substitutions && Object.keys(localization.substitutions).length > 0;
+  return hasVariations || hasSubstitutions;
+}
+
+/**
+ * Lists every string unit a target language needs for the given source localization.
+ * Plural variations are expanded to the target language's plural categories: categories missing
+ * from the source fall back to the source's `other` form, and an explicit `zero` form in the
+ * source is kept for every language. Each substitution contributes its own units under
+ * `substitutions.<name>`.
+ *
+ * @param source The source-language localization
+ * @param targetLanguage The language code the units are requested for
+ * @returns Paths and source texts of the string units to translate
+ */
+export function collectSourceStringUnits(source: Localization, targetLanguage: string): SourceStringUnit[] {
+  const units = collectVariationUnits(source, targetLanguage, '');
+
+  for (const [name, substitution] of Object.entries(source.substitutions ?? {})) {
+    units.push(...collectVariationUnits(substitution, targetLanguage, `substitutions.${name}`));
+  }
+
+  return units;
+}
+
+/**
+ * Lists the source string units of an entry for a target language. Strings that vary by plural or
+ * device, or use substitutions, are translated unit by unit; plain strings use the source-language
+ * value, or the key when the catalog has no source localization.
+ * @param entry The catalog entry
+ * @param key The entry's key
+ * @param sourceLanguage The catalog's source language
+ * @param targetLanguage The language code the units are requested for
+ * @returns Paths and source texts of the string units to translate
+ */
+export function getEntrySourceStringUnits(entry: XCStrings['strings'][string], key: string, sourceLanguage: string, targetLanguage: string): SourceStringUnit[] {
+  const sourceLocalization = entry.localizations?.[sourceLanguage];
+  if (hasNestedStringUnits(sourceLocalization)) {
+    return collectSourceStringUnits(sourceLocalization!, targetLanguage);
+  }
+  return [{ path: '', text: sourceLocalization?.stringUnit?.value || key }];
+}
+
+/**
+ * Reads the string unit at a path such as `plural.one` or `substitutions.files.plural.other`.
+ * @param localization The localization to read from
+ * @param path The unit path, or an empty string for the top-level string unit
+ * @returns The string unit, if present
+ */
+export function getStringUnitAtPath(localization: Localization | undefined, path: string): StringUnit | undefined {
+  let node: VariationValue | undefined = localization;
+  for (const [kind, name] of splitPath(path)) {
+    node = kind === 'substitutions'
+      ? localization?.substitutions?.[name]
+      : node?.variations?.[kind]?.[name];
+  }
+  return node?.stringUnit;
+}
+
+/**
+ * Returns the keys leading from a localization to the string unit at a path in the catalog JSON,
+ * e.g. `["variations", "plural", "one", "stringUnit"]` for `plural.one`.
+ * @param path The unit path, or an empty string for the top-level string unit
+ * @returns The JSON keys
+ */
+export function getStringUnitJsonKeys(path: string): string[] {
+  const keys = splitPath(path).flatMap(([kind, name]) => kind === 'substitutions' ? [kind, name] : ['variations', kind, name]);
+  return [...keys, 'stringUnit'];
+}
+
+/**
+ * Checks whether a localization has a plural variation without the `other` form, which Xcode
+ * requires as the fallback for every plural.
+ * @param localization The localization to check
+ * @returns True if a plural variation, top-level, nested or in a substitution, lacks `other`
+ */
+export function hasIncompletePlurals(localization: Localization): boolean {
+  const isIncomplete = (node: VariationValue): boolean => {
+    const plural = node.variations?.plural;
+    if (plural && !plural.other) {
+      return true;
+    }
+    return [...Object.values(plural ?? {}), ...Object.values(node.variations?.device ?? {})].some(isIncomplete);
+  };
+  return isIncomplete(localization) || Object.values(localization.substitutions ?? {}).some(isIncomplete);
+}
+
+/**
+ * Checks whether a localization holds any translated text, as opposed to the empty localization
+ * created for a language before its translations arrive.
+ * @param localization The localization to check
+ * @returns True if any string unit, top-level, nested or in a substitution, has a value
+ */
+export function hasStringUnitValues(localization: Localization): boolean {
+  const hasValue = (node: VariationValue): boolean =>
+    !!node.stringUnit?.value || [...Object.values(node.variations?.plural ?? {}), ...Object.values(node.variations?.device ?? {})].some(hasValue);
+  return hasValue(localization) || Object.values(localization.substitutions ?? {}).some(hasValue);
+}
+
+/**
+ * Writes a string unit at a path, creating the intermediate `variations` and `substitutions` trees as needed.
+ * A flat top-level string unit is dropped once top-level variations are written, since Xcode expects one or the other.
+ * New substitutions copy `argNum` and `formatSpecifier` from the source localization so the catalog keeps compiling.
+ * @param localization The localization to modify
+ * @param path The unit path, or an empty string for the top-level string unit
+ * @param stringUnit The string unit to write
+ * @param sourceLocalization The source-language localization, required when writing substitutions
+ */
+export function setStringUnitAtPath(localization: Localization, path: string, stringUnit: StringUnit, sourceLocalization?: Localization): void {
+  const segments = splitPath(path);
+  if (segments.length > 0 && segments[0][0] !== 'substitutions') {
+    delete localization.stringUnit;
+  }
+
+  let node: VariationValue = localization;
+  for (const [kind, name] of segments) {
+    if (kind === 'substitutions') {
+      const sourceSubstitution = sourceLocalization?.substitutions?.[name];
+      if (!sourceSubstitution) {
+        throw new Error(`Unknown substitution '${name}' in string unit path: ${path}`);
+      }
+      localization.substitutions = localization.substitutions ?? {};
+      const substitution = localization.substitutions[name] ?? { formatSpecifier: sourceSubstitution.formatSpecifier };
+      if (sourceSubstitution.argNum !== undefined) {
+        substitution.argNum = sourceSubstitution.argNum;
+      }
+      substitution.formatSpecifier = sourceSubstitution.formatSpecifier;
+      localization.substitutions[name] = substitution;
+      node = substitution;
+      continue;
+    }
+
+    node.variations = node.variations ?? {};
+    const branch = node.variations[kind] ?? {};
+    node.variations[kind] = branch;
+    branch[name] = branch[name] ?? {};
+    node = branch[name];
+  }
+  node.stringUnit = stringUnit;
+}
+
+function collectVariationUnits(source: VariationValue, targetLanguage: string, prefix: string): SourceStringUnit[] {
+  const units: SourceStringUnit[] = [];
+
+  if (source.stringUnit) {
+    units.push({ path: prefix, text: source.stringUnit.value });
+  }
+
+  const plural = source.variations?.plural;
+  if (plural) {
+    const categories = getPluralCategories(targetLanguage);
+    if (plural.zero && !categories.includes('zero')) {
+      categories.unshift('zero');
+    }
+    for (const category of categories) {
+      const sourceForm = plural[category] ?? plural.other;
+      if (sourceForm) {
+        units.push(...collectVariationUnits(sourceForm, targetLanguage, joinPath(prefix, `plural.${category}`)));
+      }
+    }
+  }
+
+  const device = source.variations?.device;
+  if (device) {
+    for (const [deviceName, deviceForm] of Object.entries(device)) {
+      units.push(...collectVariationUnits(deviceForm, targetLanguage, joinPath(prefix, `device.${deviceName}`)));
+    }
+  }
+
+  return units;
+}
+
+function joinPath(prefix: string, segment: string): string {
+  return prefix ? `${prefix}.${segment}` : segment;
+}
+
+function splitPath(path: string): PathSegment[] {
+  const parts = path ? path.split('.') : [];
+  const segments: PathSegment[] = [];
+  for (let i = 0; i < parts.length; i += 2) {
+    const kind = parts[i];
+    const isKnownKind = kind === 'plural' || kind === 'device' || (kind === 'substitutions' && i === 0);
+    if (!isKnownKind || parts[i + 1] === undefined) {
+      throw new Error(`Invalid string unit path: ${path}`);
+    }
+    segments.push([kind as PathSegment[0], parts[i + 1]]);
+  }
+  return segments;
+}
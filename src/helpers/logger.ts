@@ -0,0 +1,36 @@
+import * as core from '@actions/core';
+
+export interface Logger {
+  info(message: string): void;
+  warning(message: string): void;
+  error(message: string): void;
+}
+
+/** Logs through the GitHub Actions toolkit, so warnings and errors become workflow annotations. */
+const actionsLogger: Logger = {
+  info: message => core.info(message),
+  warning: message => core.warning(message),
+  error: message => core.error(message)
+};
+
+let activeLogger: Logger = actionsLogger;
+
+/**
+ * Replaces the logger used by the localization pipeline, e.g. with console output when running outside GitHub Actions.
+ * @param logger The logger to use
+ */
+export function setLogger(logger: Logger): void {
+  activeLogger = logger;
+}
+
+export function info(message: string): void {
+  activeLogger.info(message);
+}
+
+export function warning(message: string): void {
+  activeLogger.warning(message);
+}
+
+export function error(message: string): void {
+  activeLogger.error(message);
+}
@@ -0,0 +1,70 @@
+import { TranslationResult } from '../types';
+
+/**
+ * Recovers the complete translation results from a truncated or malformed batch response,
+ * such as one cut off by the model's output limit. Every fully closed object inside the
+ * top-level `translations` array is parsed; the incomplete tail is dropped.
+ * @param content The raw response content
+ * @returns The translation results that could be recovered
+ */
+export function salvageTranslationResults(content: string): TranslationResult[] {
+  const arrayStart = content.search(/"translations"\s*:\s*\[/);
+  if (arrayStart === -1) {
+    return [];
+  }
+
+  const results: TranslationResult[] = [];
+  let depth = 0;
+  let inString = false;
+  let isEscaped = false;
+  let objectStart = -1;
+
+  for (let i = content.indexOf('[', arrayStart) + 1; i < content.length; i++) {
+    const char = content[i];
+
+    if (inString) {
+      if (isEscaped) {
+        isEscaped = false;
+      } else if (char === '\\') {
+        isEscaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      if (depth === 0) {
+        objectStart = i;
+      }
+      depth++;
+    } else if (char === '}') {
+      depth--;
+      if (depth === 0 && objectStart !== -1) {
+        const result = parseTranslationResult(content.slice(objectStart, i + 1));
+        if (result) {
+          results.push(result);
+        }
+        objectStart = -1;
+      }
+    } else if (char === ']' && depth === 0) {
+      break;
+    }
+  }
+
+  return results;
+}
+
+function parseTranslationResult(json: string): TranslationResult | undefined {
+  try {
+    const parsed = JSON.parse(json);
+    if (typeof parsed?.key === 'string' && parsed.translations && typeof parsed.translations === 'object') {
+      return parsed;
+    }
+  } catch {
+    // Skip objects that are not valid JSON on their own
+  }
+  return undefined;
+}
@@ -1,58 +1,77 @@
+import { combineCoverage, escapeTableCell, formatCoverageTable, LanguageCoverage, NewTranslation } from './translationReport';
+
+/** GitHub rejects pull request bodies longer than this many characters. */
+export const MAX_PR_BODY_LENGTH = 65536;
+
+/** Longest source, comment or translation shown in a table cell before it is shortened. */
+const MAX_TABLE_CELL_LENGTH = 200;
+
+/** Room kept for the note pointing to the full report when the description is shortened. */
+const TRUNCATION_NOTE_RESERVE = 400;
+
 export interface TranslationChanges {
   added: string[];
   updated: string[];
   staleRemoved: string[];
+  needsReview: string[];
+  rejected: string[];
+  failed: string[];
+  glossaryViolations: string[];
+}
+
+export interface CatalogChanges {
+  filePath: string;
+  translationChanges: TranslationChanges;
+  /** Translation coverage of the catalog after the changes, per target language. */
+  coverage?: LanguageCoverage[];
 }
 
 /**
  * Generates a detailed PR description that includes a summary of all translation changes.
+ * With several catalogs, the changes are listed in a section per catalog. When the coverage of the
+ * catalogs is known, a table of translated, needs-review and missing strings per language follows.
  * @param basePrBody The base PR body text from configuration
- * @param translationChanges Object containing arrays of added, updated, and removed translations
+ * @param catalogChanges The added, updated, removed, needs-review, rejected, failed and glossary-violating translations of each catalog
  * @param targetLanguages Array of target language codes
  * @param changedFilesList Array of files that were modified
  * @returns Complete PR description with detailed change summary
  */
 export function generatePrDescription(
   basePrBody: string,
-  translationChanges?: TranslationChanges,
+  catalogChanges?: CatalogChanges[],
   targetLanguages?: string[],
   changedFilesList?: string[]
 ): string {
   let finalPrBody = basePrBody;
   
   // Add detailed translation changes summary
-  if (translationChanges && targetLanguages) {
-    const totalChanges = translationChanges.added.length + translationChanges.updated.length + translationChanges.staleRemoved.length;
+  if (catalogChanges && targetLanguages) {
+    const totalChanges = catalogChanges.reduce((total, catalog) => total + countChanges(catalog.translationChanges), 0);
     
     if (totalChanges > 0) {
       finalPrBody += '\n\n## Translation Changes Summary\n\n';
       finalPrBody += `**Target Languages:** ${targetLanguages.join(', ')}\n`;
       finalPrBody += `**Total Changes:** ${totalChanges}\n\n`;
       
-      if (translationChanges.added.length > 0) {
-        finalPrBody += `### ✅ Added Translations (${translationChanges.added.length})\n`;
-        for (const change of translationChanges.added) {
-          finalPrBody += `- ${change}\n`;
-        }
-        finalPrBody += '\n';
-      }
-      
-      if (translationChanges.updated.length > 0) {
-        finalPrBody += `### 🔄 Updated Translations (${translationChanges.updated.length})\n`;
-        for (const change of translationChanges.updated) {
-          finalPrBody += `- ${change}\n`;
+      if (catalogChanges.length === 1) {
+        finalPrBody += describeChanges(catalogChanges[0].translationChanges, '###');
+      } else {
+        for (const catalog of catalogChanges) {
+          const changes = catalog.translationChanges;
+          if (countChanges(changes) === 0 && changes.rejected.length === 0 && changes.failed.length === 0 && changes.glossaryViolations.length === 0) {
+            continue;
+          }
+          finalPrBody += `### 📄 ${catalog.filePath}\n\n`;
+          finalPrBody += describeChanges(changes, '####');
         }
-        finalPrBody += '\n';
-      }
-      
-      if (translationChanges.staleRemoved.length > 0) {
-        finalPrBody += `### 🗑️ Removed Stale Strings (${translationChanges.staleRemoved.length})\n`;
-        for (const change of translationChanges.staleRemoved) {
-          finalPrBody += `- ${change}\n`;
-        }
-        finalPrBody += '\n';
       }
     }
+
+    const coverages = catalogChanges.flatMap(catalog => catalog.coverage ? [catalog.coverage] : []);
+    if (coverages.length > 0) {
+      finalPrBody += `${totalChanges > 0 ? '' : '\n\n'}### 📊 Translation Coverage\n\n`;
+      finalPrBody += formatCoverageTable(combineCoverage(coverages));
+    }
   }
   
   if (changedFilesList && changedFilesList.length > 0) {
@@ -60,4 +79,178 @@ export function generatePrDescription(
   }
   
   return finalPrBody;
-} 
\ No newline at end of file
+}
+
+function countChanges(translationChanges: TranslationChanges): number {
+  return translationChanges.added.length + translationChanges.updated.length + translationChanges.staleRemoved.length + translationChanges.needsReview.length;
+}
+
+function describeChanges(translationChanges: TranslationChanges, heading: string): string {
+  let description = '';
+
+  if (translationChanges.added.length > 0) {
+    description += `${heading} ✅ Added Translations (${translationChanges.added.length})\n`;
+    for (const change of translationChanges.added) {
+      description += `- ${change}\n`;
+    }
+    description += '\n';
+  }
+  
+  const updatedCount = translationChanges.updated.length + translationChanges.needsReview.length;
+  if (updatedCount > 0) {
+    description += `${heading} 🔄 Updated Translations (${updatedCount})\n`;
+    for (const change of translationChanges.updated) {
+      description += `- ${change}\n`;
+    }
+    for (const change of translationChanges.needsReview) {
+      description += `- ${change} — source changed, marked as needs review\n`;
+    }
+    description += '\n';
+  }
+  
+  if (translationChanges.staleRemoved.length > 0) {
+    description += `${heading} 🗑️ Removed Stale Strings (${translationChanges.staleRemoved.length})\n`;
+    for (const change of translationChanges.staleRemoved) {
+      description += `- ${change}\n`;
+    }
+    description += '\n';
+  }
+  
+  if (translationChanges.rejected.length > 0) {
+    description += `${heading} ⚠️ Rejected Translations (${translationChanges.rejected.length})\n`;
+    description += 'These translations failed placeholder validation and were not written to the catalog:\n';
+    for (const change of translationChanges.rejected) {
+      description += `- ${change}\n`;
+    }
+    description += '\n';
+  }
+  
+  if (translationChanges.failed.length > 0) {
+    description += `${heading} ❌ Failed Translations (${translationChanges.failed.length})\n`;
+    description += 'These translations could not be fetched in this run and will be retried on the next one:\n';
+    for (const change of translationChanges.failed) {
+      description += `- ${change}\n`;
+    }
+    description += '\n';
+  }
+
+  if (translationChanges.glossaryViolations.length > 0) {
+    description += `${heading} 📖 Glossary Violations (${translationChanges.glossaryViolations.length})\n`;
+    description += 'These translations were written to the catalog but do not follow the glossary; please review them:\n';
+    for (const change of translationChanges.glossaryViolations) {
+      description += `- ${change}\n`;
+    }
+    description += '\n';
+  }
+
+  return description;
+}
+
+/**
+ * Generates the PR description followed by a collapsible table per language with the source text,
+ * comment and translation of every new translation, so reviewers don't have to read the catalog
+ * diff. When the tables don't fit into GitHub's size limit, each language shows as many rows as its
+ * share of the remaining space allows, and the complete tables are returned as a separate report
+ * for the caller to commit at `fullReport.path`.
+ * @param basePrBody The base PR body text from configuration
+ * @param catalogChanges The changes of each catalog
+ * @param targetLanguages Array of target language codes
+ * @param changedFilesList Array of files that were modified
+ * @param newTranslations The translations written to the catalogs
+ * @param fullReport Where the full report is committed when the tables are shortened, and its URL
+ * @param maxLength The maximum description length
+ * @returns The description, and the full report when the tables were shortened
+ */
+export function generatePrDescriptionWithTranslations(
+  basePrBody: string,
+  catalogChanges: CatalogChanges[],
+  targetLanguages: string[],
+  changedFilesList: string[],
+  newTranslations: NewTranslation[],
+  fullReport: { path: string; url: string },
+  maxLength: number = MAX_PR_BODY_LENGTH
+): { body: string; report?: string } {
+  let body = generatePrDescription(basePrBody, catalogChanges, targetLanguages, changedFilesList);
+  const truncationNote = `\n\n> [!NOTE]\n> This description was shortened to stay within GitHub's size limit. All translations are listed in [\`${fullReport.path}\`](${fullReport.url}) on this branch.\n`;
+  const budget = maxLength - TRUNCATION_NOTE_RESERVE;
+  if (body.length > budget) {
+    // The change lists alone are too long; cut them at a line and leave the tables to the report.
+    // A single line longer than the budget is cut where it overflows.
+    const lineEnd = body.lastIndexOf('\n', budget);
+    body = body.slice(0, lineEnd > 0 ? lineEnd : budget);
+    if (newTranslations.length === 0) {
+      return { body: `${body}\n\n> [!NOTE]\n> This description was shortened to stay within GitHub's size limit.\n` };
+    }
+    return { body: body + truncationNote, report: generateTranslationReport(newTranslations, targetLanguages) };
+  }
+  if (newTranslations.length === 0) {
+    return { body };
+  }
+
+  const { markdown, omitted } = formatTranslationTables(newTranslations, targetLanguages, budget - body.length - 2);
+  body += `\n\n${markdown}`;
+  if (omitted === 0) {
+    return { body };
+  }
+  return { body: body + truncationNote, report: generateTranslationReport(newTranslations, targetLanguages) };
+}
+
+/**
+ * Generates a Markdown report with every new translation, by language.
+ * @param newTranslations The translations written to the catalogs
+ * @param targetLanguages Array of target language codes
+ * @returns The report
+ */
+export function generateTranslationReport(newTranslations: NewTranslation[], targetLanguages: string[]): string {
+  return `# Localization Report\n\n${formatTranslationTables(newTranslations, targetLanguages, Infinity).markdown}`;
+}
+
+/**
+ * Formats a collapsible table of new translations per language. Each language gets an equal share
+ * of the space, and space a language doesn't use goes to the languages after it.
+ * @returns The Markdown tables and the number of translations that did not fit
+ */
+function formatTranslationTables(newTranslations: NewTranslation[], targetLanguages: string[], maxLength: number): { markdown: string; omitted: number } {
+  const languages = targetLanguages.filter(language => newTranslations.some(translation => translation.language === language));
+  const showFilePath = new Set(newTranslations.map(translation => translation.filePath)).size > 1;
+  let markdown = '## Translations\n\n';
+  let omitted = 0;
+
+  languages.forEach((language, index) => {
+    const translations = newTranslations.filter(translation => translation.language === language);
+    const languageBudget = (maxLength - markdown.length) / (languages.length - index);
+    let table = '| Key | Source | Comment | Translation |\n|-----|--------|---------|-------------|\n';
+    let shown = 0;
+    for (const translation of translations) {
+      const row = formatTranslationRow(translation, showFilePath);
+      // Leave room for the section around the table
+      if (table.length + row.length + 120 > languageBudget) {
+        break;
+      }
+      table += row;
+      shown++;
+    }
+    omitted += translations.length - shown;
+    if (shown === 0) {
+      return;
+    }
+
+    const count = shown < translations.length ? `${shown} of ${translations.length}` : `${translations.length}`;
+    markdown += `<details>\n<summary><b>${language}</b>: ${count} translations</summary>\n\n${table}\n</details>\n\n`;
+  });
+
+  return { markdown: markdown.trimEnd() + '\n', omitted };
+}
+
+function formatTranslationRow(translation: NewTranslation, showFilePath: boolean): string {
+  let key = translation.unitPath ? `${translation.key} [${translation.unitPath}]` : translation.key;
+  if (showFilePath) {
+    key = `${translation.filePath}: ${key}`;
+  }
+  const cells = [key, translation.source, translation.comment ?? '', translation.translation].map(cell => escapeTableCell(shorten(cell)));
+  return `| ${cells.join(' | ')} |\n`;
+}
+
+function shorten(text: string): string {
+  return text.length > MAX_TABLE_CELL_LENGTH ? `${text.slice(0, MAX_TABLE_CELL_LENGTH - 1)}…` : text;
+}
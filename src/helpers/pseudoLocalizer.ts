@@ -0,0 +1,82 @@
+import { FORMAT_SPECIFIER_PATTERN } from './translationValidator';
+
+/** Format specifiers plus Markdown link and inflection targets, which must be copied verbatim. */
+const PROTECTED_PATTERN = new RegExp(`${FORMAT_SPECIFIER_PATTERN.source}|\\]\\([^)]*\\)`, 'g');
+
+const ACCENTED_CHARACTERS: { [character: string]: string } = {
+  A: 'Å', B: 'Ɓ', C: 'Ç', D: 'Ð', E: 'É', F: 'Ƒ', G: 'Ĝ', H: 'Ĥ', I: 'Î', J: 'Ĵ', K: 'Ķ', L: 'Ļ', M: 'Ṁ',
+  N: 'Ñ', O: 'Ö', P: 'Þ', Q: 'Ǫ', R: 'Ŕ', S: 'Š', T: 'Ţ', U: 'Û', V: 'Ṽ', W: 'Ŵ', X: 'Ẋ', Y: 'Ý', Z: 'Ž',
+  a: 'å', b: 'ƀ', c: 'ç', d: 'ð', e: 'é', f: 'ƒ', g: 'ĝ', h: 'ĥ', i: 'î', j: 'ĵ', k: 'ķ', l: 'ļ', m: 'ṁ',
+  n: 'ñ', o: 'ö', p: 'þ', q: 'ǫ', r: 'ŕ', s: 'š', t: 'ţ', u: 'û', v: 'ṽ', w: 'ŵ', x: 'ẋ', y: 'ý', z: 'ž'
+};
+
+const PADDING_WORDS = ['one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten'];
+
+/** Share of the visible text length added as padding, simulating languages such as German or Finnish. */
+const EXPANSION_RATIO = 0.35;
+
+const RIGHT_TO_LEFT_MARK = '\u200F';
+const RIGHT_TO_LEFT_OVERRIDE = '\u202E';
+const POP_DIRECTIONAL_FORMATTING = '\u202C';
+
+export interface PseudoLocalizeOptions {
+  /** Mirror the text with right-to-left overrides instead of accenting it. */
+  rtl?: boolean;
+}
+
+/**
+ * Checks whether a pseudo-locale should be mirrored. Following the Android convention, locales
+ * ending in `-XB` (e.g. `ar-XB`) are right-to-left pseudo-locales; all others (e.g. `en-XA`) are accented.
+ * @param languageCode The pseudo-locale code
+ * @returns True if the pseudo-locale is right-to-left
+ */
+export function isRtlPseudoLocale(languageCode: string): boolean {
+  return /-XB$/i.test(languageCode);
+}
+
+/**
+ * Pseudo-localizes a string so untranslated text, truncation and layout issues stand out:
+ * letters are accented (or mirrored for right-to-left), the text is padded by about a third and
+ * wrapped in brackets. Format specifiers, substitution tokens and Markdown link targets are kept as-is.
+ * @param text The source text
+ * @param options Pseudo-localization settings
+ * @returns The pseudo-localized text
+ */
+export function pseudoLocalize(text: string, options: PseudoLocalizeOptions = {}): string {
+  if (!text) {
+    return text;
+  }
+
+  let result = '';
+  let visibleLength = 0;
+  let lastIndex = 0;
+  const appendText = (segment: string) => {
+    if (!segment) {
+      return;
+    }
+    visibleLength += segment.length;
+    result += options.rtl
+      ? RIGHT_TO_LEFT_MARK + RIGHT_TO_LEFT_OVERRIDE + segment + POP_DIRECTIONAL_FORMATTING + RIGHT_TO_LEFT_MARK
+      : segment.replace(/[A-Za-z]/g, character => ACCENTED_CHARACTERS[character]);
+  };
+
+  const pattern = new RegExp(PROTECTED_PATTERN.source, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    if (match[0].length === 0) {
+      pattern.lastIndex++;
+      continue;
+    }
+    appendText(text.slice(lastIndex, match.index));
+    result += match[0];
+    lastIndex = match.index + match[0].length;
+  }
+  appendText(text.slice(lastIndex));
+
+  const paddingLength = Math.ceil(visibleLength * EXPANSION_RATIO);
+  let padding = '';
+  for (let i = 0; padding.length < paddingLength; i++) {
+    padding += ' ' + PADDING_WORDS[i % PADDING_WORDS.length];
+  }
+  return `[${result}${padding}]`;
+}
@@ -0,0 +1,286 @@
+import * as fs from 'fs';
+import * as YAML from 'yaml';
+import { ChangedSourceStrategy, GlossaryTerm } from '../types';
+import { isProviderName, ProviderName, PROVIDER_NAMES, providerUsesModel } from '../services/translationProvider';
+import { parseGlossaryTerms } from './glossary';
+import { LanguageStyles, parseLanguageStyles } from './languageStyles';
+import { TokenPriceOverrides, TokenPrices } from '../services/usageEstimator';
+import { DeliveryMode, isDeliveryMode, isPrUpdateMode, PrUpdateMode } from '../services/githubService';
+
+/** Config files looked up in the working directory when no `config_path` is given, in order. */
+export const DEFAULT_CONFIG_FILES = ['.vibe-localizer.yml', '.vibe-localizer.yaml', '.vibe-localizer.json'];
+
+/** The repository config file (`.vibe-localizer.yml`). Every setting is optional; action inputs take precedence. */
+export interface RepoConfig {
+  /** Catalog paths or glob patterns. */
+  catalogs?: string[];
+  /** Catalog paths or glob patterns to skip. */
+  exclude?: string[];
+  targetLanguages?: string[];
+  pseudoLocales?: string[];
+  provider?: ProviderName;
+  model?: string;
+  providerBaseUrl?: string;
+  providerApiVersion?: string;
+  providerDeploymentName?: string;
+  languageProviders?: { [languageCode: string]: ProviderName };
+  /** Models of the providers used through `languageProviders`. */
+  providerModels?: { [provider in ProviderName]?: string };
+  mockFixturesPath?: string;
+  systemPrompt?: string;
+  changedSourceStrategy?: ChangedSourceStrategy;
+  /** A glossary file path or inline glossary terms. */
+  glossary?: string | GlossaryTerm[];
+  /** A language styles file path or inline styles. */
+  languageStyles?: string | LanguageStyles;
+  translationMemory?: string;
+  /** Prices used for cost estimates per provider and model, in US dollars per million tokens. */
+  tokenPrices?: TokenPriceOverrides;
+  batch?: {
+    maxStrings?: number;
+    maxTokens?: number;
+    maxConcurrent?: number;
+    retries?: number;
+  };
+  mode?: DeliveryMode;
+  pullRequest?: {
+    branchPrefix?: string;
+    title?: string;
+    body?: string;
+    commitMessage?: string;
+    commitUserName?: string;
+    commitUserEmail?: string;
+    updateMode?: PrUpdateMode;
+    reviewComments?: boolean;
+  };
+}
+
+type Validator = (value: unknown, name: string) => unknown;
+
+const isString: Validator = (value, name) => {
+  if (typeof value !== 'string') {
+    throw new Error(`"${name}" must be a string, got ${describeValue(value)}.`);
+  }
+  return value;
+};
+
+/** Accepts a list of strings or a single comma-separated string. */
+const isStringList: Validator = (value, name) => {
+  if (typeof value === 'string') {
+    return value.split(',').map(item => item.trim()).filter(item => item);
+  }
+  if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) {
+    throw new Error(`"${name}" must be a list of strings, got ${describeValue(value)}.`);
+  }
+  return value.map(item => item.trim()).filter(item => item);
+};
+
+const isBoolean: Validator = (value, name) => {
+  if (typeof value !== 'boolean') {
+    throw new Error(`"${name}" must be true or false, got ${describeValue(value)}.`);
+  }
+  return value;
+};
+
+const isPositiveInteger = (allowZero: boolean): Validator => (value, name) => {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < (allowZero ? 0 : 1)) {
+    throw new Error(`"${name}" must be a ${allowZero ? 'non-negative' : 'positive'} integer, got ${describeValue(value)}.`);
+  }
+  return value;
+};
+
+const isPrice: Validator = (value, name) => {
+  if (typeof value !== 'number' || !(value >= 0)) {
+    throw new Error(`"${name}" must be a non-negative number of US dollars per million tokens, got ${describeValue(value)}.`);
+  }
+  return value;
+};
+
+const isProvider: Validator = (value, name) => {
+  if (typeof value !== 'string' || !isProviderName(value)) {
+    throw new Error(`"${name}" must be one of ${PROVIDER_NAMES.join(', ')}, got ${describeValue(value)}.`);
+  }
+  return value;
+};
+
+const isObject = (schema: { [key: string]: Validator }): Validator => (value, name) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`"${name}" must be a mapping with any of: ${Object.keys(schema).join(', ')}.`);
+  }
+  return validateObject(value as { [key: string]: unknown }, schema, `${name}.`);
+};
+
+const CONFIG_SCHEMA: { [key in keyof RepoConfig]-?: Validator } = {
+  catalogs: isStringList,
+  exclude: isStringList,
+  targetLanguages: isStringList,
+  pseudoLocales: isStringList,
+  provider: isProvider,
+  model: isString,
+  providerBaseUrl: isString,
+  providerApiVersion: isString,
+  providerDeploymentName: isString,
+  languageProviders: (value, name) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new Error(`"${name}" must map language codes to providers, e.g. { de: deepl }.`);
+    }
+    for (const [languageCode, provider] of Object.entries(value)) {
+      isProvider(provider, `${name}.${languageCode}`);
+    }
+    return value;
+  },
+  providerModels: (value, name) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new Error(`"${name}" must map providers to models, e.g. { anthropic: claude-3-5-haiku-latest }.`);
+    }
+    for (const [provider, model] of Object.entries(value)) {
+      if (!isProviderName(provider) || !providerUsesModel(provider)) {
+        throw new Error(`"${name}" has an unknown provider '${provider}'. Expected one of: ${PROVIDER_NAMES.filter(providerUsesModel).join(', ')}.`);
+      }
+      isString(model, `${name}.${provider}`);
+    }
+    return value;
+  },
+  mockFixturesPath: isString,
+  systemPrompt: isString,
+  changedSourceStrategy: (value, name) => {
+    if (value !== 'retranslate' && value !== 'needs_review') {
+      throw new Error(`"${name}" must be "retranslate" or "needs_review", got ${describeValue(value)}.`);
+    }
+    return value;
+  },
+  glossary: (value, name) => {
+    if (typeof value === 'string') {
+      return value;
+    }
+    if (!Array.isArray(value)) {
+      throw new Error(`"${name}" must be a glossary file path or a list of terms, got ${describeValue(value)}.`);
+    }
+    return parseGlossaryTerms(value, `setting "${name}"`);
+  },
+  languageStyles: (value, name) => typeof value === 'string' ? value : parseLanguageStyles(value, `setting "${name}"`),
+  translationMemory: isString,
+  tokenPrices: (value, name) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new Error(`"${name}" must map providers to model prices, e.g. { openai: { gpt-4o-mini: { input: 0.15, output: 0.6 } } }.`);
+    }
+    for (const [provider, modelPrices] of Object.entries(value)) {
+      if (!isProviderName(provider) || !providerUsesModel(provider)) {
+        throw new Error(`"${name}" has an unknown provider '${provider}'. Expected one of: ${PROVIDER_NAMES.filter(providerUsesModel).join(', ')}.`);
+      }
+      if (typeof modelPrices !== 'object' || modelPrices === null || Array.isArray(modelPrices)) {
+        throw new Error(`"${name}.${provider}" must map models to prices, e.g. { gpt-4o-mini: { input: 0.15, output: 0.6 } }.`);
+      }
+      for (const [model, prices] of Object.entries(modelPrices)) {
+        const { input, output } = isObject({ input: isPrice, output: isPrice })(prices, `${name}.${provider}.${model}`) as Partial<TokenPrices>;
+        if (input === undefined || output === undefined) {
+          throw new Error(`"${name}.${provider}.${model}" must set both input and output prices, e.g. { input: 0.15, output: 0.6 }.`);
+        }
+      }
+    }
+    return value;
+  },
+  batch: isObject({
+    maxStrings: isPositiveInteger(false),
+    maxTokens: isPositiveInteger(false),
+    maxConcurrent: isPositiveInteger(false),
+    retries: isPositiveInteger(true)
+  }),
+  mode: (value, name) => {
+    if (typeof value !== 'string' || !isDeliveryMode(value)) {
+      throw new Error(`"${name}" must be "pull-request" or "commit-to-head", got ${describeValue(value)}.`);
+    }
+    return value;
+  },
+  pullRequest: isObject({
+    branchPrefix: isString,
+    title: isString,
+    body: isString,
+    commitMessage: isString,
+    commitUserName: isString,
+    commitUserEmail: isString,
+    updateMode: (value, name) => {
+      if (typeof value !== 'string' || !isPrUpdateMode(value)) {
+        throw new Error(`"${name}" must be "force" or "append", got ${describeValue(value)}.`);
+      }
+      return value;
+    },
+    reviewComments: isBoolean
+  })
+};
+
+/**
+ * Finds the config file to use: the given path, or the first default config file that exists.
+ * @param configPath The configured path, if any
+ * @param exists Checks whether a file exists, injectable for tests
+ * @returns The config file path, or undefined when there is none
+ */
+export function findConfigFile(configPath: string | undefined, exists: (filePath: string) => boolean = fs.existsSync): string | undefined {
+  if (configPath) {
+    if (!exists(configPath)) {
+      throw new Error(`Config file ${configPath} does not exist.`);
+    }
+    return configPath;
+  }
+  return DEFAULT_CONFIG_FILES.find(filePath => exists(filePath));
+}
+
+/**
+ * Loads and validates a YAML or JSON config file.
+ * @param filePath The config file path
+ * @returns The validated config
+ */
+export function loadRepoConfig(filePath: string): RepoConfig {
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, 'utf8');
+  } catch (e: any) {
+    throw new Error(`Could not read config file ${filePath}: ${e.message}`);
+  }
+  return parseRepoConfig(content, filePath);
+}
+
+/**
+ * Parses and validates config file content. JSON is valid YAML, so both formats are parsed as YAML.
+ * @param content The file content
+ * @param filePath The file path, used in error messages
+ * @returns The validated config
+ */
+export function parseRepoConfig(content: string, filePath: string): RepoConfig {
+  let parsed: unknown;
+  try {
+    parsed = YAML.parse(content);
+  } catch (e: any) {
+    throw new Error(`Failed to parse config file ${filePath}: ${e.message}`);
+  }
+  if (parsed === null || parsed === undefined) {
+    return {};
+  }
+  if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`Invalid config file ${filePath}: expected a mapping of settings such as targetLanguages and provider.`);
+  }
+
+  try {
+    return validateObject(parsed as { [key: string]: unknown }, CONFIG_SCHEMA, '') as RepoConfig;
+  } catch (e: any) {
+    throw new Error(`Invalid config file ${filePath}: ${e.message}`);
+  }
+}
+
+function validateObject(value: { [key: string]: unknown }, schema: { [key: string]: Validator }, prefix: string): { [key: string]: unknown } {
+  const validated: { [key: string]: unknown } = {};
+  for (const [key, item] of Object.entries(value)) {
+    const validator = schema[key];
+    if (!validator) {
+      throw new Error(`unknown setting '${prefix}${key}'. Expected one of: ${Object.keys(schema).join(', ')}.`);
+    }
+    if (item !== null && item !== undefined) {
+      validated[key] = validator(item, `${prefix}${key}`);
+    }
+  }
+  return validated;
+}
+
+function describeValue(value: unknown): string {
+  return Array.isArray(value) ? 'a list' : typeof value === 'object' && value !== null ? 'a mapping' : JSON.stringify(value);
+}
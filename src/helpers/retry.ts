@@ -0,0 +1,67 @@
+export interface RetryOptions {
+  /** Total number of attempts, including the first one. */
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  isRetryable?: (error: unknown) => boolean;
+  /** Returns the server-requested delay (e.g. from a `Retry-After` header), if any. */
+  getRetryAfterMs?: (error: unknown) => number | undefined;
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+/**
+ * Computes an exponential backoff delay with full jitter.
+ * @param attempt The attempt that just failed, starting at 1
+ * @param baseDelayMs The delay ceiling for the first retry
+ * @param maxDelayMs The upper bound for any delay
+ * @param random Random source in [0, 1), injectable for tests
+ * @returns The delay in milliseconds
+ */
+export function computeBackoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number, random: () => number = Math.random): number {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(ceiling * random());
+}
+
+/**
+ * Parses a `Retry-After` header given either in seconds or as an HTTP date.
+ * @param value The header value
+ * @param now The current time in milliseconds, injectable for tests
+ * @returns The delay in milliseconds, or undefined if the header is missing or invalid
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Runs an async operation, retrying retryable failures with exponential backoff and jitter.
+ * A server-requested delay takes precedence over the computed backoff, capped at `maxDelayMs`.
+ * @param operation The operation to run
+ * @param options Retry settings
+ * @returns The operation's result
+ */
+export async function withRetry<T>(operation: () => Promise<T>, options: RetryOptions): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      const retryable = options.isRetryable ? options.isRetryable(error) : true;
+      if (!retryable || attempt >= options.maxAttempts) {
+        throw error;
+      }
+      const retryAfterMs = options.getRetryAfterMs?.(error);
+      const delayMs = retryAfterMs !== undefined
+        ? Math.min(retryAfterMs, options.maxDelayMs)
+        : computeBackoffDelay(attempt, options.baseDelayMs, options.maxDelayMs);
+      options.onRetry?.(error, attempt, delayMs);
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * A command a reviewer posts on a pull request to change one translation:
+ * `/retranslate <key> <language> ["hint"]` requests a new translation, guided by the optional
+ * hint, and `/set <key> <language> "<value>"` writes the given translation.
+ */
+export type ReviewCommand =
+  | { action: 'retranslate', key: string, unitPath?: string, language: string, hint?: string }
+  | { action: 'set', key: string, unitPath?: string, language: string, value: string };
+
+/** A comment line that starts with a review command, with the command or why it could not be parsed. */
+export type ParsedReviewCommand = { line: string, command: ReviewCommand } | { line: string, error: string };
+
+/** The outcome of one line of a comment that starts with a review command. */
+export interface ReviewCommandResult {
+  /** The command line as posted. */
+  line: string;
+  /** The parsed command; missing when the line could not be parsed. */
+  command?: ReviewCommand;
+  succeeded: boolean;
+  message: string;
+}
+
+const COMMAND_PATTERN = /^\/(retranslate|set)(?:\s+|$)(.*)$/;
+const UNIT_PATH_PATTERN = /^(.*\S)\s+\[((?:plural|device|substitutions)\.[^\]\s]+)\]$/;
+
+export const REVIEW_COMMAND_USAGE = 'Usage: `/retranslate <key> <language> ["hint"]` or `/set <key> <language> "<value>"`. Quote keys that contain spaces, and add the form of a plural or device variation to the key, e.g. `"%lld files [plural.one]"`.';
+
+/**
+ * Finds the review commands in a comment, one per line. Lines quoted from other comments are
+ * ignored, so replying to a comment never repeats its commands.
+ * @param body The comment body
+ * @returns The command lines in the order they were posted
+ */
+export function parseReviewCommands(body: string): ParsedReviewCommand[] {
+  const commands: ParsedReviewCommand[] = [];
+  let inCodeBlock = false;
+
+  for (const rawLine of body.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (line.startsWith('```')) {
+      inCodeBlock = !inCodeBlock;
+      continue;
+    }
+    const match = inCodeBlock ? null : COMMAND_PATTERN.exec(line);
+    if (!match) {
+      continue;
+    }
+
+    const [, action, rest] = match;
+    let args: string[];
+    try {
+      args = splitArguments(rest);
+    } catch (e: any) {
+      commands.push({ line, error: `${e.message} ${REVIEW_COMMAND_USAGE}` });
+      continue;
+    }
+
+    const expected = action === 'set' ? [3] : [2, 3];
+    if (!expected.includes(args.length)) {
+      commands.push({ line, error: `Expected ${action === 'set' ? 'a key, a language and a value' : 'a key, a language and an optional hint'}. ${REVIEW_COMMAND_USAGE}` });
+      continue;
+    }
+
+    const [keyArgument, language, text] = args;
+    const unitMatch = UNIT_PATH_PATTERN.exec(keyArgument);
+    const target = unitMatch ? { key: unitMatch[1], unitPath: unitMatch[2], language } : { key: keyArgument, language };
+    const command: ReviewCommand = action === 'set'
+      ? { action, ...target, value: text }
+      : { action: 'retranslate', ...target, ...(text ? { hint: text } : {}) };
+    commands.push({ line, command });
+  }
+  return commands;
+}
+
+/**
+ * Formats the reply to a comment with review commands.
+ * @param results The result of each command, in the order they were posted
+ * @param outcome A closing sentence, e.g. the commit the changes were pushed in
+ * @returns The Markdown reply
+ */
+export function formatReviewCommandReply(results: ReviewCommandResult[], outcome: string): string {
+  let reply = '';
+  for (const result of results) {
+    reply += `${result.succeeded ? '✅' : '❌'} \`${result.line.replace(/`/g, '\'')}\`\n`;
+    reply += `${result.message.split('\n').map(line => `> ${line}`).join('\n')}\n\n`;
+  }
+  return reply + outcome;
+}
+
+/**
+ * Splits command arguments at whitespace, keeping double-quoted arguments together. Quotes inside
+ * a quoted argument are escaped with a backslash.
+ */
+function splitArguments(text: string): string[] {
+  const args: string[] = [];
+  let index = 0;
+  while (index < text.length) {
+    if (/\s/.test(text[index])) {
+      index++;
+      continue;
+    }
+    if (text[index] !== '"' && text[index] !== '“') {
+      const end = text.slice(index).search(/\s/);
+      args.push(end === -1 ? text.slice(index) : text.slice(index, index + end));
+      index = end === -1 ? text.length : index + end;
+      continue;
+    }
+
+    // Phone keyboards turn straight quotes into curly ones
+    const closingQuote = text[index] === '"' ? '"' : '”';
+    let value = '';
+    index++;
+    while (index < text.length && text[index] !== closingQuote) {
+      if (text[index] === '\\' && index + 1 < text.length) {
+        index++;
+      }
+      value += text[index++];
+    }
+    if (index >= text.length) {
+      throw new Error('Missing closing quote.');
+    }
+    args.push(value);
+    index++;
+  }
+  return args;
+}
@@ -0,0 +1,153 @@
+import * as path from 'path';
+import { getStringUnitJsonKeys } from './localizationTree';
+import { NewTranslation } from './translationReport';
+
+/** How many review comments a run posts at most; further translations are only listed in the PR description. */
+export const MAX_REVIEW_COMMENTS = 50;
+
+/** A review comment on one line of a pull request's diff. */
+export interface ReviewComment {
+  path: string;
+  line: number;
+  body: string;
+}
+
+/**
+ * Finds the line of every string value in a JSON document.
+ * @param content The JSON text
+ * @returns The 1-based line of each string value, keyed by the JSON-encoded list of keys leading to it
+ */
+export function findStringValueLines(content: string): Map<string, number> {
+  const valueLines: Map<string, number> = new Map();
+  const keys: string[] = [];
+  const containers: ('object' | 'array')[] = [];
+  let line = 1;
+  let expectingKey = false;
+  let pendingKey: string | undefined;
+
+  for (let index = 0; index < content.length; index++) {
+    const char = content[index];
+    if (char === '\n') {
+      line++;
+    } else if (char === '"') {
+      // JSON strings cannot span lines, so the string ends on this line
+      let end = index + 1;
+      while (end < content.length && content[end] !== '"') {
+        end += content[end] === '\\' ? 2 : 1;
+      }
+      const text: string = JSON.parse(content.slice(index, end + 1));
+      if (expectingKey) {
+        pendingKey = text;
+        expectingKey = false;
+      } else if (pendingKey !== undefined) {
+        valueLines.set(JSON.stringify([...keys, pendingKey]), line);
+        pendingKey = undefined;
+      }
+      index = end;
+    } else if (char === '{' || char === '[') {
+      if (containers.length > 0) {
+        keys.push(pendingKey ?? '');
+      }
+      containers.push(char === '{' ? 'object' : 'array');
+      expectingKey = char === '{';
+      pendingKey = undefined;
+    } else if (char === '}' || char === ']') {
+      containers.pop();
+      if (containers.length > 0) {
+        keys.pop();
+      }
+      pendingKey = undefined;
+    } else if (char === ',') {
+      expectingKey = containers[containers.length - 1] === 'object';
+      pendingKey = undefined;
+    }
+  }
+  return valueLines;
+}
+
+/**
+ * Lists the lines a unified diff patch adds, the only lines of a file review comments can be
+ * anchored to with certainty.
+ * @param patch The patch of one file, as returned by the GitHub API
+ * @returns The added line numbers in the new version of the file
+ */
+export function parseAddedLines(patch: string): Set<number> {
+  const addedLines: Set<number> = new Set();
+  let line = 0;
+  for (const text of patch.split('\n')) {
+    const hunk = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/.exec(text);
+    if (hunk) {
+      line = Number(hunk[1]);
+    } else if (text.startsWith('+')) {
+      addedLines.add(line++);
+    } else if (text.startsWith(' ')) {
+      line++;
+    }
+  }
+  return addedLines;
+}
+
+/**
+ * Builds a review comment for each new translation whose value is on an added line of the diff.
+ * Translations on lines shared with other content, such as in a catalog without line breaks, are
+ * skipped since a suggestion would replace the whole line.
+ * @param newTranslations The translations written by the run
+ * @param readCatalog Reads the content of a catalog as committed
+ * @param addedLines The added lines of each file in the pull request
+ * @returns The review comments, in the order of the translations
+ */
+export function buildReviewComments(
+  newTranslations: NewTranslation[],
+  readCatalog: (filePath: string) => string,
+  addedLines: Map<string, Set<number>>
+): ReviewComment[] {
+  const catalogs: Map<string, { lines: string[], valueLines: Map<string, number> }> = new Map();
+  const comments: ReviewComment[] = [];
+
+  for (const translation of newTranslations) {
+    const filePath = path.posix.normalize(translation.filePath.split(path.sep).join('/'));
+    const fileAddedLines = addedLines.get(filePath);
+    if (!fileAddedLines) {
+      continue;
+    }
+
+    let catalog = catalogs.get(filePath);
+    if (!catalog) {
+      const content = readCatalog(translation.filePath);
+      catalog = { lines: content.split('\n'), valueLines: findStringValueLines(content) };
+      catalogs.set(filePath, catalog);
+    }
+
+    const keys = ['strings', translation.key, 'localizations', translation.language, ...getStringUnitJsonKeys(translation.unitPath ?? ''), 'value'];
+    const line = catalog.valueLines.get(JSON.stringify(keys));
+    const lineText = line === undefined ? undefined : catalog.lines[line - 1].replace(/\r$/, '');
+    if (line === undefined || !fileAddedLines.has(line) || !/^\s*"value"\s*:\s*".*",?$/.test(lineText!)) {
+      continue;
+    }
+    comments.push({ path: filePath, line, body: formatReviewComment(translation, lineText!) });
+  }
+  return comments;
+}
+
+/**
+ * Formats the review comment for a translation: its source text and comment for context, and the
+ * catalog line as a suggestion that reviewers can edit and commit.
+ * @param translation The new translation
+ * @param lineText The catalog line holding the translation
+ * @returns The Markdown comment body
+ */
+export function formatReviewComment(translation: NewTranslation, lineText: string): string {
+  const key = translation.unitPath ? `${translation.key} [${translation.unitPath}]` : translation.key;
+  let body = `**${translation.language}** translation of \`${key.replace(/`/g, '\'')}\`\n\n`;
+  body += `**Source:**\n${quote(translation.source)}\n\n`;
+  if (translation.comment) {
+    body += `**Comment:**\n${quote(translation.comment)}\n\n`;
+  }
+  body += 'Suggest a better translation by editing the line below, or approve the pull request if it reads well.\n\n';
+  body += `\`\`\`suggestion\n${lineText}\n\`\`\``;
+  return body;
+}
+
+function quote(text: string): string {
+  return text.split('\n').map(line => `> ${line}`).join('\n');
+}
@@ -0,0 +1,260 @@
+import { ChangedSourceStrategy, GlossaryTerm } from '../types';
+import { BatchOptions, DEFAULT_BATCH_OPTIONS } from '../services/localizationManager';
+import { getProviderModel, isProviderName, parseLanguageProviders, parseProviderModels, ProviderConfig, PROVIDER_NAMES, providerUsesModel } from '../services/translationProvider';
+import { DeliveryMode, isDeliveryMode, isPrUpdateMode, PrConfig } from '../services/githubService';
+import { TokenPriceOverrides } from '../services/usageEstimator';
+import { parseCatalogPathInput } from './catalogPaths';
+import { loadGlossary } from './glossary';
+import { LanguageStyles, loadLanguageStyles } from './languageStyles';
+import { RepoConfig } from './repoConfig';
+
+export const DEFAULT_CATALOG_PATH = 'Localizable.xcstrings';
+export const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+
+export const DEFAULT_PR_CONFIG: PrConfig = {
+  branchPrefix: 'ios-vibe-localization-updates/',
+  commitUserName: 'github-actions[bot]',
+  commitUserEmail: 'github-actions[bot]@users.noreply.github.com',
+  commitMessage: 'i18n: Update translations by iOS Vibe Localization Action',
+  prTitle: 'iOS Vibe Localization: Automated Localization Updates',
+  prBody: 'Automated localization updates by the iOS Vibe Localization Action.',
+  updateMode: 'force',
+  reviewComments: false
+};
+
+/** Everything a localization run needs, resolved from action inputs, the config file and defaults. */
+export interface LocalizerSettings {
+  /** Catalog paths and glob patterns; patterns starting with `!` exclude matches. */
+  catalogPatterns: string[];
+  /** Target languages, including pseudo-locales. */
+  targetLanguages: string[];
+  pseudoLocales: string[];
+  providerConfig: ProviderConfig;
+  baseSystemPrompt: string;
+  changedSourceStrategy: ChangedSourceStrategy;
+  batchOptions: BatchOptions;
+  glossary?: GlossaryTerm[];
+  languageStyles?: LanguageStyles;
+  translationMemoryPath?: string;
+  /** Keys translated again even where translations exist. */
+  forceKeys: string[];
+  /** Prices overriding the built-in model prices in dry-run cost estimates. */
+  tokenPrices?: TokenPriceOverrides;
+  /** Whether translations are delivered in a new pull request or committed to the pull request the action runs on. */
+  mode: DeliveryMode;
+  prConfig: PrConfig;
+}
+
+/** Reads an action input by name, returning an empty string when it is not set. */
+export type InputReader = (name: string) => string;
+
+/**
+ * Resolves the run settings. Each setting comes from the first source that sets it: the action
+ * input, then the `VIBE_LOCALIZER_*` environment variable where one exists, then the config file,
+ * then the default. Catalog exclusions from the config file always apply.
+ * @param readInput Reads an action input
+ * @param config The repository config file, empty when there is none
+ * @param env The environment variables
+ * @returns The validated settings
+ */
+export function resolveSettings(readInput: InputReader, config: RepoConfig = {}, env: NodeJS.ProcessEnv = process.env): LocalizerSettings {
+  const catalogInput = readInput('xcstrings_file_path');
+  const catalogPatterns = catalogInput ? parseCatalogPathInput(catalogInput) : [...(config.catalogs ?? [DEFAULT_CATALOG_PATH])];
+  for (const pattern of config.exclude ?? []) {
+    catalogPatterns.push(pattern.startsWith('!') ? pattern : `!${pattern}`);
+  }
+
+  const targetLanguages = readListInput(readInput, 'target_languages') ?? [...(config.targetLanguages ?? [])];
+  const pseudoLocales = readListInput(readInput, 'pseudo_locales') ?? config.pseudoLocales ?? [];
+  for (const pseudoLocale of pseudoLocales) {
+    if (!targetLanguages.includes(pseudoLocale)) {
+      targetLanguages.push(pseudoLocale);
+    }
+  }
+  if (targetLanguages.length === 0) {
+    throw new Error('No target languages or pseudo-locales specified. Set the target_languages input or targetLanguages in the config file.');
+  }
+
+  const providerName = readInput('provider') || env.VIBE_LOCALIZER_PROVIDER || config.provider || 'openai';
+  if (!isProviderName(providerName)) {
+    throw new Error(`Invalid provider '${providerName}'. Expected one of: ${PROVIDER_NAMES.join(', ')}.`);
+  }
+  const modelInput = readInput('model') || (providerName === 'anthropic' ? '' : readInput('openai_model'));
+  const languageProvidersInput = readInput('language_providers');
+  const providerModelsInput = readInput('provider_models');
+  const providerConfig: ProviderConfig = {
+    provider: providerName,
+    model: modelInput || config.model || (providerName === 'anthropic' ? '' : DEFAULT_OPENAI_MODEL),
+    baseUrl: readInput('provider_base_url') || config.providerBaseUrl || undefined,
+    apiVersion: readInput('provider_api_version') || config.providerApiVersion || undefined,
+    deploymentName: readInput('provider_deployment_name') || config.providerDeploymentName || undefined,
+    languageProviders: languageProvidersInput ? parseLanguageProviders(languageProvidersInput) : { ...config.languageProviders },
+    providerModels: providerModelsInput ? parseProviderModels(providerModelsInput) : { ...config.providerModels },
+    mockFixturesPath: readInput('mock_fixtures_path') || env.VIBE_LOCALIZER_MOCK_FIXTURES || config.mockFixturesPath || undefined
+  };
+  // Pseudo-locales are generated locally and never sent to a translation API
+  for (const pseudoLocale of pseudoLocales) {
+    providerConfig.languageProviders![pseudoLocale] = 'pseudo';
+  }
+  if (!providerConfig.model) {
+    throw new Error(`The ${providerName} provider requires the model input or model in the config file (e.g. the Claude model to use).`);
+  }
+  for (const [languageCode, languageProvider] of Object.entries(providerConfig.languageProviders!)) {
+    if (providerUsesModel(languageProvider) && !getProviderModel(languageProvider, providerConfig)) {
+      throw new Error(`The ${languageProvider} provider used for '${languageCode}' cannot use the ${providerName} model '${providerConfig.model}'. Set its model in the provider_models input or providerModels in the config file, e.g. '${languageProvider}:<model>'.`);
+    }
+  }
+
+  const changedSourceStrategy = readInput('changed_source_strategy') || config.changedSourceStrategy || 'retranslate';
+  if (changedSourceStrategy !== 'retranslate' && changedSourceStrategy !== 'needs_review') {
+    throw new Error(`Invalid changed_source_strategy '${changedSourceStrategy}'. Expected 'retranslate' or 'needs_review'.`);
+  }
+
+  const batchOptions: BatchOptions = {
+    maxStringsPerBatch: readIntegerInput(readInput, 'max_strings_per_batch') ?? config.batch?.maxStrings ?? DEFAULT_BATCH_OPTIONS.maxStringsPerBatch,
+    maxTokensPerBatch: readIntegerInput(readInput, 'max_tokens_per_batch') ?? config.batch?.maxTokens ?? DEFAULT_BATCH_OPTIONS.maxTokensPerBatch,
+    maxConcurrentBatches: readIntegerInput(readInput, 'max_concurrent_batches') ?? config.batch?.maxConcurrent ?? DEFAULT_BATCH_OPTIONS.maxConcurrentBatches,
+    batchRetries: readIntegerInput(readInput, 'batch_retries', true) ?? config.batch?.retries ?? DEFAULT_BATCH_OPTIONS.batchRetries,
+    followUpRetries: DEFAULT_BATCH_OPTIONS.followUpRetries
+  };
+
+  const glossarySetting = readInput('glossary_path') || config.glossary;
+  const languageStylesSetting = readInput('language_styles_path') || config.languageStyles;
+
+  const mode = readInput('mode') || config.mode || 'pull-request';
+  if (!isDeliveryMode(mode)) {
+    throw new Error(`Invalid mode '${mode}'. Expected 'pull-request' or 'commit-to-head'.`);
+  }
+
+  const pullRequest = config.pullRequest ?? {};
+  const updateMode = readInput('pr_update_mode') || pullRequest.updateMode || DEFAULT_PR_CONFIG.updateMode;
+  if (!isPrUpdateMode(updateMode)) {
+    throw new Error(`Invalid pr_update_mode '${updateMode}'. Expected 'force' or 'append'.`);
+  }
+
+  return {
+    catalogPatterns,
+    targetLanguages,
+    pseudoLocales,
+    providerConfig,
+    baseSystemPrompt: readInput('base_system_prompt') || config.systemPrompt || '',
+    changedSourceStrategy,
+    batchOptions,
+    glossary: typeof glossarySetting === 'string' ? loadGlossary(glossarySetting) : glossarySetting,
+    languageStyles: typeof languageStylesSetting === 'string' ? loadLanguageStyles(languageStylesSetting) : languageStylesSetting,
+    translationMemoryPath: readInput('translation_memory_path') || config.translationMemory || undefined,
+    forceKeys: parseKeyList(readInput('force_keys')),
+    tokenPrices: readTokenPricesInput(readInput) ?? config.tokenPrices,
+    mode,
+    prConfig: {
+      branchPrefix: readInput('pr_branch_prefix') || pullRequest.branchPrefix || DEFAULT_PR_CONFIG.branchPrefix,
+      commitUserName: readInput('commit_user_name') || pullRequest.commitUserName || DEFAULT_PR_CONFIG.commitUserName,
+      commitUserEmail: readInput('commit_user_email') || pullRequest.commitUserEmail || DEFAULT_PR_CONFIG.commitUserEmail,
+      commitMessage: readInput('commit_message') || pullRequest.commitMessage || DEFAULT_PR_CONFIG.commitMessage,
+      prTitle: readInput('pr_title') || pullRequest.title || DEFAULT_PR_CONFIG.prTitle,
+      prBody: readInput('pr_body') || pullRequest.body || DEFAULT_PR_CONFIG.prBody,
+      updateMode,
+      reviewComments: readBooleanInput(readInput, 'review_comments') ?? pullRequest.reviewComments ?? DEFAULT_PR_CONFIG.reviewComments
+    }
+  };
+}
+
+/**
+ * Applies the inputs of a manually dispatched workflow (`workflow_dispatch`) to the settings:
+ * `languages` narrows the run to some of the target languages, and `force_keys` translates the
+ * given keys again. Inputs the workflow does not declare are ignored.
+ * @param settings The resolved settings
+ * @param inputs The inputs of the dispatch event
+ * @returns The settings for the run
+ */
+export function applyDispatchInputs(settings: LocalizerSettings, inputs: { [name: string]: unknown } = {}): LocalizerSettings {
+  const languagesInput = typeof inputs.languages === 'string' ? inputs.languages : '';
+  const languages = languagesInput.split(',').map(language => language.trim()).filter(language => language);
+  const unknownLanguages = languages.filter(language => !settings.targetLanguages.includes(language));
+  if (unknownLanguages.length > 0) {
+    throw new Error(`Invalid languages '${languagesInput}'. ${unknownLanguages.join(', ')} ${unknownLanguages.length === 1 ? 'is' : 'are'} not among the target languages: ${settings.targetLanguages.join(', ')}.`);
+  }
+
+  const forceKeys = parseKeyList(typeof inputs.force_keys === 'string' ? inputs.force_keys : '');
+  return {
+    ...settings,
+    targetLanguages: languages.length > 0 ? languages : settings.targetLanguages,
+    forceKeys: [...new Set([...settings.forceKeys, ...forceKeys])]
+  };
+}
+
+/**
+ * Parses a list of string keys: one per line, or separated by commas when given on a single line.
+ * Keys that contain commas must therefore be listed one per line.
+ */
+function parseKeyList(value: string): string[] {
+  return value.split(value.includes('\n') ? /\r?\n/ : ',').map(key => key.trim()).filter(key => key);
+}
+
+/**
+ * Reads a comma-separated list input.
+ * @returns The list, or undefined when the input is empty
+ */
+function readListInput(readInput: InputReader, name: string): string[] | undefined {
+  const rawValue = readInput(name);
+  return rawValue ? rawValue.split(',').map(item => item.trim()).filter(item => item) : undefined;
+}
+
+/**
+ * Reads an input that must be "true" or "false".
+ * @returns The parsed value, or undefined when the input is empty
+ */
+function readBooleanInput(readInput: InputReader, name: string): boolean | undefined {
+  const rawValue = readInput(name);
+  if (!rawValue) {
+    return undefined;
+  }
+  if (!/^(true|false)$/i.test(rawValue)) {
+    throw new Error(`Invalid ${name} '${rawValue}'. Expected 'true' or 'false'.`);
+  }
+  return rawValue.toLowerCase() === 'true';
+}
+
+/**
+ * Reads an input that must be a positive integer (or zero when `allowZero` is set).
+ * @returns The parsed number, or undefined when the input is empty
+ */
+function readIntegerInput(readInput: InputReader, name: string, allowZero: boolean = false): number | undefined {
+  const rawValue = readInput(name);
+  if (!rawValue) {
+    return undefined;
+  }
+  const value = Number(rawValue);
+  if (!Number.isInteger(value) || value < (allowZero ? 0 : 1)) {
+    throw new Error(`Invalid ${name} '${rawValue}'. Expected a ${allowZero ? 'non-negative' : 'positive'} integer.`);
+  }
+  return value;
+}
+
+/**
+ * Reads token prices given as semicolon-separated "provider:model=input,output" entries in US
+ * dollars per million tokens, e.g. "openai-compatible:llama3.1=0.20,0.20". The model is matched
+ * as a name prefix.
+ * @returns The prices, or undefined when the input is empty
+ */
+function readTokenPricesInput(readInput: InputReader): TokenPriceOverrides | undefined {
+  const rawValue = readInput('token_prices');
+  if (!rawValue) {
+    return undefined;
+  }
+  const tokenPrices: TokenPriceOverrides = {};
+  for (const entry of rawValue.split(';').map(item => item.trim()).filter(item => item)) {
+    const match = /^([^:=]+):([^=]+)=(.*)$/.exec(entry);
+    const prices = match ? match[3].split(',').map(price => price.trim()) : [];
+    const [input, output] = prices.map(Number);
+    if (!match || prices.length !== 2 || !prices.every(price => price) || !(input >= 0) || !(output >= 0)) {
+      throw new Error(`Invalid token_prices entry '${entry}'. Expected 'provider:model=input,output' in US dollars per million tokens, e.g. 'openai:gpt-4o-mini=0.15,0.60'.`);
+    }
+    const providerName = match[1].trim();
+    if (!isProviderName(providerName) || !providerUsesModel(providerName)) {
+      throw new Error(`Invalid provider '${providerName}' in token_prices. Expected one of: ${PROVIDER_NAMES.filter(providerUsesModel).join(', ')}.`);
+    }
+    tokenPrices[providerName] = { ...tokenPrices[providerName], [match[2].trim()]: { input, output } };
+  }
+  return tokenPrices;
+}
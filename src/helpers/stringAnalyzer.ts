@@ -1,4 +1,13 @@
-import { XCStrings, TranslationRequest } from '../types';
+import { XCStrings, TranslationRequest, ChangedSourceStrategy } from '../types';
+import { getEntrySourceStringUnits, getStringUnitAtPath, hasNestedStringUnits, setStringUnitAtPath, SourceStringUnit } from './localizationTree';
+import { TranslationMemory } from './translationMemory';
+
+export interface StringTranslationInfo {
+  languages: string[];
+  isNew: Map<string, boolean>;
+  /** Languages requested per string unit path ('' for the top-level string unit). */
+  units: Map<string, string[]>;
+}
 
 export interface StringAnalysisResult {
   translationRequests: TranslationRequest[];
@@ -6,35 +15,61 @@ export interface StringAnalysisResult {
     added: string[];
     updated: string[];
     staleRemoved: string[];
+    needsReview: string[];
+    rejected: string[];
+    failed: string[];
+    glossaryViolations: string[];
   };
-  stringTranslationMap: Map<string, { languages: string[], isNew: Map<string, boolean> }>;
+  stringTranslationMap: Map<string, StringTranslationInfo>;
   modifiedXcstringsData: XCStrings;
   xcstringsModified: boolean;
+  /** Number of string units filled from the translation memory instead of being requested. */
+  translationMemoryHits: number;
 }
 
 /**
  * Analyzes XCStrings data to identify strings that need translation and prepares translation requests.
  * This is the core business logic that determines what translations are needed.
  * 
+ * The source text of each string is its source-language value, falling back to the key when the
+ * catalog has no source localization. When the catalog from the base commit is provided, existing
+ * translations whose source text or comment has changed since then are either requested again or
+ * flipped to the `needs_review` state, depending on `changedSourceStrategy`. String units found in
+ * the translation memory are filled in directly and not requested. Strings listed in `forceKeys`
+ * are requested again in every target language, bypassing the translation memory.
+ * 
  * @param xcstringsData The parsed XCStrings data
  * @param targetLanguages Array of target language codes to translate to
+ * @param baseXcstringsData The parsed XCStrings data at the base commit, if available
+ * @param changedSourceStrategy How to handle translations whose source changed since the base commit
+ * @param translationMemory Previously made translations to reuse, if enabled
+ * @param forceKeys Keys to translate again even where translations exist
  * @returns Analysis result containing translation requests and change tracking
  */
 export function analyzeStringsForTranslation(
   xcstringsData: XCStrings,
-  targetLanguages: string[]
+  targetLanguages: string[],
+  baseXcstringsData?: XCStrings,
+  changedSourceStrategy: ChangedSourceStrategy = 'retranslate',
+  translationMemory?: TranslationMemory,
+  forceKeys: string[] = []
 ): StringAnalysisResult {
   // Create a deep copy to avoid modifying the original
   const modifiedXcstringsData = JSON.parse(JSON.stringify(xcstringsData));
   
   const translationRequests: TranslationRequest[] = [];
-  const translationChanges: { added: string[]; updated: string[]; staleRemoved: string[]; } = { 
+  const translationChanges: StringAnalysisResult['translationChanges'] = { 
     added: [], 
     updated: [], 
-    staleRemoved: [] 
+    staleRemoved: [],
+    needsReview: [],
+    rejected: [],
+    failed: [],
+    glossaryViolations: []
   };
-  const stringTranslationMap: Map<string, { languages: string[], isNew: Map<string, boolean> }> = new Map();
+  const stringTranslationMap: Map<string, StringTranslationInfo> = new Map();
   let xcstringsModified = false;
+  let translationMemoryHits = 0;
 
   for (const key in modifiedXcstringsData.strings) {
     const currentStringEntry = modifiedXcstringsData.strings[key];
@@ -59,37 +94,106 @@ export function analyzeStringsForTranslation(
 
     const languagesNeeded: string[] = [];
     const isNewMap: Map<string, boolean> = new Map();
+    const unitLanguages: Map<string, string[]> = new Map();
+    const unitTexts: Map<string, string> = new Map();
+    const sourceLanguage: string = modifiedXcstringsData.sourceLanguage;
+    const usesNestedUnits = hasNestedStringUnits(currentStringEntry.localizations[sourceLanguage]);
+    const baseStringEntry = baseXcstringsData?.strings[key];
+    const commentChanged = !!baseStringEntry && (baseStringEntry.comment ?? '') !== (currentStringEntry.comment ?? '');
+    const forced = forceKeys.includes(key);
 
     // Check each target language to see if translation is needed
     for (const lang of targetLanguages) {
-      const needsTranslationForLang = 
-        !currentStringEntry.localizations[lang] || 
-        !currentStringEntry.localizations[lang]?.stringUnit ||
-        !currentStringEntry.localizations[lang]?.stringUnit.value;
-
-      if (needsTranslationForLang) {
-        const isNewTranslation = !currentStringEntry.localizations[lang];
-        languagesNeeded.push(lang);
-        isNewMap.set(lang, isNewTranslation);
+      const targetLocalization = currentStringEntry.localizations[lang];
+      const sourceUnits = getEntrySourceStringUnits(currentStringEntry, key, sourceLanguage, lang);
+      const baseSourceTexts = baseStringEntry
+        ? new Map(getEntrySourceStringUnits(baseStringEntry, key, baseXcstringsData!.sourceLanguage, lang).map(unit => [unit.path, unit.text]))
+        : undefined;
+
+      const missingUnits: SourceStringUnit[] = [];
+      let markedForReview = false;
+      for (const unit of sourceUnits) {
+        const targetUnit = getStringUnitAtPath(targetLocalization, unit.path);
+        if (!targetUnit?.value || forced) {
+          missingUnits.push(unit);
+          continue;
+        }
+
+        const baseText = baseSourceTexts?.get(unit.path);
+        const sourceChanged = commentChanged || (baseText !== undefined && baseText !== unit.text);
+        if (!sourceChanged) {
+          continue;
+        }
+
+        if (changedSourceStrategy === 'needs_review') {
+          if (targetUnit.state !== 'needs_review') {
+            targetUnit.state = 'needs_review';
+            markedForReview = true;
+          }
+        } else {
+          missingUnits.push(unit);
+        }
+      }
+
+      if (markedForReview) {
+        xcstringsModified = true;
+        translationChanges.needsReview.push(`${key} (${lang})`);
+      }
+
+      if (missingUnits.length > 0) {
+        const isNewTranslation = !targetLocalization;
         
         // Initialize the localization structure if it doesn't exist
-        if (!currentStringEntry.localizations[lang]) {
-          currentStringEntry.localizations[lang] = { 
-            stringUnit: { state: 'translated', value: '' } 
-          };
+        if (!targetLocalization) {
+          currentStringEntry.localizations[lang] = usesNestedUnits
+            ? {}
+            : { stringUnit: { state: 'translated', value: '' } };
+        }
+
+        const requestedUnits: SourceStringUnit[] = [];
+        for (const unit of missingUnits) {
+          const rememberedTranslation = forced ? undefined : translationMemory?.lookup(unit.text, unit.path, currentStringEntry.comment, lang);
+          if (rememberedTranslation === undefined) {
+            requestedUnits.push(unit);
+            continue;
+          }
+          setStringUnitAtPath(currentStringEntry.localizations[lang], unit.path, {
+            state: 'translated',
+            value: rememberedTranslation
+          }, currentStringEntry.localizations[sourceLanguage]);
+          translationMemoryHits++;
+          xcstringsModified = true;
+        }
+
+        if (requestedUnits.length < missingUnits.length) {
+          const changeList = isNewTranslation ? translationChanges.added : translationChanges.updated;
+          changeList.push(`${key} (${lang})`);
+        }
+
+        if (requestedUnits.length > 0) {
+          languagesNeeded.push(lang);
+          isNewMap.set(lang, isNewTranslation);
+
+          for (const unit of requestedUnits) {
+            unitTexts.set(unit.path, unit.text);
+            unitLanguages.set(unit.path, [...(unitLanguages.get(unit.path) ?? []), lang]);
+          }
         }
       }
     }
 
     // If any languages need translation, add to requests
     if (languagesNeeded.length > 0) {
-      translationRequests.push({
-        key: key,
-        text: key,
-        targetLanguages: languagesNeeded,
-        comment: currentStringEntry.comment
-      });
-      stringTranslationMap.set(key, { languages: languagesNeeded, isNew: isNewMap });
+      for (const [unitPath, languages] of unitLanguages) {
+        translationRequests.push({
+          key: key,
+          text: unitTexts.get(unitPath)!,
+          targetLanguages: languages,
+          comment: currentStringEntry.comment,
+          unitPath: unitPath || undefined
+        });
+      }
+      stringTranslationMap.set(key, { languages: languagesNeeded, isNew: isNewMap, units: unitLanguages });
     }
   }
 
@@ -98,6 +202,7 @@ export function analyzeStringsForTranslation(
     translationChanges,
     stringTranslationMap,
     modifiedXcstringsData,
-    xcstringsModified
+    xcstringsModified,
+    translationMemoryHits
   };
-} 
\ No newline at end of file
+}
@@ -0,0 +1,163 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { XCStrings } from '../types';
+import { getEntrySourceStringUnits, getStringUnitAtPath } from './localizationTree';
+
+export interface TranslationMemoryEntry {
+  source: string;
+  /** The string unit path for plural, device and substitution units. */
+  unitPath?: string;
+  comment?: string;
+  translations: { [languageCode: string]: string };
+}
+
+export interface TranslationMemoryFile {
+  version: 1;
+  entries: TranslationMemoryEntry[];
+}
+
+/**
+ * Translations remembered by source text, unit path and comment, so identical strings in any
+ * catalog are translated once and worded consistently. The memory is persisted as a JSON file in
+ * the repository.
+ */
+export class TranslationMemory {
+  private entries: Map<string, TranslationMemoryEntry> = new Map();
+  private changed = false;
+
+  /**
+   * Loads a translation memory file, starting empty when the file does not exist yet.
+   * @param filePath The memory file path
+   * @returns The translation memory
+   */
+  static load(filePath: string): TranslationMemory {
+    const memory = new TranslationMemory();
+    if (!fs.existsSync(filePath)) {
+      return memory;
+    }
+
+    let file: TranslationMemoryFile;
+    try {
+      file = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (e: any) {
+      throw new Error(`Failed to parse translation memory ${filePath}: ${e.message}`);
+    }
+    for (const entry of file.entries ?? []) {
+      memory.entries.set(getMemoryKey(entry.source, entry.unitPath, entry.comment), { ...entry, translations: { ...entry.translations } });
+    }
+    return memory;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /** Whether translations were added or changed since the memory was loaded. */
+  get hasChanges(): boolean {
+    return this.changed;
+  }
+
+  /**
+   * Looks up a remembered translation.
+   * @param source The source text
+   * @param unitPath The string unit path, empty for the top-level string unit
+   * @param comment The string's comment
+   * @param languageCode The target language
+   * @returns The translation, if remembered
+   */
+  lookup(source: string, unitPath: string | undefined, comment: string | undefined, languageCode: string): string | undefined {
+    return this.entries.get(getMemoryKey(source, unitPath, comment))?.translations[languageCode];
+  }
+
+  /**
+   * Remembers a translation, replacing any previous translation for the same source and language.
+   * @param source The source text
+   * @param unitPath The string unit path, empty for the top-level string unit
+   * @param comment The string's comment
+   * @param languageCode The target language
+   * @param translation The translated text
+   */
+  record(source: string, unitPath: string | undefined, comment: string | undefined, languageCode: string, translation: string): void {
+    if (!source || !translation) {
+      return;
+    }
+    const memoryKey = getMemoryKey(source, unitPath, comment);
+    let entry = this.entries.get(memoryKey);
+    if (!entry) {
+      entry = { source, translations: {} };
+      if (unitPath) {
+        entry.unitPath = unitPath;
+      }
+      if (comment) {
+        entry.comment = comment;
+      }
+      this.entries.set(memoryKey, entry);
+    }
+    if (entry.translations[languageCode] !== translation) {
+      entry.translations[languageCode] = translation;
+      this.changed = true;
+    }
+  }
+
+  /**
+   * Remembers the reviewed translations of a catalog. Translations in any state other than
+   * `translated`, and translations whose source text or comment changed since the base commit,
+   * are skipped because they may no longer match their source.
+   * @param xcstringsData The parsed catalog
+   * @param baseXcstringsData The parsed catalog at the base commit, if available
+   * @param excludedLanguages Languages whose translations are not to be remembered
+   */
+  addCatalog(xcstringsData: XCStrings, baseXcstringsData?: XCStrings, excludedLanguages: string[] = []): void {
+    const sourceLanguage = xcstringsData.sourceLanguage;
+    for (const [key, entry] of Object.entries(xcstringsData.strings)) {
+      if (entry.shouldTranslate === false || entry.extractionState === 'stale') {
+        continue;
+      }
+      const baseEntry = baseXcstringsData?.strings[key];
+      if (baseEntry && (baseEntry.comment ?? '') !== (entry.comment ?? '')) {
+        continue;
+      }
+
+      for (const [lang, localization] of Object.entries(entry.localizations ?? {})) {
+        if (lang === sourceLanguage || excludedLanguages.includes(lang)) {
+          continue;
+        }
+        const baseSourceTexts = baseEntry
+          ? new Map(getEntrySourceStringUnits(baseEntry, key, baseXcstringsData!.sourceLanguage, lang).map(unit => [unit.path, unit.text]))
+          : undefined;
+
+        for (const unit of getEntrySourceStringUnits(entry, key, sourceLanguage, lang)) {
+          const targetUnit = getStringUnitAtPath(localization, unit.path);
+          const baseText = baseSourceTexts?.get(unit.path);
+          if (targetUnit?.state !== 'translated' || !targetUnit.value || (baseText !== undefined && baseText !== unit.text)) {
+            continue;
+          }
+          this.record(unit.text, unit.path, entry.comment, lang, targetUnit.value);
+        }
+      }
+    }
+  }
+
+  /**
+   * Writes the memory to disk, sorted by source text for stable diffs.
+   * @param filePath The memory file path
+   */
+  save(filePath: string): void {
+    const file: TranslationMemoryFile = {
+      version: 1,
+      entries: [...this.entries.values()].sort((a, b) =>
+        a.source.localeCompare(b.source) || (a.unitPath ?? '').localeCompare(b.unitPath ?? '') || (a.comment ?? '').localeCompare(b.comment ?? '')
+      ).map(entry => ({
+        ...entry,
+        translations: Object.fromEntries(Object.entries(entry.translations).sort(([a], [b]) => a.localeCompare(b)))
+      }))
+    };
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(file, null, 2) + '\n');
+    this.changed = false;
+  }
+}
+
+function getMemoryKey(source: string, unitPath: string | undefined, comment: string | undefined): string {
+  return JSON.stringify([source, unitPath ?? '', comment ?? '']);
+}
@@ -0,0 +1,164 @@
+import * as log from './logger';
+import { TranslationRequest, BatchTranslationResponse, TranslationUsage } from '../types';
+import { salvageTranslationResults } from './partialJsonParser';
+
+/**
+ * Raised when a provider answered but its response could not be read, e.g. malformed JSON. Unlike
+ * API errors, which providers retry themselves, these are worth sending the batch again for.
+ * The unreadable response was billed all the same, so the error carries its usage.
+ */
+export class TranslationResponseError extends Error {
+  constructor(message: string, readonly usage?: TranslationUsage) {
+    super(message);
+    this.name = 'TranslationResponseError';
+  }
+}
+
+export interface TranslationPrompt {
+  systemPrompts: string[];
+  userPrompt: string;
+}
+
+/**
+ * Builds the JSON schema every LLM provider must follow, matching `BatchTranslationResponse`.
+ * @param targetLanguages All target languages requested in the batch
+ * @returns The JSON schema for the structured output
+ */
+export function buildTranslationSchema(targetLanguages: string[]) {
+  return {
+    type: "object",
+    properties: {
+      translations: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            key: {
+              type: "string",
+              description: "The original key/identifier for the string"
+            },
+            unitPath: {
+              type: "string",
+              description: "The Unit given for the string, or an empty string if none was given"
+            },
+            translations: {
+              type: "object",
+              properties: Object.fromEntries(
+                targetLanguages.map(lang => [
+                  lang,
+                  {
+                    type: "string",
+                    description: `Translation in ${lang}`
+                  }
+                ])
+              ),
+              required: targetLanguages,
+              additionalProperties: false
+            }
+          },
+          required: ["key", "unitPath", "translations"],
+          additionalProperties: false
+        }
+      }
+    },
+    required: ["translations"],
+    additionalProperties: false
+  };
+}
+
+/**
+ * Builds the system and user prompts for a batch of translation requests.
+ * @param requests Array of translation requests containing key, text, and target languages.
+ * @param sourceLanguage The language code of the original text (e.g., "en").
+ * @param targetLanguages All target languages requested in the batch.
+ * @param baseSystemPrompt Additional system prompt for context.
+ * @returns The system prompts, in order, and the user prompt
+ */
+export function buildTranslationPrompt(requests: TranslationRequest[], sourceLanguage: string, targetLanguages: string[], baseSystemPrompt: string = ""): TranslationPrompt {
+  const stringsToTranslate = requests.map(req => {
+    let entry = `Key: "${req.key}"`;
+    if (req.unitPath) {
+      entry += `\nUnit: "${req.unitPath}"`;
+    }
+    entry += `\nText: "${req.text}"`;
+    if (req.comment) {
+      entry += `\nContext: "${req.comment}"`;
+    }
+    const glossaryEntries = (req.glossary ?? []).map(term => {
+      if (term.doNotTranslate) {
+        return `"${term.term}" (do not translate)`;
+      }
+      const translations = Object.entries(term.translations ?? {}).filter(([lang]) => req.targetLanguages.includes(lang));
+      return translations.length > 0
+        ? `"${term.term}" → ${translations.map(([lang, translation]) => `${lang}: "${translation}"`).join(', ')}`
+        : '';
+    }).filter(glossaryEntry => glossaryEntry);
+    if (glossaryEntries.length > 0) {
+      entry += `\nGlossary: ${glossaryEntries.join('; ')}`;
+    }
+    return entry;
+  }).join('\n\n');
+
+  const systemPrompt = `You are a professional translator. Translate the following strings from ${sourceLanguage} to the specified target languages: ${targetLanguages.join(', ')}.
+
+For each string, provide accurate, natural translations that preserve the meaning and context. If a string contains placeholders (like %@, %d, {0}, etc.), keep them exactly as they are in the translation.
+
+Language codes with a region or script (e.g. pt-BR and pt-PT, zh-Hans and zh-Hant) name a specific variant; use that variant's spelling, vocabulary and conventions.
+
+When a Context is provided, use it to inform your translation choices for better accuracy and appropriateness.
+
+When a Glossary is provided, translate each listed term exactly as given for that language (inflecting it only where the grammar requires) and keep terms marked "do not translate" unchanged.
+
+When a Unit is provided, the string is one variation of a pluralized or device-specific string. A unit such as "plural.few" asks for the "few" CLDR plural form in each target language, and "device.ipad" asks for the variant shown on that device. A unit starting with "substitutions.<name>" is the text substituted for the %#@<name>@ token of the string with the same key; keep %#@<name>@ tokens and the %arg specifier exactly as they are. Return the same Unit value with each translation; return an empty Unit when none was given.
+
+Return the translations in the exact JSON structure specified.`;
+
+  const systemPrompts: string[] = [];
+  if (baseSystemPrompt.trim()) {
+    systemPrompts.push(baseSystemPrompt.trim());
+  }
+  systemPrompts.push(systemPrompt);
+
+  return {
+    systemPrompts,
+    userPrompt: `Translate these strings:\n\n${stringsToTranslate}`
+  };
+}
+
+/**
+ * Parses a structured-output response into a batch translation response.
+ * When the response was truncated or is malformed, the complete results it contains are
+ * salvaged and the remaining strings are left for the caller to request again.
+ * @param content The raw JSON content returned by the model
+ * @param truncated Whether the model stopped at its output token limit
+ * @param requestCount Number of strings requested, used for logging
+ * @param providerName Provider name, used for logging
+ * @param usage What the response was billed for
+ * @returns The parsed batch translation response, with its usage
+ * @throws TranslationResponseError When nothing could be salvaged from a malformed response
+ */
+export function parseTranslationResponse(content: string, truncated: boolean, requestCount: number, providerName: string, usage: TranslationUsage): BatchTranslationResponse {
+  let batchResponse: BatchTranslationResponse;
+  if (truncated) {
+    batchResponse = { translations: salvageTranslationResults(content), truncated: true };
+    log.warning(`${providerName} response was truncated at the output token limit. Salvaged ${batchResponse.translations.length} of ${requestCount} strings.`);
+  } else {
+    try {
+      batchResponse = JSON.parse(content);
+    } catch (parseError) {
+      batchResponse = { translations: salvageTranslationResults(content) };
+      if (batchResponse.translations.length === 0) {
+        throw new TranslationResponseError(`Malformed JSON in ${providerName} response: ${parseError instanceof Error ? parseError.message : String(parseError)}`, usage);
+      }
+      log.warning(`${providerName} response contained malformed JSON. Salvaged ${batchResponse.translations.length} of ${requestCount} strings.`);
+    }
+  }
+
+  for (const result of batchResponse.translations) {
+    if (!result.unitPath) {
+      delete result.unitPath;
+    }
+  }
+  batchResponse.usage = usage;
+  return batchResponse;
+}
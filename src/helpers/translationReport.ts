@@ -0,0 +1,148 @@
+import { XCStrings } from '../types';
+import { getEntrySourceStringUnits, getStringUnitAtPath } from './localizationTree';
+
+/** How many strings of a catalog are translated into one language. */
+export interface LanguageCoverage {
+  language: string;
+  /** Strings with every string unit translated. */
+  translated: number;
+  /** Strings with a string unit marked as needs review. */
+  needsReview: number;
+  /** Strings with a string unit left untranslated. */
+  missing: number;
+  /** Strings marked `shouldTranslate: false`, which are never translated. */
+  notTranslatable: number;
+}
+
+/** A translation written to a catalog by a run, with its source for review. */
+export interface NewTranslation {
+  filePath: string;
+  key: string;
+  language: string;
+  /** Location of the string unit, omitted for the top-level string unit. */
+  unitPath?: string;
+  source: string;
+  comment?: string;
+  translation: string;
+}
+
+/**
+ * Counts the translated, needs-review and missing strings of a catalog per target language. A
+ * string counts as missing if any of its string units (e.g. a plural form) has no value, and as
+ * needs review if any of them is marked so. Stale strings are not counted.
+ * @param xcstringsData The parsed XCStrings data
+ * @param targetLanguages Array of target language codes
+ * @returns The coverage of each target language
+ */
+export function computeCoverage(xcstringsData: XCStrings, targetLanguages: string[]): LanguageCoverage[] {
+  return targetLanguages.map(language => {
+    const coverage: LanguageCoverage = { language, translated: 0, needsReview: 0, missing: 0, notTranslatable: 0 };
+    for (const [key, entry] of Object.entries(xcstringsData.strings)) {
+      if (entry.extractionState === 'stale') {
+        continue;
+      }
+      if (entry.shouldTranslate === false) {
+        coverage.notTranslatable++;
+        continue;
+      }
+
+      const localization = entry.localizations?.[language];
+      const units = getEntrySourceStringUnits(entry, key, xcstringsData.sourceLanguage, language)
+        .map(unit => getStringUnitAtPath(localization, unit.path));
+      if (units.some(unit => !unit?.value)) {
+        coverage.missing++;
+      } else if (units.some(unit => unit!.state === 'needs_review')) {
+        coverage.needsReview++;
+      } else {
+        coverage.translated++;
+      }
+    }
+    return coverage;
+  });
+}
+
+/**
+ * Adds up the coverage of several catalogs per language.
+ * @param coverages The coverage of each catalog
+ * @returns The combined coverage, in the order languages first appear
+ */
+export function combineCoverage(coverages: LanguageCoverage[][]): LanguageCoverage[] {
+  const combined: Map<string, LanguageCoverage> = new Map();
+  for (const coverage of coverages.flat()) {
+    const total = combined.get(coverage.language);
+    if (!total) {
+      combined.set(coverage.language, { ...coverage });
+      continue;
+    }
+    total.translated += coverage.translated;
+    total.needsReview += coverage.needsReview;
+    total.missing += coverage.missing;
+    total.notTranslatable += coverage.notTranslatable;
+  }
+  return [...combined.values()];
+}
+
+/**
+ * Formats coverage as a Markdown table with one row per language.
+ * @param coverage The coverage of each language
+ * @returns The Markdown table
+ */
+export function formatCoverageTable(coverage: LanguageCoverage[]): string {
+  let table = '| Language | Translated | Needs review | Missing | Not translatable | Coverage |\n';
+  table += '|----------|------------|--------------|---------|------------------|----------|\n';
+  for (const { language, translated, needsReview, missing, notTranslatable } of coverage) {
+    const translatable = translated + needsReview + missing;
+    const percentage = translatable > 0 ? `${Math.floor(translated / translatable * 100)}%` : '-';
+    table += `| ${language} | ${translated} | ${needsReview} | ${missing} | ${notTranslatable} | ${percentage} |\n`;
+  }
+  return table;
+}
+
+/**
+ * Lists the translations a run wrote to a catalog: translated string units whose value differs
+ * from the catalog before the run.
+ * @param filePath The catalog path
+ * @param before The catalog before the run
+ * @param after The catalog after the run
+ * @param targetLanguages Array of target language codes
+ * @returns The new translations, by string and then by language
+ */
+export function collectNewTranslations(filePath: string, before: XCStrings, after: XCStrings, targetLanguages: string[]): NewTranslation[] {
+  const newTranslations: NewTranslation[] = [];
+  for (const [key, entry] of Object.entries(after.strings)) {
+    for (const language of targetLanguages) {
+      for (const unit of getEntrySourceStringUnits(entry, key, after.sourceLanguage, language)) {
+        const translated = getStringUnitAtPath(entry.localizations?.[language], unit.path);
+        const previous = getStringUnitAtPath(before.strings[key]?.localizations?.[language], unit.path);
+        if (translated?.state !== 'translated' || !translated.value || translated.value === previous?.value) {
+          continue;
+        }
+        newTranslations.push({
+          filePath,
+          key,
+          language,
+          ...(unit.path ? { unitPath: unit.path } : {}),
+          source: unit.text,
+          ...(entry.comment ? { comment: entry.comment } : {}),
+          translation: translated.value
+        });
+      }
+    }
+  }
+  return newTranslations;
+}
+
+/**
+ * Escapes text for a Markdown table cell. Mentions and issue references are broken up with a
+ * zero-width space, so translated strings such as "@team" or "#1" don't notify users or link issues.
+ * @param text The cell text
+ * @returns The text with HTML tags and pipes escaped, line breaks as `<br>` and references neutralized
+ */
+export function escapeTableCell(text: string): string {
+  return text
+    .replace(/</g, '&lt;')
+    .replace(/\|/g, '\\|')
+    .replace(/\r?\n/g, '<br>')
+    .replace(/#(?=\d)/g, '#&#8203;')
+    .replace(/@(?=[A-Za-z0-9])/g, '@&#8203;');
+}
@@ -0,0 +1,153 @@
+import { TranslationRequest, BatchTranslationResponse, TranslationValidationFailure } from '../types';
+
+export const FORMAT_SPECIFIER_PATTERN = /%(?:(%)|#@([A-Za-z0-9_]+)@|(arg)\b|(\d+)\$[-+0#]*(?:\d+|\*)?(?:\.(?:\d+|\*))?((?:hh|h|ll|l|q|L|z|t|j)?[@dDiuUxXoOfFeEgGcCsSpaA])|[-+0#]*(?:\d+|\*)?(?:\.(?:\d+|\*))?((?:hh|h|ll|l|q|L|z|t|j)?[@dDiuUxXoOfFeEgGcCsSpaA]))/g;
+const INFLECTION_PATTERN = /\^\[[^\]]*\]\(([^)]*)\)/g;
+const LINK_PATTERN = /\]\(([^)\s]+)\)/g;
+
+interface FormatSpecifiers {
+  /** Argument specifiers in positional form (e.g. `%2$lld`), sorted by argument index. */
+  arguments: string[];
+  substitutions: string[];
+  argTokens: number;
+}
+
+/**
+ * Extracts printf-style format specifiers (e.g. `%@`, `%lld`, `%1$@`), `%#@name@` substitution
+ * tokens and `%arg` tokens from a string. Non-positional specifiers are numbered in order of
+ * appearance so they can be compared with positional ones.
+ * @param text The string to scan
+ * @returns The normalized format specifiers found in the string
+ */
+export function extractFormatSpecifiers(text: string): FormatSpecifiers {
+  const argumentsByIndex: Array<[number, string]> = [];
+  const substitutions: string[] = [];
+  let argTokens = 0;
+  let nextIndex = 1;
+
+  for (const match of findMatches(text, FORMAT_SPECIFIER_PATTERN)) {
+    const [, escapedPercent, substitution, arg, position, positionalType, sequentialType] = match;
+    if (escapedPercent) {
+      continue;
+    } else if (substitution) {
+      substitutions.push(substitution);
+    } else if (arg) {
+      argTokens++;
+    } else if (position) {
+      argumentsByIndex.push([Number(position), positionalType]);
+    } else {
+      argumentsByIndex.push([nextIndex++, sequentialType]);
+    }
+  }
+
+  return {
+    arguments: argumentsByIndex.sort((a, b) => a[0] - b[0]).map(([index, type]) => `%${index}$${type}`),
+    substitutions: substitutions.sort(),
+    argTokens
+  };
+}
+
+/**
+ * Compares a translation with its source text and reports anything that would break at runtime
+ * or change the rendered formatting: format specifiers (count, type and argument order),
+ * substitution tokens, `^[...](inflect: true)` inflection markup and Markdown links, bold and code spans.
+ * @param sourceText The source-language text
+ * @param translatedText The translated text
+ * @returns Human-readable descriptions of every mismatch, empty when the translation is valid
+ */
+export function validateTranslation(sourceText: string, translatedText: string): string[] {
+  const issues: string[] = [];
+  const source = extractFormatSpecifiers(sourceText);
+  const translation = extractFormatSpecifiers(translatedText);
+
+  if (!sameItems(source.arguments, translation.arguments)) {
+    issues.push(`format specifiers differ (expected ${describeItems(source.arguments)}, got ${describeItems(translation.arguments)})`);
+  }
+  if (!sameItems(source.substitutions, translation.substitutions)) {
+    issues.push(`substitution tokens differ (expected ${describeItems(source.substitutions.map(name => `%#@${name}@`))}, got ${describeItems(translation.substitutions.map(name => `%#@${name}@`))})`);
+  }
+  if (source.argTokens !== translation.argTokens) {
+    issues.push(`expected ${source.argTokens} %arg token(s), got ${translation.argTokens}`);
+  }
+
+  const sourceInflections = matchAll(sourceText, INFLECTION_PATTERN);
+  const translatedInflections = matchAll(translatedText, INFLECTION_PATTERN);
+  if (!sameItems(sourceInflections.sort(), translatedInflections.sort())) {
+    issues.push(`inflection markup differs (expected ${sourceInflections.length} ^[...] span(s), got ${translatedInflections.length})`);
+  }
+
+  const sourceLinks = matchAll(sourceText.replace(INFLECTION_PATTERN, ''), LINK_PATTERN).sort();
+  const translatedLinks = matchAll(translatedText.replace(INFLECTION_PATTERN, ''), LINK_PATTERN).sort();
+  if (!sameItems(sourceLinks, translatedLinks)) {
+    issues.push(`Markdown links differ (expected ${describeItems(sourceLinks)}, got ${describeItems(translatedLinks)})`);
+  }
+  if (countOccurrences(sourceText, '**') !== countOccurrences(translatedText, '**')) {
+    issues.push('Markdown bold markers (**) differ');
+  }
+  if (countOccurrences(sourceText, '`') !== countOccurrences(translatedText, '`')) {
+    issues.push('Markdown code markers (`) differ');
+  }
+
+  return issues;
+}
+
+/**
+ * Validates every translation in a batch response against the source text of its request.
+ * Invalid translations are removed from the returned response and reported as failures.
+ * @param requests The translation requests that produced the response
+ * @param response The batch translation response to validate
+ * @returns The response without invalid translations, and the validation failures
+ */
+export function validateBatchTranslations(
+  requests: TranslationRequest[],
+  response: BatchTranslationResponse
+): { validResponse: BatchTranslationResponse; failures: TranslationValidationFailure[] } {
+  const failures: TranslationValidationFailure[] = [];
+  const validResponse: BatchTranslationResponse = { translations: [] };
+
+  for (const result of response.translations) {
+    const request = requests.find(req => req.key === result.key && (req.unitPath ?? '') === (result.unitPath ?? ''));
+    if (!request) {
+      validResponse.translations.push(result);
+      continue;
+    }
+
+    const validTranslations: { [languageCode: string]: string } = {};
+    for (const [lang, translatedText] of Object.entries(result.translations)) {
+      const issues = request.targetLanguages.includes(lang) ? validateTranslation(request.text, translatedText) : [];
+      if (issues.length > 0) {
+        failures.push({ key: result.key, unitPath: result.unitPath, language: lang, translation: translatedText, issues });
+      } else {
+        validTranslations[lang] = translatedText;
+      }
+    }
+    validResponse.translations.push({ ...result, translations: validTranslations });
+  }
+
+  return { validResponse, failures };
+}
+
+function matchAll(text: string, pattern: RegExp): string[] {
+  return findMatches(text, pattern).map(match => match[1]);
+}
+
+function findMatches(text: string, pattern: RegExp): RegExpExecArray[] {
+  const matches: RegExpExecArray[] = [];
+  const regex = new RegExp(pattern.source, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(text)) !== null) {
+    matches.push(match);
+  }
+  return matches;
+}
+
+function sameItems(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((item, index) => item === b[index]);
+}
+
+function describeItems(items: string[]): string {
+  return items.length > 0 ? items.join(', ') : 'none';
+}
+
+function countOccurrences(text: string, token: string): number {
+  return text.split(token).length - 1;
+}
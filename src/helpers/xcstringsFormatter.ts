@@ -0,0 +1,10 @@
+/**
+ * Formats JSON to match Xcode's xcstrings formatting style with spaces before colons.
+ * @param obj The object to stringify
+ * @returns Formatted JSON string matching Xcode's style
+ */
+export function formatXcstringsJson(obj: any): string {
+  const jsonString = JSON.stringify(obj, null, 2);
+  // Align with Xcode's xcstrings format style
+  return jsonString.replace(/("(?:[^"\\]|\\.)*")\s*:/g, '$1 :');
+}
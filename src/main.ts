@@ -1,175 +1,353 @@
 import * as core from '@actions/core';
 import * as fs from 'fs';
-import { fetchBatchTranslations } from './services/localizationManager';
-import { XCStrings, TranslationRequest } from './types';
-import { createPullRequest, getShaRefs, getFileContentAtCommit, PrConfig } from './services/githubService';
-import { analyzeStringsForTranslation } from './helpers/stringAnalyzer';
+import { XCStrings } from './types';
+import * as github from '@actions/github';
+import { checkoutBranch, commitToHeadBranch, createPullRequest, getCommitToHeadBranch, getReviewCommandPullRequest, getShaRefs, getFileContentAtCommit, isLocalizationCommit, postReviewComments, replyToComment } from './services/githubService';
+import { CatalogSource, LocalizationRunResult, runLocalization, sumTranslationChanges } from './services/localizationRunner';
+import { runReviewCommands } from './services/reviewCommandRunner';
+import { getProviderModel } from './services/translationProvider';
+import { resolveCatalogPaths } from './helpers/catalogPaths';
+import { describeUsageEstimate, generateDryRunReport } from './helpers/dryRunReport';
+import { generateJobSummary } from './helpers/jobSummary';
+import { findConfigFile, loadRepoConfig } from './helpers/repoConfig';
+import { applyDispatchInputs, LocalizerSettings, resolveSettings } from './helpers/settings';
+import { formatReviewCommandReply, parseReviewCommands } from './helpers/reviewCommands';
 
 /**
- * Formats JSON to match Xcode's xcstrings formatting style with spaces before colons.
- * @param obj The object to stringify
- * @returns Formatted JSON string matching Xcode's style
+ * Reads a catalog at the head and base commits.
+ * @param xcstringsFilePath The catalog path
+ * @param baseSha The base commit, used to detect changed source strings
+ * @param headSha The head commit to localize
+ * @returns The parsed catalog at both commits; the base version is missing for new catalogs
  */
-function formatXcstringsJson(obj: any): string {
-  const jsonString = JSON.stringify(obj, null, 2);
-  // Align with Xcode's xcstrings format style
-  return jsonString.replace(/("(?:[^"\\]|\\.)*")\s*:/g, '$1 :');
-}
-
-async function run(): Promise<void> {
+async function loadCatalog(xcstringsFilePath: string, baseSha: string, headSha: string): Promise<CatalogSource> {
+  const currentXcstringsFileContent = await getFileContentAtCommit(headSha, xcstringsFilePath);
+  if (currentXcstringsFileContent === null) {
+    throw new Error(`Could not read ${xcstringsFilePath} at HEAD commit ${headSha}.`);
+  }
+  
+  let currentXcstringsData: XCStrings;
   try {
-    const xcstringsFilePath = core.getInput('xcstrings_file_path', { required: false }) || 'Localizable.xcstrings';
-    const targetLanguagesInput = core.getInput('target_languages', { required: true });
-    const targetLanguages = targetLanguagesInput.split(',').map(lang => lang.trim()).filter(lang => lang);
-    const openaiModel = core.getInput('openai_model', { required: false }) || 'gpt-4o-mini';
-    const baseSystemPrompt = core.getInput('base_system_prompt', { required: false }) || '';
+    currentXcstringsData = JSON.parse(currentXcstringsFileContent);
+  } catch (e: any) {
+    throw new Error(`Failed to parse ${xcstringsFilePath} from HEAD commit ${headSha}: ${e.message}`);
+  }
+  core.info(`Successfully parsed ${xcstringsFilePath} from HEAD. Found ${Object.keys(currentXcstringsData.strings).length} string keys.`);
 
-    core.info(`XCStrings file: ${xcstringsFilePath}`);
-    core.info(`Target languages: ${targetLanguages.join(', ')}`);
-    core.info(`OpenAI model: ${openaiModel}`);
-    if (baseSystemPrompt) {
-      core.info(`Base system prompt: ${baseSystemPrompt}`);
+  let baseXcstringsData: XCStrings | undefined;
+  const baseXcstringsFileContent = await getFileContentAtCommit(baseSha, xcstringsFilePath);
+  if (baseXcstringsFileContent !== null) {
+    try {
+      baseXcstringsData = JSON.parse(baseXcstringsFileContent);
+    } catch (e: any) {
+      core.warning(`Failed to parse ${xcstringsFilePath} from base commit ${baseSha}, source changes will not be detected: ${e.message}`);
     }
+  }
 
-    if (targetLanguages.length === 0) {
-      core.setFailed('No target languages specified.');
-      return;
-    }
+  return { filePath: xcstringsFilePath, currentXcstringsData, baseXcstringsData };
+}
 
-    const { baseSha, headSha } = await getShaRefs();
-    core.info(`Base SHA: ${baseSha}`);
-    core.info(`Head SHA: ${headSha}`);
+/** Where a run delivered its translations. */
+interface Delivery {
+  pullRequest?: { number: number; url: string };
+  /** The branch the translations were pushed to. */
+  branch?: string;
+}
 
-    const currentXcstringsFileContent = await getFileContentAtCommit(headSha, xcstringsFilePath);
-    if (currentXcstringsFileContent === null) {
-      core.setFailed(`Could not read ${xcstringsFilePath} at HEAD commit ${headSha}.`);
-      return;
+/**
+ * Returns the result of a run that localized no catalogs, e.g. one skipped to avoid a loop.
+ * @param changedFiles The files the run changed otherwise, e.g. through review commands
+ */
+function emptyRunResult(changedFiles: string[] = []): LocalizationRunResult {
+  return { catalogChanges: [], changedFiles, totals: sumTranslationChanges([]), newTranslations: [], usage: [] };
+}
+
+/**
+ * Sets the action outputs describing a run, for later workflow steps. Every run sets all outputs,
+ * including runs that stop early, so later steps never read a missing output.
+ * @param result The changes of the run
+ * @param targetLanguages Array of target language codes
+ * @param dryRun Whether the changes were only previewed
+ * @param delivery The pull request and branch the translations were pushed to, if any
+ */
+function setRunOutputs(result: LocalizationRunResult, targetLanguages: string[], dryRun: boolean, delivery: Delivery = {}): void {
+  const { catalogChanges, changedFiles, totals, usage } = result;
+  core.setOutput('pr_url', delivery.pullRequest?.url ?? '');
+  core.setOutput('pr_number', delivery.pullRequest?.number ?? '');
+  core.setOutput('branch', delivery.branch ?? '');
+  core.setOutput('changed_files', changedFiles.join('\n'));
+  core.setOutput('added_count', totals.added);
+  core.setOutput('updated_count', totals.updated);
+  core.setOutput('stale_removed_count', totals.staleRemoved);
+  core.setOutput('needs_review_count', totals.needsReview);
+  core.setOutput('report', JSON.stringify({
+    dryRun,
+    targetLanguages,
+    catalogs: catalogChanges,
+    changedFiles,
+    totals,
+    pullRequest: delivery.pullRequest ?? null,
+    branch: delivery.branch ?? null,
+    usage
+  }));
+  if (dryRun) {
+    const estimatedTokens = usage.reduce((total, estimate) => total + estimate.promptTokens + estimate.completionTokens, 0);
+    const costsKnown = usage.every(estimate => estimate.estimatedCost !== undefined);
+    const estimatedCost = usage.reduce((total, estimate) => total + (estimate.estimatedCost ?? 0), 0);
+    core.setOutput('estimated_tokens', estimatedTokens);
+    core.setOutput('estimated_cost', costsKnown ? estimatedCost.toFixed(4) : '');
+  }
+}
+
+/**
+ * Writes the Markdown summary of a run to the job summary page.
+ * @param result The changes of the run
+ * @param targetLanguages Array of target language codes
+ * @param delivery The pull request and branch the translations were pushed to, if any
+ */
+async function writeJobSummary(result: LocalizationRunResult, targetLanguages: string[], delivery: Delivery): Promise<void> {
+  if (!process.env.GITHUB_STEP_SUMMARY) {
+    return;
+  }
+  let outcome: string;
+  if (delivery.pullRequest && delivery.branch) {
+    outcome = `Translations pushed to \`${delivery.branch}\` in [#${delivery.pullRequest.number}](${delivery.pullRequest.url}).`;
+  } else if (result.changedFiles.length > 0) {
+    outcome = 'The translations could not be pushed; see the log for details.';
+  } else {
+    outcome = 'All strings are up to date; no files were changed.';
+  }
+  await core.summary.addRaw(generateJobSummary(result, targetLanguages, outcome)).write();
+}
+
+/**
+ * Reports a dry run in the log and the job summary.
+ * @param result The previewed changes and usage estimates
+ * @param targetLanguages Array of target language codes
+ */
+async function publishDryRunReport(result: LocalizationRunResult, targetLanguages: string[]): Promise<void> {
+  const { catalogChanges, changedFiles, usage: usageEstimates } = result;
+  for (const estimate of usageEstimates) {
+    core.info(`Estimated usage: ${describeUsageEstimate(estimate)}`);
+  }
+
+  if (process.env.GITHUB_STEP_SUMMARY) {
+    await core.summary.addRaw(generateDryRunReport(catalogChanges, targetLanguages, changedFiles, usageEstimates)).write();
+  }
+}
+
+/**
+ * Handles an `issue_comment` event: applies the `/retranslate` and `/set` commands of the comment
+ * to the catalogs of the pull request, commits the result to its branch and replies with the
+ * outcome of each command. A dry run only lists the commands it would apply.
+ * @param settings The resolved run settings
+ * @param dryRun Whether to list the commands without translating, committing or replying
+ */
+async function handleReviewComment(settings: LocalizerSettings, dryRun: boolean): Promise<void> {
+  const commands = parseReviewCommands(github.context.payload.comment?.body ?? '');
+  if (commands.length === 0) {
+    core.info('The comment contains no review commands.');
+    setRunOutputs(emptyRunResult(), settings.targetLanguages, dryRun);
+    return;
+  }
+  const token = core.getInput('github_token', { required: true });
+  const pullRequest = await getReviewCommandPullRequest(token);
+  if (!pullRequest) {
+    setRunOutputs(emptyRunResult(), settings.targetLanguages, dryRun);
+    return;
+  }
+
+  if (dryRun) {
+    const report = `## 🔍 Review Commands Dry Run\n\nA real run would apply these commands from @${pullRequest.commenter} to \`${pullRequest.headBranch}\` (#${pullRequest.number}), commit the result and reply:\n\n${commands.map(({ line }) => `- \`${line}\``).join('\n')}\n`;
+    core.info(`Dry run: ${commands.length} review command(s) would be applied to ${pullRequest.headBranch}: ${commands.map(({ line }) => line).join('; ')}. Nothing was translated, committed or posted.`);
+    if (process.env.GITHUB_STEP_SUMMARY) {
+      await core.summary.addRaw(report).write();
     }
-    
-    let currentXcstringsData: XCStrings;
+    setRunOutputs(emptyRunResult(), settings.targetLanguages, true);
+    return;
+  }
+
+  core.info(`Applying ${commands.length} review command(s) from @${pullRequest.commenter} to ${pullRequest.headBranch}`);
+  const headSha = await checkoutBranch(pullRequest.headBranch);
+  const catalogs: CatalogSource[] = [];
+  for (const filePath of await resolveCatalogPaths(settings.catalogPatterns)) {
     try {
-      currentXcstringsData = JSON.parse(currentXcstringsFileContent);
+      catalogs.push({ filePath, currentXcstringsData: JSON.parse(fs.readFileSync(filePath, 'utf8')) });
     } catch (e: any) {
-      core.setFailed(`Failed to parse ${xcstringsFilePath} from HEAD commit ${headSha}: ${e.message}`);
-      return;
+      throw new Error(`Failed to parse ${filePath} on ${pullRequest.headBranch}: ${e.message}`);
     }
-    core.info(`Successfully parsed ${xcstringsFilePath} from HEAD. Found ${Object.keys(currentXcstringsData.strings).length} string keys.`);
-
-    // Analyze strings to determine what needs translation
-    const analysisResult = analyzeStringsForTranslation(currentXcstringsData, targetLanguages);
-    const { 
-      translationRequests, 
-      translationChanges,
-      stringTranslationMap, 
-      modifiedXcstringsData: updatedXcstringsData, 
-      xcstringsModified 
-    } = analysisResult;
+  }
 
-    for (const key of translationChanges.staleRemoved) {
-      core.info(`Removed stale string entry: ${key}`);
-    }
+  const { results, changedFiles } = await runReviewCommands(commands, catalogs, settings);
+  let outcome: string;
+  let pushed = false;
+  if (changedFiles.length === 0) {
+    outcome = 'Nothing was changed.';
+  } else {
+    const prConfig = { ...settings.prConfig, commitMessage: `${settings.prConfig.commitMessage} (review by @${pullRequest.commenter})` };
+    pushed = await commitToHeadBranch(changedFiles, pullRequest.headBranch, headSha, prConfig);
+    outcome = pushed
+      ? `Pushed the changes to \`${pullRequest.headBranch}\`.`
+      : `The changes were not pushed because \`${pullRequest.headBranch}\` changed in the meantime or already contains them. Post the commands again to retry.`;
+  }
+  await replyToComment(token, pullRequest.number, formatReviewCommandReply(results, outcome));
 
-    if (translationRequests.length > 0) {
-      core.info(`Found ${translationRequests.length} strings requiring translation. Processing in batch...`);
+  setRunOutputs(emptyRunResult(pushed ? changedFiles : []), settings.targetLanguages, false, {
+    pullRequest: { number: pullRequest.number, url: pullRequest.url },
+    branch: pushed ? pullRequest.headBranch : undefined
+  });
+  if (results.some(result => !result.succeeded)) {
+    core.warning(`${results.filter(result => !result.succeeded).length} of ${results.length} review command(s) failed; see the reply on #${pullRequest.number}.`);
+  }
+}
 
-      const batchResponse = await fetchBatchTranslations(translationRequests, updatedXcstringsData.sourceLanguage, openaiModel, baseSystemPrompt);
+/**
+ * Runs the action: localizes the catalogs for the triggering event and delivers the translations,
+ * or applies the review commands of a pull request comment.
+ */
+export async function run(): Promise<void> {
+  try {
+    const configPath = findConfigFile(core.getInput('config_path', { required: false }) || undefined);
+    if (configPath) {
+      core.info(`Using config file ${configPath}`);
+    }
+    let settings = resolveSettings(name => core.getInput(name, { required: false }), configPath ? loadRepoConfig(configPath) : {});
+    if (github.context.eventName === 'workflow_dispatch') {
+      settings = applyDispatchInputs(settings, github.context.payload.inputs);
+    }
+    const { targetLanguages, providerConfig, baseSystemPrompt, glossary, languageStyles } = settings;
+    let dryRun = core.getInput('dry_run', { required: false }).toLowerCase() === 'true';
+    if (github.context.eventName === 'merge_group' && !dryRun) {
+      // The queue branch holds commits that are not merged yet; the push of the merged commit localizes them
+      core.info('Merge queue runs only report the changes the queued commits need, like a dry run. The push of the merged commit localizes them.');
+      dryRun = true;
+    }
 
-      for (const translationResult of batchResponse.translations) {
-        const key = translationResult.key;
-        const stringEntry = updatedXcstringsData.strings[key];
-        const translationInfo = stringTranslationMap.get(key);
-        
-        if (!stringEntry || !translationInfo) {
-          core.warning(`Received translation for unknown key: ${key}`);
-          continue;
-        }
+    if (github.context.eventName === 'issue_comment') {
+      await handleReviewComment(settings, dryRun);
+      return;
+    }
 
-        for (const [lang, translatedValue] of Object.entries(translationResult.translations)) {
-          if (translationInfo.languages.includes(lang)) {
-            stringEntry.localizations![lang]!.stringUnit = {
-              state: "translated",
-              value: translatedValue
-            };
-            
-            const changeKey = `${key} (${lang})`;
-            if (translationInfo.isNew.get(lang)) {
-              translationChanges.added.push(changeKey);
-            } else {
-              translationChanges.updated.push(changeKey);
-            }
-          }
-        }
-      }
+    const xcstringsFilePaths = await resolveCatalogPaths(settings.catalogPatterns);
+    if (xcstringsFilePaths.length === 0) {
+      core.setFailed(`No string catalogs match ${settings.catalogPatterns.join(', ')}.`);
+      setRunOutputs(emptyRunResult(), targetLanguages, dryRun);
+      return;
     }
 
-    if (translationChanges.added.length > 0) {
-      core.info(`Added translations for ${translationChanges.added.length} strings: ${translationChanges.added.join(', ')}`);
+    core.info(`XCStrings files: ${xcstringsFilePaths.join(', ')}`);
+    core.info(`Target languages: ${targetLanguages.join(', ')}`);
+    core.info(`Translation provider: ${providerConfig.provider} (model: ${providerConfig.model})`);
+    if (Object.keys(providerConfig.languageProviders!).length > 0) {
+      core.info(`Language providers: ${Object.entries(providerConfig.languageProviders!).map(([lang, provider]) => {
+        const model = provider === providerConfig.provider ? undefined : getProviderModel(provider, providerConfig);
+        return model ? `${lang}:${provider} (model: ${model})` : `${lang}:${provider}`;
+      }).join(', ')}`);
     }
-    if (translationChanges.updated.length > 0) {
-      core.info(`Updated translations for ${translationChanges.updated.length} strings: ${translationChanges.updated.join(', ')}`);
+    if (baseSystemPrompt) {
+      core.info(`Base system prompt: ${baseSystemPrompt}`);
     }
-    if (translationChanges.staleRemoved.length > 0) {
-      core.info(`Removed stale extraction state from ${translationChanges.staleRemoved.length} strings: ${translationChanges.staleRemoved.join(', ')}`);
+    if (glossary) {
+      core.info(`Glossary: ${glossary.length} terms.`);
     }
-    if (translationChanges.added.length === 0 && translationChanges.updated.length === 0 && translationChanges.staleRemoved.length === 0) {
-      core.info('No new strings requiring translation found in ' + xcstringsFilePath);
+    if (languageStyles) {
+      core.info(`Language styles: ${Object.keys(languageStyles).join(', ')}`);
     }
-    
-    const changedFilesList: string[] = [];
-
-    if (xcstringsModified || translationChanges.added.length > 0 || translationChanges.updated.length > 0) {
-      try {
-        fs.writeFileSync(xcstringsFilePath, formatXcstringsJson(updatedXcstringsData));
-        core.info(`Changes written to ${xcstringsFilePath}`);
-        changedFilesList.push(xcstringsFilePath);
-      } catch (e:any) {
-        core.setFailed(`Error writing updated ${xcstringsFilePath}: ${e.message}`);
-        return;
-      }
-    } else {
-      core.info(`No changes needed for ${xcstringsFilePath}`);
+    if (settings.forceKeys.length > 0) {
+      core.info(`Translating again: ${settings.forceKeys.join(', ')}`);
+    }
+
+    const { baseSha, headSha } = await getShaRefs();
+    core.info(`Base SHA: ${baseSha}`);
+    core.info(`Head SHA: ${headSha}`);
+
+    const headBranch = settings.mode === 'commit-to-head' ? getCommitToHeadBranch() : undefined;
+    if (headBranch && await isLocalizationCommit(headSha)) {
+      core.info(`Head commit ${headSha} was pushed by this action. Skipping localization to avoid a loop.`);
+      setRunOutputs(emptyRunResult(), targetLanguages, dryRun);
+      return;
+    }
+
+    const catalogs: CatalogSource[] = [];
+    for (const xcstringsFilePath of xcstringsFilePaths) {
+      catalogs.push(await loadCatalog(xcstringsFilePath, baseSha, headSha));
     }
 
+    const runResult = await runLocalization(catalogs, settings, { dryRun });
+    if (dryRun) {
+      setRunOutputs(runResult, targetLanguages, true);
+      await publishDryRunReport(runResult, targetLanguages);
+      core.info(`Dry run completed: ${runResult.changedFiles.length} file(s) would change. No pull request was created.`);
+      return;
+    }
+    const { catalogChanges, changedFiles: changedFilesList, totals } = runResult;
+
+    const delivery: Delivery = {};
     if (changedFilesList.length > 0) {
-      const totalChanges = translationChanges.added.length + translationChanges.updated.length + translationChanges.staleRemoved.length;
-      const changedKeys = [...translationChanges.added, ...translationChanges.updated, ...translationChanges.staleRemoved];
-      core.info(`Localization file ${xcstringsFilePath} was updated with ${totalChanges} changes. String keys: [${changedKeys.join(', ')}]. Added: ${translationChanges.added.length}, Updated: ${translationChanges.updated.length}, Stale removed: ${translationChanges.staleRemoved.length}. Proceeding to create a PR.`);
+      const totalChanges = totals.added + totals.updated + totals.staleRemoved + totals.needsReview;
+      const nextStep = headBranch ? `committing to ${headBranch}` : 'to create a PR';
+      core.info(`${changedFilesList.length} localization file(s) updated with ${totalChanges} changes: ${changedFilesList.join(', ')}. Added: ${totals.added}, Updated: ${totals.updated}, Stale removed: ${totals.staleRemoved}, Needs review: ${totals.needsReview}. Proceeding ${nextStep}.`);
 
       const token = core.getInput('github_token', { required: true });
-      const prConfig: PrConfig = {
-        branchPrefix: core.getInput('pr_branch_prefix', { required: false }) || 'localization/',
-        commitUserName: core.getInput('commit_user_name', { required: false }) || 'github-actions[bot]',
-        commitUserEmail: core.getInput('commit_user_email', { required: false }) || 'github-actions[bot]@users.noreply.github.com',
-        commitMessage: core.getInput('commit_message', { required: false }) || 'i18n: Update translations',
-        prTitle: core.getInput('pr_title', { required: false }) || 'New Translations Added',
-        prBody: core.getInput('pr_body', { required: false }) || 'Automated PR with new translations.'
-      };
-      
-      await createPullRequest(xcstringsFilePath, changedFilesList, token, prConfig, translationChanges, targetLanguages);
+      let pushed = false;
+      if (headBranch) {
+        pushed = await commitToHeadBranch(changedFilesList, headBranch, headSha, settings.prConfig);
+        if (pushed) {
+          const pullRequest = github.context.payload.pull_request!;
+          delivery.pullRequest = { number: pullRequest.number, url: pullRequest.html_url ?? '' };
+          delivery.branch = headBranch;
+        }
+      } else {
+        const pullRequest = await createPullRequest(changedFilesList, token, settings.prConfig, catalogChanges, targetLanguages, runResult.newTranslations);
+        if (pullRequest) {
+          delivery.pullRequest = { number: pullRequest.number, url: pullRequest.url };
+          delivery.branch = pullRequest.branch;
+          pushed = pullRequest.pushed;
+        }
+      }
+
+      // Comments are anchored to the pushed commit; without one, earlier runs already commented
+      if (settings.prConfig.reviewComments && delivery.pullRequest && pushed && runResult.newTranslations.length > 0) {
+        await postReviewComments(token, delivery.pullRequest.number, runResult.newTranslations);
+      }
 
     } else {
       core.info('No localization files were changed. Skipping PR creation.');
     }
+    setRunOutputs(runResult, targetLanguages, false, delivery);
+    await writeJobSummary(runResult, targetLanguages, delivery);
 
     core.info('');
     core.info('=== Action Summary ===');
-    core.info(`Files processed: ${xcstringsFilePath}`);
+    core.info(`Files processed: ${xcstringsFilePaths.join(', ')}`);
     core.info(`Target languages: ${targetLanguages.join(', ')}`);
-    core.info(`OpenAI model used: ${openaiModel}`);
+    core.info(`Translation provider used: ${providerConfig.provider} (model: ${providerConfig.model})`);
     if (baseSystemPrompt) {
       core.info(`Base system prompt: ${baseSystemPrompt}`);
     }
     
-    if (translationChanges.added.length > 0 || translationChanges.updated.length > 0 || translationChanges.staleRemoved.length > 0) {
+    if (totals.added > 0 || totals.updated > 0 || totals.staleRemoved > 0 || totals.needsReview > 0) {
       core.info(`Translation changes:`);
-      if (translationChanges.added.length > 0) {
-        core.info(`  - Added: ${translationChanges.added.length} translations`);
+      if (totals.added > 0) {
+        core.info(`  - Added: ${totals.added} translations`);
       }
-      if (translationChanges.updated.length > 0) {
-        core.info(`  - Updated: ${translationChanges.updated.length} translations`);
+      if (totals.updated > 0) {
+        core.info(`  - Updated: ${totals.updated} translations`);
       }
-      if (translationChanges.staleRemoved.length > 0) {
-        core.info(`  - Removed stale extraction state from: ${translationChanges.staleRemoved.length} strings`);
+      if (totals.staleRemoved > 0) {
+        core.info(`  - Removed stale extraction state from: ${totals.staleRemoved} strings`);
+      }
+      if (totals.needsReview > 0) {
+        core.info(`  - Marked as needs review: ${totals.needsReview} translations`);
+      }
+      if (totals.rejected > 0) {
+        core.info(`  - Rejected by placeholder validation: ${totals.rejected} translations`);
+      }
+      if (totals.failed > 0) {
+        core.info(`  - Failed to translate: ${totals.failed} translations`);
+      }
+      if (totals.glossaryViolations > 0) {
+        core.info(`  - Not following the glossary: ${totals.glossaryViolations} translations`);
       }
     } else {
       core.info(`Translation changes: None`);
@@ -177,7 +355,11 @@ async function run(): Promise<void> {
     
     if (changedFilesList.length > 0) {
       core.info(`Files modified: ${changedFilesList.join(', ')}`);
-      core.info(`Pull request: Created for localization updates`);
+      if (headBranch) {
+        core.info(`Head branch: ${delivery.branch ? `Committed to ${headBranch}` : 'Not committed'}`);
+      } else {
+        core.info(`Pull request: ${delivery.pullRequest ? delivery.pullRequest.url : 'Not created'}`);
+      }
     } else {
       core.info(`Files modified: None`);
       core.info(`Pull request: Not created (no changes)`);
@@ -195,4 +377,6 @@ async function run(): Promise<void> {
   }
 }
 
-run();
\ No newline at end of file
+if (require.main === module) {
+  run();
+}
\ No newline at end of file
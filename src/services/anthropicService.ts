@@ -0,0 +1,77 @@
+import * as log from '../helpers/logger';
+import Anthropic from '@anthropic-ai/sdk';
+import { TranslationRequest, BatchTranslationResponse } from '../types';
+import { buildTranslationPrompt, buildTranslationSchema, parseTranslationResponse, TranslationResponseError } from '../helpers/translationPrompt';
+import { TranslationProvider } from './translationProvider';
+
+const TRANSLATION_TOOL_NAME = 'batch_translation';
+const MAX_OUTPUT_TOKENS = 8192;
+
+export interface AnthropicServiceOptions {
+  baseUrl?: string;
+  maxRetries?: number;
+}
+
+export class AnthropicService implements TranslationProvider {
+  readonly name = 'Anthropic';
+  private model: string;
+  private client: Anthropic;
+
+  constructor(model: string, options: AnthropicServiceOptions = {}) {
+    const apiKey = process.env.ANTHROPIC_API_KEY;
+    if (!apiKey) {
+      throw new Error('Anthropic client is not initialized. Please ensure ANTHROPIC_API_KEY environment variable is set with a valid API key.');
+    }
+    this.model = model;
+    // The SDK retries rate limits and server errors with backoff and honors Retry-After
+    this.client = new Anthropic({ apiKey, baseURL: options.baseUrl, maxRetries: options.maxRetries ?? 4 });
+  }
+
+  /**
+   * Translates multiple strings to multiple target languages in a single API call, using a forced
+   * tool call whose input schema matches `BatchTranslationResponse`.
+   * @param requests Array of translation requests containing key, text, and target languages.
+   * @param sourceLanguage The language code of the original text (e.g., "en").
+   * @param baseSystemPrompt Additional system prompt for context.
+   * @returns A promise that resolves to the batch translation response.
+   */
+  async getBatchTranslations(requests: TranslationRequest[], sourceLanguage: string = "en", baseSystemPrompt: string = ""): Promise<BatchTranslationResponse> {
+    if (requests.length === 0) {
+      return { translations: [] };
+    }
+
+    const allTargetLanguages = [...new Set(requests.flatMap(req => req.targetLanguages))];
+    log.info(`Requesting batch translation from ${this.name} for ${requests.length} strings from ${sourceLanguage} to languages: ${allTargetLanguages.join(', ')}`);
+
+    const { systemPrompts, userPrompt } = buildTranslationPrompt(requests, sourceLanguage, allTargetLanguages, baseSystemPrompt);
+
+    try {
+      const message = await this.client.messages.create({
+        model: this.model,
+        max_tokens: MAX_OUTPUT_TOKENS,
+        system: systemPrompts.join('\n\n'),
+        messages: [{ role: 'user', content: userPrompt }],
+        tools: [{
+          name: TRANSLATION_TOOL_NAME,
+          description: 'Returns the translations for every requested string.',
+          input_schema: buildTranslationSchema(allTargetLanguages) as Anthropic.Tool.InputSchema
+        }],
+        tool_choice: { type: 'tool', name: TRANSLATION_TOOL_NAME }
+      });
+
+      const usage = { requests: 1, promptTokens: message.usage.input_tokens, completionTokens: message.usage.output_tokens, characters: 0 };
+      const toolUse = message.content.find((block): block is Anthropic.ToolUseBlock => block.type === 'tool_use');
+      if (!toolUse) {
+        throw new TranslationResponseError(`No ${TRANSLATION_TOOL_NAME} tool call in ${this.name} response`, usage);
+      }
+
+      const batchResponse = parseTranslationResponse(JSON.stringify(toolUse.input), message.stop_reason === 'max_tokens', requests.length, this.name, usage);
+      log.info(`Received batch translations for ${batchResponse.translations.length} strings`);
+      return batchResponse;
+
+    } catch (error) {
+      log.error(`Error in batch translation: ${error instanceof Error ? error.message : String(error)}`);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,229 @@
+import * as log from '../helpers/logger';
+import { XCStrings, ChangedSourceStrategy, GlossaryTerm, Localization, TranslationRequest } from '../types';
+import { analyzeStringsForTranslation, StringAnalysisResult } from '../helpers/stringAnalyzer';
+import { hasIncompletePlurals, hasStringUnitValues, setStringUnitAtPath } from '../helpers/localizationTree';
+import { TranslationMemory } from '../helpers/translationMemory';
+import { applyGlossary, checkGlossary } from '../helpers/glossary';
+import { LanguageStyles } from '../helpers/languageStyles';
+import { fetchValidatedTranslations, BatchOptions, ProviderUsage } from './localizationManager';
+import { getProviderForLanguage, isPlaceholderProvider, ProviderConfig } from './translationProvider';
+
+export interface LocalizeCatalogOptions {
+  targetLanguages: string[];
+  providerConfig: ProviderConfig;
+  baseSystemPrompt: string;
+  batchOptions: BatchOptions;
+  changedSourceStrategy: ChangedSourceStrategy;
+  /** The catalog at the base commit, used to detect changed source strings. */
+  baseXcstringsData?: XCStrings;
+  /** Reused before requesting translations and updated with every translation written, except those of the mock and pseudo providers. */
+  translationMemory?: TranslationMemory;
+  /** Terms sent with the strings that contain them; translations not following them are reported. */
+  glossary?: GlossaryTerm[];
+  /** Style instructions per target language. */
+  languageStyles?: LanguageStyles;
+  /** Keys to translate again even where translations exist. */
+  forceKeys?: string[];
+}
+
+export interface LocalizeCatalogResult {
+  updatedXcstringsData: XCStrings;
+  translationChanges: StringAnalysisResult['translationChanges'];
+  xcstringsModified: boolean;
+  /** What the providers billed for the translations; empty when nothing was requested. */
+  providerUsage: ProviderUsage[];
+}
+
+export interface CatalogPreviewResult extends LocalizeCatalogResult {
+  /** The translations that would be requested, with glossary terms attached. */
+  translationRequests: TranslationRequest[];
+}
+
+/**
+ * Analyzes a String Catalog like `localizeCatalog` without requesting any translations. Strings
+ * that would be translated are listed as added or updated; stale removals, review flags and
+ * translation memory hits are applied to the returned catalog as they would be in a real run.
+ * @param xcstringsData The parsed XCStrings data to analyze
+ * @param options Target languages and analysis settings; provider and batching settings are unused
+ * @returns The analyzed catalog, the changes a real run would make and the pending requests
+ */
+export function previewCatalog(xcstringsData: XCStrings, options: LocalizeCatalogOptions): CatalogPreviewResult {
+  const {
+    translationRequests,
+    translationChanges,
+    stringTranslationMap,
+    modifiedXcstringsData: updatedXcstringsData,
+    xcstringsModified
+  } = analyzeStringsForTranslation(xcstringsData, options.targetLanguages, options.baseXcstringsData, options.changedSourceStrategy, options.translationMemory, options.forceKeys);
+
+  for (const request of translationRequests) {
+    const isNew = stringTranslationMap.get(request.key)?.isNew;
+    for (const lang of request.targetLanguages) {
+      const changeKey = `${request.key} (${lang})`;
+      const changeList = isNew?.get(lang) ? translationChanges.added : translationChanges.updated;
+      if (!changeList.includes(changeKey)) {
+        changeList.push(changeKey);
+      }
+    }
+  }
+
+  return {
+    updatedXcstringsData,
+    translationChanges,
+    xcstringsModified,
+    providerUsage: [],
+    translationRequests: options.glossary ? applyGlossary(translationRequests, options.glossary) : translationRequests
+  };
+}
+
+/**
+ * Runs the localization pipeline for one String Catalog: analyzes which strings need translation,
+ * fetches and validates translations from the configured providers, and writes them back.
+ * Translations that failed, were rejected by validation or do not follow the glossary are recorded
+ * in the returned changes. A plural string whose `other` form could not be translated is left as it
+ * was, since Xcode rejects plurals without it, and is reported as failed. A new language that got
+ * no translation at all, because its batch failed or validation rejected it, stays missing rather
+ * than shipping blank text.
+ * @param xcstringsData The parsed XCStrings data to localize
+ * @param options Target languages, provider and batching settings
+ * @returns The updated catalog and the changes made to it
+ */
+export async function localizeCatalog(xcstringsData: XCStrings, options: LocalizeCatalogOptions): Promise<LocalizeCatalogResult> {
+  // Analyze strings to determine what needs translation
+  const analysisResult = analyzeStringsForTranslation(xcstringsData, options.targetLanguages, options.baseXcstringsData, options.changedSourceStrategy, options.translationMemory, options.forceKeys);
+  const { 
+    translationRequests, 
+    translationChanges,
+    stringTranslationMap, 
+    modifiedXcstringsData: updatedXcstringsData, 
+    xcstringsModified,
+    translationMemoryHits
+  } = analysisResult;
+
+  if (translationMemoryHits > 0) {
+    log.info(`Reused ${translationMemoryHits} translations from the translation memory.`);
+  }
+
+  for (const key of translationChanges.staleRemoved) {
+    log.info(`Removed stale string entry: ${key}`);
+  }
+
+  let providerUsage: ProviderUsage[] = [];
+  if (translationRequests.length > 0) {
+    log.info(`Found ${translationRequests.length} strings requiring translation. Processing in batch...`);
+
+    const requests = options.glossary ? applyGlossary(translationRequests, options.glossary) : translationRequests;
+    const requestsByUnit = new Map(requests.map(request => [`${request.key}#${request.unitPath ?? ''}`, request]));
+    const batchResponse = await fetchValidatedTranslations(requests, updatedXcstringsData.sourceLanguage, options.providerConfig, options.baseSystemPrompt, options.batchOptions, options.languageStyles);
+    providerUsage = batchResponse.providerUsage;
+
+    for (const failedRequest of batchResponse.failedRequests) {
+      for (const lang of failedRequest.targetLanguages) {
+        const failedChange = `${failedRequest.key} (${lang})`;
+        if (!translationChanges.failed.includes(failedChange)) {
+          translationChanges.failed.push(failedChange);
+        }
+      }
+    }
+    if (translationChanges.failed.length > 0) {
+      log.warning(`Translation failed for ${translationChanges.failed.length} strings and will be retried on the next run: ${translationChanges.failed.join(', ')}`);
+    }
+
+    for (const failure of batchResponse.validationFailures) {
+      const unitDescription = failure.unitPath ? ` [${failure.unitPath}]` : '';
+      const rejectedChange = `${failure.key}${unitDescription} (${failure.language}): ${failure.issues.join('; ')}`;
+      log.warning(`Rejected translation "${failure.translation}" for ${rejectedChange}`);
+      translationChanges.rejected.push(rejectedChange);
+    }
+
+    // Localizations as they were before this run wrote to them, keyed by string key and language
+    const originalLocalizations: Map<string, { key: string, lang: string, localization: Localization }> = new Map();
+    for (const translationResult of batchResponse.translations) {
+      const key = translationResult.key;
+      const stringEntry = updatedXcstringsData.strings[key];
+      const translationInfo = stringTranslationMap.get(key);
+      
+      if (!stringEntry || !translationInfo) {
+        log.warning(`Received translation for unknown key: ${key}`);
+        continue;
+      }
+
+      const unitPath = translationResult.unitPath ?? '';
+      const unitLanguages = translationInfo.units.get(unitPath);
+      if (!unitLanguages) {
+        log.warning(`Received translation for unknown string unit: ${key} (${unitPath})`);
+        continue;
+      }
+
+      for (const [lang, translatedValue] of Object.entries(translationResult.translations)) {
+        if (unitLanguages.includes(lang)) {
+          const localizationId = `${key}\u0000${lang}`;
+          if (!originalLocalizations.has(localizationId)) {
+            originalLocalizations.set(localizationId, { key, lang, localization: JSON.parse(JSON.stringify(stringEntry.localizations![lang])) });
+          }
+          setStringUnitAtPath(stringEntry.localizations![lang]!, unitPath, {
+            state: "translated",
+            value: translatedValue
+          }, stringEntry.localizations![updatedXcstringsData.sourceLanguage]);
+          const request = requestsByUnit.get(`${key}#${unitPath}`);
+
+          // Mock and pseudo translations alter every term by design
+          const placeholder = isPlaceholderProvider(getProviderForLanguage(lang, options.providerConfig));
+          const glossaryIssues = request?.glossary && !placeholder
+            ? checkGlossary(translatedValue, lang, request.glossary)
+            : [];
+          if (glossaryIssues.length > 0) {
+            const unitDescription = unitPath ? ` [${unitPath}]` : '';
+            const violation = `${key}${unitDescription} (${lang}): ${glossaryIssues.join('; ')}`;
+            log.warning(`Translation "${translatedValue}" does not follow the glossary for ${violation}`);
+            translationChanges.glossaryViolations.push(violation);
+          } else if (request && !placeholder) {
+            // Mock and pseudo output would otherwise be reused by later runs with a real provider
+            options.translationMemory?.record(request.text, unitPath, request.comment, lang, translatedValue);
+          }
+          
+          const changeKey = `${key} (${lang})`;
+          const changeList = translationInfo.isNew.get(lang) ? translationChanges.added : translationChanges.updated;
+          if (!changeList.includes(changeKey)) {
+            changeList.push(changeKey);
+          }
+        }
+      }
+    }
+
+    for (const { key, lang, localization } of originalLocalizations.values()) {
+      const stringEntry = updatedXcstringsData.strings[key];
+      if (!hasIncompletePlurals(stringEntry.localizations![lang])) {
+        continue;
+      }
+      if (Object.keys(localization).length > 0) {
+        stringEntry.localizations![lang] = localization;
+      } else {
+        delete stringEntry.localizations![lang];
+      }
+      const changeKey = `${key} (${lang})`;
+      translationChanges.added = translationChanges.added.filter(change => change !== changeKey);
+      translationChanges.updated = translationChanges.updated.filter(change => change !== changeKey);
+      if (!translationChanges.failed.includes(changeKey)) {
+        translationChanges.failed.push(changeKey);
+      }
+      log.warning(`Not writing the translations of ${changeKey}: its plural has no translated "other" form.`);
+    }
+
+    // The analysis adds an empty localization for every new language; drop those that failed or were rejected
+    for (const [key, translationInfo] of stringTranslationMap) {
+      const stringEntry = updatedXcstringsData.strings[key];
+      for (const lang of translationInfo.languages) {
+        const localization = stringEntry.localizations![lang];
+        if (translationInfo.isNew.get(lang) && localization && !hasStringUnitValues(localization)) {
+          delete stringEntry.localizations![lang];
+        }
+      }
+      if (!xcstringsData.strings[key].localizations && Object.keys(stringEntry.localizations!).length === 0) {
+        delete stringEntry.localizations;
+      }
+    }
+  }
+
+  return { updatedXcstringsData, translationChanges, xcstringsModified, providerUsage };
+}
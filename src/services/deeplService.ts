@@ -0,0 +1,138 @@
+import * as log from '../helpers/logger';
+import * as deepl from 'deepl-node';
+import { TranslationRequest, BatchTranslationResponse, TranslationResult, TranslationUsage } from '../types';
+import { FORMAT_SPECIFIER_PATTERN } from '../helpers/translationValidator';
+import { replaceGlossaryTerm } from '../helpers/glossary';
+import { LanguageStyles } from '../helpers/languageStyles';
+import { TranslationProvider } from './translationProvider';
+
+const PLACEHOLDER_TAG = 'x';
+
+/** String Catalog language codes whose DeepL target code is not the plain language code. */
+const DEEPL_TARGET_LANGUAGES: { [languageCode: string]: string } = {
+  'en': 'en-US',
+  'pt': 'pt-PT',
+  'zh-Hans': 'zh-HANS',
+  'zh-Hant': 'zh-HANT',
+  'no': 'nb'
+};
+
+export interface DeepLServiceOptions {
+  baseUrl?: string;
+  /** Style settings per target language; DeepL applies their formality. */
+  languageStyles?: LanguageStyles;
+}
+
+/**
+ * Maps a String Catalog language code to a DeepL target language code.
+ * @param languageCode The catalog language code (e.g., "pt-BR", "zh-Hans")
+ * @returns The DeepL target language code
+ */
+export function toDeepLTargetLanguage(languageCode: string): deepl.TargetLanguageCode {
+  const mapped = DEEPL_TARGET_LANGUAGES[languageCode];
+  if (mapped) {
+    return mapped as deepl.TargetLanguageCode;
+  }
+  const supportedRegional = ['en-GB', 'en-US', 'es-419', 'pt-BR', 'pt-PT'];
+  return (supportedRegional.includes(languageCode) ? languageCode : languageCode.split('-')[0].toLowerCase()) as deepl.TargetLanguageCode;
+}
+
+export class DeepLService implements TranslationProvider {
+  readonly name = 'DeepL';
+  private translator: deepl.Translator;
+  private languageStyles: LanguageStyles;
+
+  constructor(options: DeepLServiceOptions = {}) {
+    const apiKey = process.env.DEEPL_API_KEY;
+    if (!apiKey) {
+      throw new Error('DeepL client is not initialized. Please ensure DEEPL_API_KEY environment variable is set with a valid API key.');
+    }
+    this.translator = new deepl.Translator(apiKey, { serverUrl: options.baseUrl, maxRetries: 4 });
+    this.languageStyles = options.languageStyles ?? {};
+  }
+
+  /**
+   * Translates strings with DeepL, one API call per target language. Format specifiers are wrapped
+   * in ignored XML tags so DeepL leaves them untouched, and so are glossary terms: terms not to be
+   * translated are kept, others are replaced by their required translation, uninflected. The
+   * formality of each language's style is passed on where DeepL supports it. DeepL has no notion
+   * of plural categories, so plural units are translated from their source form as-is, and
+   * comments and other style instructions are not sent.
+   * @param requests Array of translation requests containing key, text, and target languages.
+   * @param sourceLanguage The language code of the original text (e.g., "en").
+   * @returns A promise that resolves to the batch translation response.
+   */
+  async getBatchTranslations(requests: TranslationRequest[], sourceLanguage: string = "en"): Promise<BatchTranslationResponse> {
+    const resultsByUnit: Map<string, TranslationResult> = new Map();
+    const allTargetLanguages = [...new Set(requests.flatMap(req => req.targetLanguages))];
+    const usage: TranslationUsage = { requests: 0, promptTokens: 0, completionTokens: 0, characters: 0 };
+    const deeplSourceLanguage = sourceLanguage.split('-')[0].toLowerCase() as deepl.SourceLanguageCode;
+
+    log.info(`Requesting translation from ${this.name} for ${requests.length} strings from ${sourceLanguage} to languages: ${allTargetLanguages.join(', ')}`);
+
+    try {
+      for (const lang of allTargetLanguages) {
+        const languageRequests = requests.filter(req => req.targetLanguages.includes(lang));
+        const formality = this.languageStyles[lang]?.formality;
+        const textResults = await this.translator.translateText(
+          languageRequests.map(req => protectText(req, lang)),
+          deeplSourceLanguage,
+          toDeepLTargetLanguage(lang),
+          {
+            tagHandling: 'xml',
+            ignoreTags: [PLACEHOLDER_TAG],
+            ...(formality ? { formality: formality === 'formal' ? 'prefer_more' : 'prefer_less' } : {})
+          }
+        );
+        usage.requests++;
+        usage.characters += languageRequests.reduce((total, req) => total + req.text.length, 0);
+
+        languageRequests.forEach((req, index) => {
+          const unitId = `${req.key}\u0000${req.unitPath ?? ''}`;
+          const result = resultsByUnit.get(unitId) ?? { key: req.key, unitPath: req.unitPath, translations: {} };
+          result.translations[lang] = restorePlaceholders(textResults[index].text);
+          resultsByUnit.set(unitId, result);
+        });
+      }
+    } catch (error) {
+      log.error(`Error in batch translation: ${error instanceof Error ? error.message : String(error)}`);
+      throw error;
+    }
+
+    const translations = [...resultsByUnit.values()];
+    for (const result of translations) {
+      if (!result.unitPath) {
+        delete result.unitPath;
+      }
+    }
+    log.info(`Received translations for ${translations.length} strings`);
+    return { translations, usage };
+  }
+}
+
+/**
+ * Prepares a request's text for DeepL: escapes it as XML and wraps format specifiers and glossary
+ * terms in ignored tags.
+ * @param request The translation request
+ * @param language The target language
+ * @returns The XML text to send
+ */
+export function protectText(request: TranslationRequest, language: string): string {
+  let escaped = escapeXml(request.text);
+  for (const term of request.glossary ?? []) {
+    const translation = term.doNotTranslate ? undefined : term.translations?.[language];
+    if (term.doNotTranslate || translation) {
+      escaped = replaceGlossaryTerm(escaped, { ...term, term: escapeXml(term.term) }, occurrence => `<${PLACEHOLDER_TAG}>${translation ? escapeXml(translation) : occurrence}</${PLACEHOLDER_TAG}>`);
+    }
+  }
+  return escaped.replace(new RegExp(FORMAT_SPECIFIER_PATTERN.source, 'g'), specifier => `<${PLACEHOLDER_TAG}>${specifier}</${PLACEHOLDER_TAG}>`);
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function restorePlaceholders(text: string): string {
+  const unwrapped = text.replace(new RegExp(`<${PLACEHOLDER_TAG}>(.*?)</${PLACEHOLDER_TAG}>`, 'g'), '$1');
+  return unwrapped.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+}
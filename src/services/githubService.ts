@@ -1,7 +1,17 @@
 import * as core from '@actions/core';
 import * as github from '@actions/github';
 import * as exec from '@actions/exec';
-import { generatePrDescription, TranslationChanges } from '../helpers/prDescriptionGenerator';
+import * as fs from 'fs';
+import * as path from 'path';
+import { generatePrDescriptionWithTranslations, CatalogChanges } from '../helpers/prDescriptionGenerator';
+import { NewTranslation } from '../helpers/translationReport';
+import { buildReviewComments, MAX_REVIEW_COMMENTS, parseAddedLines } from '../helpers/reviewComments';
+
+/**
+ * How new translations reach an existing localization branch: `force` rebuilds the branch from the
+ * current commit and force-pushes it, `append` adds a commit on top of the existing branch.
+ */
+export type PrUpdateMode = 'force' | 'append';
 
 export interface PrConfig {
   branchPrefix: string;
@@ -10,77 +20,452 @@ export interface PrConfig {
   commitMessage: string;
   prTitle: string;
   prBody: string;
+  updateMode: PrUpdateMode;
+  /** Whether to post a review comment with a suggestion on each new translation. */
+  reviewComments: boolean;
+}
+
+export function isPrUpdateMode(value: string): value is PrUpdateMode {
+  return value === 'force' || value === 'append';
+}
+
+/**
+ * Where translations are delivered: `pull-request` opens a localization pull request,
+ * `commit-to-head` commits them to the head branch of the pull request the action runs on.
+ */
+export type DeliveryMode = 'pull-request' | 'commit-to-head';
+
+export function isDeliveryMode(value: string): value is DeliveryMode {
+  return value === 'pull-request' || value === 'commit-to-head';
+}
+
+/** Trailer added to commits pushed to a pull request's head branch, to recognize them on the next run. */
+export const LOCALIZATION_COMMIT_TRAILER = 'Localized-by: iOS Vibe Localization Action';
+
+/**
+ * Returns the localization branch for a branch the action runs on. The name is stable, so every
+ * run updates the same branch and pull request instead of opening a new one.
+ * @param branchPrefix The configured branch prefix
+ * @param branch The branch the action runs on, e.g. the base branch of the pull request
+ * @returns The branch name, e.g. "ios-vibe-localization-updates-main"
+ */
+export function getLocalizationBranchName(branchPrefix: string, branch: string): string {
+  return `${branchPrefix}${branch}`.replace(/\//g, '-');
+}
+
+/**
+ * Checks whether a branch was created for a single run by earlier versions of the action, which
+ * named branches after the event, the run ID and a timestamp.
+ * @param branchPrefix The configured branch prefix
+ * @param branch The branch name
+ */
+export function isPerRunLocalizationBranch(branchPrefix: string, branch: string): boolean {
+  const prefix = getLocalizationBranchName(branchPrefix, '');
+  return branch.startsWith(prefix) && /^[a-z_]+-\d+-\d+$/.test(branch.slice(prefix.length));
+}
+
+/** Where the full translation report is committed when the tables don't fit into the PR description. */
+export const FULL_REPORT_PATH = '.github/localization-report.md';
+
+/** The localization pull request a run created or updated. */
+export interface PullRequestInfo {
+  number: number;
+  url: string;
+  branch: string;
+  /** Whether the run pushed a commit, false when the branch already had the translations. */
+  pushed: boolean;
 }
 
 export async function createPullRequest(
-  xcstringsFilePath: string,
   changedFilesList: string[],
   token: string,
   prConfig: PrConfig,
-  translationChanges?: TranslationChanges,
-  targetLanguages?: string[]
-): Promise<void> {
+  catalogChanges: CatalogChanges[] = [],
+  targetLanguages: string[] = [],
+  newTranslations: NewTranslation[] = []
+): Promise<PullRequestInfo | undefined> {
   const context = github.context;
 
-  await exec.exec('git', ['config', '--global', 'user.name', prConfig.commitUserName]);
-  await exec.exec('git', ['config', '--global', 'user.email', prConfig.commitUserEmail]);
-
-  const newBranchName = `${prConfig.branchPrefix}${context.eventName}-${context.runId}-${Date.now()}`.replace(/\//g, '-');
-  core.info(`Creating new branch: ${newBranchName}`);
-  await exec.exec('git', ['checkout', '-b', newBranchName]);
-
-  core.info('Adding file to commit...');
-  await exec.exec('git', ['add', xcstringsFilePath]);
-
-  core.info('Committing changes...');
-  await exec.exec('git', ['commit', '-m', prConfig.commitMessage]);
+  const baseBranchForPR = getPullRequestBaseBranch();
+  if (!baseBranchForPR) {
+    return undefined;
+  }
+  core.info(`Base branch for PR will be: ${baseBranchForPR}`);
 
-  core.info('Pushing new branch...');
-  await exec.exec('git', ['push', '-u', 'origin', newBranchName]);
+  await configureCommitUser(prConfig);
 
-  const octokit = github.getOctokit(token);
+  const branchName = getLocalizationBranchName(prConfig.branchPrefix, baseBranchForPR);
   const repoOwner = context.repo.owner;
   const repoName = context.repo.repo;
 
-  let baseBranchForPR = context.ref.replace('refs/heads/', '');
-  if (context.eventName === 'pull_request') {
-    baseBranchForPR = context.payload.pull_request?.base.ref;
-    if (!baseBranchForPR) {
-      core.setFailed('Could not determine base branch from pull request context for PR creation.');
-      return;
-    }
-  }
-  core.info(`Base branch for PR will be: ${baseBranchForPR}`);
-
-  const finalPrBody = generatePrDescription(
+  const { body: finalPrBody, report } = generatePrDescriptionWithTranslations(
     prConfig.prBody,
-    translationChanges,
+    catalogChanges,
     targetLanguages,
-    changedFilesList
+    changedFilesList,
+    newTranslations,
+    { path: FULL_REPORT_PATH, url: `${context.serverUrl}/${repoOwner}/${repoName}/blob/${branchName}/${FULL_REPORT_PATH}` }
   );
+  const committedFiles = [...changedFilesList];
+  if (report) {
+    core.info(`The translations don't fit into the PR description; writing the full report to ${FULL_REPORT_PATH}`);
+    fs.mkdirSync(path.dirname(FULL_REPORT_PATH), { recursive: true });
+    fs.writeFileSync(FULL_REPORT_PATH, report);
+    committedFiles.push(FULL_REPORT_PATH);
+  }
+  const pushed = await commitToLocalizationBranch(branchName, committedFiles, prConfig, report ? [] : [FULL_REPORT_PATH]);
+
+  const octokit = github.getOctokit(token);
 
-  core.info(`Creating pull request: ${prConfig.prTitle}`);
+  let pullRequest: PullRequestInfo | undefined;
   try {
-    const response = await octokit.rest.pulls.create({
+    const openPullRequests = await octokit.paginate(octokit.rest.pulls.list, {
       owner: repoOwner,
       repo: repoName,
-      title: prConfig.prTitle,
-      head: newBranchName,
+      state: 'open',
       base: baseBranchForPR,
-      body: finalPrBody,
-      draft: false
+      per_page: 100
     });
-    core.info(`Pull request created: ${response.data.html_url}`);
+    const fromThisRepo = openPullRequests.filter(pr => pr.head.repo?.full_name === `${repoOwner}/${repoName}`);
+
+    const existing = fromThisRepo.find(pr => pr.head.ref === branchName);
+    if (existing) {
+      core.info(`Updating pull request #${existing.number}: ${prConfig.prTitle}`);
+      await octokit.rest.pulls.update({
+        owner: repoOwner,
+        repo: repoName,
+        pull_number: existing.number,
+        title: prConfig.prTitle,
+        body: finalPrBody
+      });
+      pullRequest = { number: existing.number, url: existing.html_url, branch: branchName, pushed };
+      core.info(`Pull request updated${pushed ? '' : ' (branch already up to date)'}: ${existing.html_url}`);
+    } else {
+      core.info(`Creating pull request: ${prConfig.prTitle}`);
+      const response = await octokit.rest.pulls.create({
+        owner: repoOwner,
+        repo: repoName,
+        title: prConfig.prTitle,
+        head: branchName,
+        base: baseBranchForPR,
+        body: finalPrBody,
+        draft: false
+      });
+      pullRequest = { number: response.data.number, url: response.data.html_url, branch: branchName, pushed };
+      core.info(`Pull request created: ${response.data.html_url}`);
+    }
+
+    // A base branch such as release-2024-10 gives a stable branch that looks like a per-run one
+    const supersededPullRequests = fromThisRepo.filter(pr => pr.head.ref !== branchName && isPerRunLocalizationBranch(prConfig.branchPrefix, pr.head.ref));
+    for (const superseded of supersededPullRequests) {
+      core.info(`Closing pull request #${superseded.number}, superseded by #${pullRequest.number}`);
+      await octokit.rest.issues.createComment({
+        owner: repoOwner,
+        repo: repoName,
+        issue_number: superseded.number,
+        body: `Superseded by #${pullRequest.number}, which is kept up to date with the latest translations.`
+      });
+      await octokit.rest.pulls.update({
+        owner: repoOwner,
+        repo: repoName,
+        pull_number: superseded.number,
+        state: 'closed'
+      });
+    }
   } catch (e: any) {
-    core.error('Error creating pull request:');
+    core.error('Error creating or updating pull request:');
     if (e.response) {
       core.error(`Status: ${e.response.status}`);
       core.error(`Data: ${JSON.stringify(e.response.data)}`);
     }
     core.setFailed(e.message);
   }
+  return pullRequest;
+}
+
+/**
+ * Returns the branch the localization pull request targets, which its localization branch is
+ * named after. Pull requests target their base branch; every other event (push, schedule,
+ * workflow_dispatch) targets the branch it runs on.
+ * @returns The branch, or undefined when the event has none, e.g. a run on a tag, after failing the run
+ */
+export function getPullRequestBaseBranch(): string | undefined {
+  const context = github.context;
+  if (context.eventName === 'pull_request') {
+    const baseBranch = context.payload.pull_request?.base.ref;
+    if (!baseBranch) {
+      core.setFailed('Could not determine base branch from pull request context for PR creation.');
+      return undefined;
+    }
+    return baseBranch;
+  }
+
+  const ref = context.ref;
+  if (!ref?.startsWith('refs/heads/')) {
+    core.setFailed(`Cannot open a localization pull request for ${ref || 'an unknown ref'}; run the action on a branch.`);
+    return undefined;
+  }
+  return ref.slice('refs/heads/'.length);
+}
+
+/**
+ * Commits the changed files to the localization branch and pushes it, deleting obsolete files
+ * such as a full report earlier runs needed.
+ * @returns Whether anything was pushed; false when the branch already had these changes
+ */
+async function commitToLocalizationBranch(branchName: string, changedFilesList: string[], prConfig: PrConfig, obsoleteFiles: string[]): Promise<boolean> {
+  const remoteBranchExists = await exec.exec('git', ['ls-remote', '--exit-code', '--heads', 'origin', branchName], { ignoreReturnCode: true }) === 0;
+
+  if (prConfig.updateMode === 'append' && remoteBranchExists) {
+    core.info(`Appending to existing branch: ${branchName}`);
+    await checkoutRemoteBranch(branchName, changedFilesList);
+  } else {
+    core.info(`${remoteBranchExists ? 'Resetting' : 'Creating'} branch: ${branchName}`);
+    await exec.exec('git', ['checkout', '-B', branchName]);
+  }
+
+  const removedFiles = obsoleteFiles.filter(filePath => fs.existsSync(filePath));
+  for (const filePath of removedFiles) {
+    fs.rmSync(filePath);
+  }
+
+  core.info('Adding files to commit...');
+  await exec.exec('git', ['add', ...changedFilesList, ...removedFiles]);
+  if (await exec.exec('git', ['diff', '--cached', '--quiet'], { ignoreReturnCode: true }) === 0) {
+    core.info(`Branch ${branchName} already contains these changes.`);
+    return false;
+  }
+
+  core.info('Committing changes...');
+  await exec.exec('git', ['commit', '-m', prConfig.commitMessage]);
+
+  core.info('Pushing branch...');
+  const forcePush = prConfig.updateMode === 'force' && remoteBranchExists;
+  await exec.exec('git', ['push', ...(forcePush ? ['--force'] : []), '-u', 'origin', branchName]);
+  return true;
+}
+
+/**
+ * Commits the changed files to the head branch of the pull request the action runs on, so the
+ * translations land in the same pull request that added the strings.
+ * @param changedFilesList The files to commit
+ * @param headBranch The pull request's head branch
+ * @param headSha The head commit the catalogs were localized from
+ * @param prConfig The commit settings
+ * @returns Whether a commit was pushed
+ */
+export async function commitToHeadBranch(changedFilesList: string[], headBranch: string, headSha: string, prConfig: PrConfig): Promise<boolean> {
+  await configureCommitUser(prConfig);
+
+  core.info(`Checking out head branch: ${headBranch}`);
+  const branchSha = await checkoutRemoteBranch(headBranch, changedFilesList);
+  if (branchSha !== headSha) {
+    // The catalogs were localized from an older commit; writing them would revert the newer changes
+    core.warning(`${headBranch} moved from ${headSha} to ${branchSha} during the run. Skipping the commit; the run for the new commit will localize it.`);
+    return false;
+  }
+
+  core.info('Adding files to commit...');
+  await exec.exec('git', ['add', ...changedFilesList]);
+  if (await exec.exec('git', ['diff', '--cached', '--quiet'], { ignoreReturnCode: true }) === 0) {
+    core.info(`${headBranch} already contains these changes.`);
+    return false;
+  }
+
+  core.info('Committing changes...');
+  await exec.exec('git', ['commit', '-m', prConfig.commitMessage, '-m', LOCALIZATION_COMMIT_TRAILER]);
+
+  core.info(`Pushing to ${headBranch}...`);
+  await exec.exec('git', ['push', 'origin', `HEAD:refs/heads/${headBranch}`]);
+  return true;
+}
+
+/**
+ * Returns the head branch to commit to in `commit-to-head` mode, or undefined when the run cannot
+ * push to it: outside pull request events, and for pull requests from forks.
+ */
+export function getCommitToHeadBranch(): string | undefined {
+  const context = github.context;
+  const pullRequest = context.payload.pull_request;
+  if (context.eventName !== 'pull_request' || !pullRequest) {
+    core.info(`Mode commit-to-head only applies to pull_request events, not ${context.eventName}. Opening a pull request instead.`);
+    return undefined;
+  }
+  if (pullRequest.head.repo?.full_name !== `${context.repo.owner}/${context.repo.repo}`) {
+    core.warning('Cannot push to the head branch of a pull request from a fork. Opening a pull request instead.');
+    return undefined;
+  }
+  return pullRequest.head.ref;
+}
+
+/**
+ * Checks whether a commit was pushed by this action in `commit-to-head` mode. Localizing it again
+ * would find nothing to translate, but pushing with a token that triggers workflows could
+ * otherwise start an endless chain of runs.
+ * @param sha The commit to check
+ */
+export async function isLocalizationCommit(sha: string): Promise<boolean> {
+  let message = '';
+  await exec.exec('git', ['log', '-1', '--format=%B', sha], {
+    listeners: { stdout: (data: Buffer) => { message += data.toString(); } },
+    ignoreReturnCode: true,
+    silent: true
+  });
+  return message.split('\n').some(line => line.trim() === LOCALIZATION_COMMIT_TRAILER);
+}
+
+/**
+ * Posts a review on a pull request with a comment on each new translation, anchored to its line in
+ * the catalog diff. Each comment shows the source text and comment, and offers the line as a
+ * suggestion so reviewers can correct a translation in place. Translations that already have the
+ * same comment, e.g. from a run that pushed the same translations, are skipped.
+ * Must run right after pushing, while the pushed commit is checked out.
+ * @param token The GitHub token
+ * @param pullNumber The pull request to review
+ * @param newTranslations The translations written by the run
+ * @returns The number of comments posted
+ */
+export async function postReviewComments(token: string, pullNumber: number, newTranslations: NewTranslation[]): Promise<number> {
+  const context = github.context;
+  const octokit = github.getOctokit(token);
+  const repo = { owner: context.repo.owner, repo: context.repo.repo, pull_number: pullNumber };
+
+  try {
+    const commitId = await revParseHead();
+    const files = await octokit.paginate(octokit.rest.pulls.listFiles, { ...repo, per_page: 100 });
+    // GitHub leaves out the patch of very large diffs; their lines cannot be commented on
+    const addedLines = new Map(files.filter(file => file.patch).map(file => [file.filename, parseAddedLines(file.patch!)]));
+    const existingComments = await octokit.paginate(octokit.rest.pulls.listReviewComments, { ...repo, per_page: 100 });
+    const existingBodies = new Set(existingComments.map(comment => comment.body));
+
+    const comments = buildReviewComments(newTranslations, filePath => fs.readFileSync(filePath, 'utf8'), addedLines)
+      .filter(comment => !existingBodies.has(comment.body));
+    if (comments.length === 0) {
+      core.info('No new translations to comment on.');
+      return 0;
+    }
+    const posted = comments.slice(0, MAX_REVIEW_COMMENTS);
+    if (posted.length < comments.length) {
+      core.info(`Commenting on the first ${posted.length} of ${comments.length} translations; see the PR description for the rest.`);
+    }
+
+    let body = `Review comments on ${posted.length} new translation${posted.length === 1 ? '' : 's'}. Commit a suggestion to correct a translation.`;
+    if (posted.length < comments.length) {
+      body += ` ${comments.length - posted.length} more are listed in the pull request description.`;
+    }
+    await octokit.rest.pulls.createReview({
+      ...repo,
+      commit_id: commitId,
+      event: 'COMMENT',
+      body,
+      comments: posted.map(comment => ({ ...comment, side: 'RIGHT' as const }))
+    });
+    core.info(`Posted ${posted.length} review comments on pull request #${pullNumber}.`);
+    return posted.length;
+  } catch (e: any) {
+    // The translations are pushed either way, so a failed review only warrants a warning
+    core.warning(`Could not post review comments on pull request #${pullNumber}: ${e.message}`);
+    return 0;
+  }
 }
 
+/** Author associations allowed to run review commands, which push commits and may call a paid API. */
+export const REVIEW_COMMAND_ASSOCIATIONS = ['OWNER', 'MEMBER', 'COLLABORATOR'];
+
+/** The pull request an `issue_comment` event with review commands was posted on. */
+export interface ReviewCommandPullRequest {
+  number: number;
+  url: string;
+  headBranch: string;
+  /** The user who posted the commands. */
+  commenter: string;
+}
+
+/**
+ * Returns the pull request to apply the review commands of an `issue_comment` event to, or
+ * undefined when the commands must be ignored: for edited or deleted comments, comments on
+ * issues, commenters without write access and pull requests from forks.
+ * @param token The GitHub token
+ */
+export async function getReviewCommandPullRequest(token: string): Promise<ReviewCommandPullRequest | undefined> {
+  const context = github.context;
+  const { action, issue, comment } = context.payload;
+  if (action !== 'created' || !issue?.pull_request || !comment) {
+    core.info('Review commands are only read from new comments on pull requests.');
+    return undefined;
+  }
+  if (!REVIEW_COMMAND_ASSOCIATIONS.includes(comment.author_association)) {
+    core.warning(`Ignoring review commands from @${comment.user?.login}, who is not a collaborator (${comment.author_association}).`);
+    return undefined;
+  }
+
+  const octokit = github.getOctokit(token);
+  const { data: pullRequest } = await octokit.rest.pulls.get({ owner: context.repo.owner, repo: context.repo.repo, pull_number: issue.number });
+  if (pullRequest.state !== 'open') {
+    core.info(`Pull request #${issue.number} is ${pullRequest.state}. Ignoring review commands.`);
+    return undefined;
+  }
+  if (pullRequest.head.repo?.full_name !== `${context.repo.owner}/${context.repo.repo}`) {
+    core.warning('Cannot push to the head branch of a pull request from a fork. Ignoring review commands.');
+    return undefined;
+  }
+  return { number: pullRequest.number, url: pullRequest.html_url, headBranch: pullRequest.head.ref, commenter: comment.user.login };
+}
+
+/**
+ * Checks out the latest commit of a remote branch, discarding local changes.
+ * @returns The commit checked out
+ */
+export async function checkoutBranch(branchName: string): Promise<string> {
+  return checkoutRemoteBranch(branchName, []);
+}
+
+/**
+ * Replies to a comment on a pull request.
+ * @param token The GitHub token
+ * @param issueNumber The pull request number
+ * @param body The Markdown reply
+ */
+export async function replyToComment(token: string, issueNumber: number, body: string): Promise<void> {
+  const context = github.context;
+  const octokit = github.getOctokit(token);
+  await octokit.rest.issues.createComment({ owner: context.repo.owner, repo: context.repo.repo, issue_number: issueNumber, body });
+}
+
+async function configureCommitUser(prConfig: PrConfig): Promise<void> {
+  await exec.exec('git', ['config', '--global', 'user.name', prConfig.commitUserName]);
+  await exec.exec('git', ['config', '--global', 'user.email', prConfig.commitUserEmail]);
+}
+
+/**
+ * Checks out the latest commit of a remote branch, keeping the updated files.
+ * @returns The commit checked out
+ */
+async function checkoutRemoteBranch(branchName: string, changedFilesList: string[]): Promise<string> {
+  // Checking out the branch discards the working tree, so keep the updated files in memory
+  const updatedFiles = changedFilesList.map(filePath => ({ filePath, content: fs.readFileSync(filePath) }));
+  await exec.exec('git', ['fetch', '--no-tags', 'origin', branchName]);
+  await exec.exec('git', ['checkout', '--force', '-B', branchName, 'FETCH_HEAD']);
+  for (const { filePath, content } of updatedFiles) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  }
+
+  return revParseHead();
+}
+
+async function revParseHead(): Promise<string> {
+  let sha = '';
+  await exec.exec('git', ['rev-parse', 'HEAD'], { listeners: { stdout: (data: Buffer) => { sha += data.toString(); } } });
+  return sha.trim();
+}
+
+/**
+ * Returns the commits a run compares: catalogs are localized at the head commit, and translations
+ * whose source changed since the base commit are handled by `changed_source_strategy`. Scheduled
+ * and manually dispatched runs sweep the whole catalog at the commit they run on, so their base
+ * is the head commit itself and only missing translations (and forced keys) are requested.
+ */
 export async function getShaRefs(): Promise<{ baseSha: string, headSha: string }> {
   const context = github.context;
   let baseSha = '';
@@ -114,8 +499,18 @@ export async function getShaRefs(): Promise<{ baseSha: string, headSha: string }
         }
       }
       break;
+    case 'merge_group':
+      baseSha = context.payload.merge_group?.base_sha;
+      headSha = context.payload.merge_group?.head_sha;
+      break;
+    case 'schedule':
+    case 'workflow_dispatch':
+      core.info(`Running a full catalog sweep of ${context.ref} for the ${context.eventName} event.`);
+      baseSha = context.sha;
+      headSha = context.sha;
+      break;
     default:
-      throw new Error(`Unsupported event: ${context.eventName}.`);
+      throw new Error(`Unsupported event: ${context.eventName}. Expected push, pull_request, merge_group, schedule or workflow_dispatch.`);
   }
 
   if (!baseSha || !headSha || /^0+$/.test(headSha)) {
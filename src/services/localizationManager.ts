@@ -1,23 +1,313 @@
-import * as core from '@actions/core';
-import { OpenAIService } from './openaiService';
-import { TranslationRequest, BatchTranslationResponse } from '../types';
+import * as log from '../helpers/logger';
+import { createTranslationProvider, getProviderForLanguage, ProviderConfig, ProviderName, TranslationProvider } from './translationProvider';
+import { TranslationRequest, BatchTranslationResponse, TranslationUsage, TranslationValidationFailure } from '../types';
+import { validateBatchTranslations } from '../helpers/translationValidator';
+import { chunkTranslationRequests } from '../helpers/batchChunker';
+import { withRetry } from '../helpers/retry';
+import { TranslationResponseError } from '../helpers/translationPrompt';
+import { buildStyledSystemPrompt, groupLanguagesByStyle, LanguageStyles } from '../helpers/languageStyles';
+
+export interface ValidatedBatchTranslationResponse extends BatchTranslationResponse {
+  validationFailures: TranslationValidationFailure[];
+  /** Requests (narrowed to the missing languages) that got no translation after all retries. */
+  failedRequests: TranslationRequest[];
+  /** What each provider that calls an API was billed for, including responses that could not be read. */
+  providerUsage: ProviderUsage[];
+}
+
+/** Usage billed by one provider, summed over its API calls. */
+export interface ProviderUsage extends TranslationUsage {
+  provider: ProviderName;
+}
+
+export interface BatchOptions {
+  maxStringsPerBatch: number;
+  maxTokensPerBatch: number;
+  maxConcurrentBatches: number;
+  batchRetries: number;
+  /** How many times translations that failed validation or were missing from a response are requested again. */
+  followUpRetries: number;
+}
+
+export const DEFAULT_BATCH_OPTIONS: BatchOptions = {
+  maxStringsPerBatch: 50,
+  maxTokensPerBatch: 8000,
+  maxConcurrentBatches: 2,
+  batchRetries: 2,
+  followUpRetries: 1
+};
+
+/** A batch of requests sent to one provider in a single API call. */
+export interface TranslationChunk {
+  providerName: ProviderName;
+  requests: TranslationRequest[];
+  systemPrompt: string;
+}
 
 /**
  * Fetches translations for multiple strings in a single batch API call.
  * @param requests Array of translation requests.
  * @param sourceLanguageCode The source language code (e.g., "en").
- * @param model The OpenAI model to use for translations.
+ * @param provider The translation provider to use.
  * @param baseSystemPrompt Additional system prompt for context.
  * @returns A promise that resolves to the batch translation response.
  */
-export async function fetchBatchTranslations(requests: TranslationRequest[], sourceLanguageCode: string = "en", model: string, baseSystemPrompt: string = ""): Promise<BatchTranslationResponse> {
-  core.info(`Fetching batch translations for ${requests.length} strings from ${sourceLanguageCode} using model ${model}.`);
-  const openaiService = new OpenAIService(model);
+export async function fetchBatchTranslations(requests: TranslationRequest[], sourceLanguageCode: string = "en", provider: TranslationProvider, baseSystemPrompt: string = ""): Promise<BatchTranslationResponse> {
+  log.info(`Fetching batch translations for ${requests.length} strings from ${sourceLanguageCode} using ${provider.name}.`);
   try {
-    const batchResponse = await openaiService.getBatchTranslations(requests, sourceLanguageCode, baseSystemPrompt);
+    const batchResponse = await provider.getBatchTranslations(requests, sourceLanguageCode, baseSystemPrompt);
     return batchResponse;
   } catch (error) {
-    core.error(`Error fetching batch translations: ${error instanceof Error ? error.message : String(error)}`);
+    log.error(`Error fetching batch translations: ${error instanceof Error ? error.message : String(error)}`);
     throw error;
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Fetches translations in chunks and validates placeholders and markup against the source text.
+ * Requests are routed to the provider configured for each target language, split by string count
+ * and estimated tokens, and chunks run with bounded parallelism. Languages with style instructions
+ * are translated in chunks of their own, whose system prompt carries those instructions.
+ * Providers retry failed API calls themselves; a chunk whose response cannot be read is sent again
+ * up to `batchRetries` times with backoff. If it keeps failing, its requests are reported as failed
+ * while the other chunks' translations are kept. A chunk whose response was truncated before a
+ * single translation is split in half. Translations that fail validation, or are missing from a
+ * truncated response, are requested again up to `followUpRetries` times. Invalid translations still failing afterwards are reported as validation
+ * failures, missing ones as failed requests. The usage reported by each provider is summed up.
+ * @param requests Array of translation requests.
+ * @param sourceLanguageCode The source language code (e.g., "en").
+ * @param providerConfig The translation provider configuration.
+ * @param baseSystemPrompt Additional system prompt for context.
+ * @param options Chunking, concurrency and retry settings.
+ * @param languageStyles Style instructions per target language.
+ * @returns A promise that resolves to the valid translations, validation failures, failed requests and usage.
+ */
+export async function fetchValidatedTranslations(requests: TranslationRequest[], sourceLanguageCode: string = "en", providerConfig: ProviderConfig, baseSystemPrompt: string = "", options: BatchOptions = DEFAULT_BATCH_OPTIONS, languageStyles: LanguageStyles = {}): Promise<ValidatedBatchTranslationResponse> {
+  const chunks = planTranslationChunks(requests, providerConfig, baseSystemPrompt, options, languageStyles);
+  const providers: Map<ProviderName, TranslationProvider> = new Map();
+  for (const chunk of chunks) {
+    if (!providers.has(chunk.providerName)) {
+      providers.set(chunk.providerName, createTranslationProvider(chunk.providerName, providerConfig, languageStyles));
+    }
+  }
+  log.info(`Split ${requests.length} translation requests into ${chunks.length} batches (up to ${options.maxConcurrentBatches} in parallel).`);
+
+  const chunkResponses = await mapWithConcurrency(chunks, options.maxConcurrentBatches, (chunk, index) =>
+    translateChunk(chunk.requests, index + 1, chunks.length, sourceLanguageCode, providers.get(chunk.providerName)!, chunk.systemPrompt, options)
+  );
+
+  const response: ValidatedBatchTranslationResponse = { translations: [], validationFailures: [], failedRequests: [], providerUsage: [] };
+  const usageByProvider: Map<ProviderName, ProviderUsage> = new Map();
+  chunkResponses.forEach((chunkResponse, index) => {
+    response.translations.push(...chunkResponse.translations);
+    response.validationFailures.push(...chunkResponse.validationFailures);
+    response.failedRequests.push(...chunkResponse.failedRequests);
+    if (chunkResponse.usage) {
+      const providerName = chunks[index].providerName;
+      usageByProvider.set(providerName, { provider: providerName, ...addUsage(usageByProvider.get(providerName), chunkResponse.usage) });
+    }
+  });
+  response.providerUsage = [...usageByProvider.values()];
+
+  if (response.translations.length === 0 && response.failedRequests.length > 0) {
+    throw new Error(`All ${chunks.length} translation batches failed.`);
+  }
+  return response;
+}
+
+/**
+ * Splits translation requests into the batches `fetchValidatedTranslations` sends: by provider,
+ * then by language style, then by string count and estimated tokens.
+ * @param requests Array of translation requests.
+ * @param providerConfig The translation provider configuration.
+ * @param baseSystemPrompt Additional system prompt for context.
+ * @param options Chunking settings.
+ * @param languageStyles Style instructions per target language.
+ * @returns The batches, each with its provider and system prompt.
+ */
+export function planTranslationChunks(requests: TranslationRequest[], providerConfig: ProviderConfig, baseSystemPrompt: string = "", options: BatchOptions = DEFAULT_BATCH_OPTIONS, languageStyles: LanguageStyles = {}): TranslationChunk[] {
+  const chunks: TranslationChunk[] = [];
+  for (const [providerName, providerRequests] of splitRequestsByProvider(requests, providerConfig)) {
+    for (const [languages, groupRequests] of splitRequestsByStyle(providerRequests, languageStyles)) {
+      const systemPrompt = buildStyledSystemPrompt(baseSystemPrompt, languages, languageStyles);
+      for (const chunkRequests of chunkTranslationRequests(groupRequests, { maxStrings: options.maxStringsPerBatch, maxTokens: options.maxTokensPerBatch })) {
+        chunks.push({ providerName, requests: chunkRequests, systemPrompt });
+      }
+    }
+  }
+  return chunks;
+}
+
+async function translateChunk(
+  requests: TranslationRequest[],
+  chunkNumber: number,
+  chunkCount: number,
+  sourceLanguageCode: string,
+  provider: TranslationProvider,
+  baseSystemPrompt: string,
+  options: BatchOptions
+): Promise<Omit<ValidatedBatchTranslationResponse, 'providerUsage'>> {
+  const translations: BatchTranslationResponse['translations'] = [];
+  let usage: TranslationUsage | undefined;
+  let pendingRequests = requests;
+  let validationFailures: TranslationValidationFailure[] = [];
+  let failedRequests: TranslationRequest[] = requests;
+
+  for (let attempt = 0; attempt <= options.followUpRetries && pendingRequests.length > 0; attempt++) {
+    let batchResponse: BatchTranslationResponse;
+    try {
+      batchResponse = await fetchChunkWithRetries(pendingRequests, chunkNumber, chunkCount, sourceLanguageCode, provider, baseSystemPrompt, options.batchRetries, failedUsage => {
+        usage = addUsage(usage, failedUsage);
+      });
+    } catch (error) {
+      log.warning(`Batch ${chunkNumber}/${chunkCount} failed: ${error instanceof Error ? error.message : String(error)}`);
+      break;
+    }
+
+    if (batchResponse.usage) {
+      usage = addUsage(usage, batchResponse.usage);
+    }
+
+    // Sending the same requests again would hit the output limit again
+    if (batchResponse.truncated && batchResponse.translations.length === 0 && pendingRequests.length > 1) {
+      const half = Math.ceil(pendingRequests.length / 2);
+      log.warning(`Batch ${chunkNumber}/${chunkCount} was truncated before a single translation. Splitting its ${pendingRequests.length} strings in two.`);
+      validationFailures = [];
+      failedRequests = [];
+      for (const halfRequests of [pendingRequests.slice(0, half), pendingRequests.slice(half)]) {
+        const halfResponse = await translateChunk(halfRequests, chunkNumber, chunkCount, sourceLanguageCode, provider, baseSystemPrompt, options);
+        translations.push(...halfResponse.translations);
+        validationFailures.push(...halfResponse.validationFailures);
+        failedRequests.push(...halfResponse.failedRequests);
+        if (halfResponse.usage) {
+          usage = addUsage(usage, halfResponse.usage);
+        }
+      }
+      return { translations, validationFailures, failedRequests, usage };
+    }
+
+    const { validResponse, failures } = validateBatchTranslations(pendingRequests, batchResponse);
+    translations.push(...validResponse.translations);
+    validationFailures = failures;
+    failedRequests = findMissingRequests(pendingRequests, batchResponse);
+    pendingRequests = [...buildRetryRequests(pendingRequests, failures), ...failedRequests];
+
+    if (pendingRequests.length > 0 && attempt < options.followUpRetries) {
+      log.warning(`Batch ${chunkNumber}/${chunkCount}: ${failures.length} translations failed placeholder validation and ${failedRequests.length} strings were missing from the response. Requesting them again (attempt ${attempt + 2} of ${options.followUpRetries + 1}).`);
+    }
+  }
+
+  return { translations, validationFailures, failedRequests, usage };
+}
+
+function addUsage(total: TranslationUsage | undefined, usage: TranslationUsage): TranslationUsage {
+  return {
+    requests: (total?.requests ?? 0) + usage.requests,
+    promptTokens: (total?.promptTokens ?? 0) + usage.promptTokens,
+    completionTokens: (total?.completionTokens ?? 0) + usage.completionTokens,
+    characters: (total?.characters ?? 0) + usage.characters
+  };
+}
+
+async function fetchChunkWithRetries(
+  requests: TranslationRequest[],
+  chunkNumber: number,
+  chunkCount: number,
+  sourceLanguageCode: string,
+  provider: TranslationProvider,
+  baseSystemPrompt: string,
+  retries: number,
+  recordFailedUsage: (usage: TranslationUsage) => void
+): Promise<BatchTranslationResponse> {
+  log.info(`Translating batch ${chunkNumber}/${chunkCount} (${requests.length} strings).`);
+  return withRetry(async () => {
+    try {
+      return await fetchBatchTranslations(requests, sourceLanguageCode, provider, baseSystemPrompt);
+    } catch (error) {
+      // An unreadable response was billed even though it is requested again
+      if (error instanceof TranslationResponseError && error.usage) {
+        recordFailedUsage(error.usage);
+      }
+      throw error;
+    }
+  }, {
+    maxAttempts: retries + 1,
+    baseDelayMs: 2000,
+    maxDelayMs: 30000,
+    // API errors were already retried by the provider, and errors such as an invalid key never succeed
+    isRetryable: error => error instanceof TranslationResponseError,
+    onRetry: (_error, attempt, delayMs) => {
+      log.warning(`Batch ${chunkNumber}/${chunkCount} failed, retrying in ${delayMs}ms (attempt ${attempt + 1} of ${retries + 1}).`);
+    }
+  });
+}
+
+function splitRequestsByProvider(requests: TranslationRequest[], config: ProviderConfig): Map<ProviderName, TranslationRequest[]> {
+  const requestsByProvider: Map<ProviderName, TranslationRequest[]> = new Map();
+  for (const request of requests) {
+    const languagesByProvider: Map<ProviderName, string[]> = new Map();
+    for (const lang of request.targetLanguages) {
+      const providerName = getProviderForLanguage(lang, config);
+      languagesByProvider.set(providerName, [...(languagesByProvider.get(providerName) ?? []), lang]);
+    }
+    for (const [providerName, targetLanguages] of languagesByProvider) {
+      requestsByProvider.set(providerName, [...(requestsByProvider.get(providerName) ?? []), { ...request, targetLanguages }]);
+    }
+  }
+  return requestsByProvider;
+}
+
+async function mapWithConcurrency<T, R>(items: T[], concurrency: number, mapper: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+  const workers = Array.from({ length: Math.min(Math.max(concurrency, 1), items.length) }, async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await mapper(items[index], index);
+    }
+  });
+  await Promise.all(workers);
+  return results;
+}
+
+function buildRetryRequests(requests: TranslationRequest[], failures: TranslationValidationFailure[]): TranslationRequest[] {
+  const retryRequests: TranslationRequest[] = [];
+  for (const request of requests) {
+    const requestFailures = failures.filter(failure => failure.key === request.key && (failure.unitPath ?? '') === (request.unitPath ?? ''));
+    if (requestFailures.length === 0) {
+      continue;
+    }
+    const issues = [...new Set(requestFailures.flatMap(failure => failure.issues))];
+    const retryNote = `A previous translation was rejected: ${issues.join('; ')}. Keep every placeholder and markup exactly as in the source text.`;
+    retryRequests.push({
+      ...request,
+      targetLanguages: requestFailures.map(failure => failure.language),
+      comment: request.comment ? `${request.comment}\n${retryNote}` : retryNote
+    });
+  }
+  return retryRequests;
+}
+
+function findMissingRequests(requests: TranslationRequest[], response: BatchTranslationResponse): TranslationRequest[] {
+  const missingRequests: TranslationRequest[] = [];
+  for (const request of requests) {
+    const results = response.translations.filter(result => result.key === request.key && (result.unitPath ?? '') === (request.unitPath ?? ''));
+    const missingLanguages = request.targetLanguages.filter(lang => !results.some(result => result.translations[lang]));
+    if (missingLanguages.length > 0) {
+      missingRequests.push({ ...request, targetLanguages: missingLanguages });
+    }
+  }
+  return missingRequests;
+}
+
+function splitRequestsByStyle(requests: TranslationRequest[], languageStyles: LanguageStyles): Array<[string[], TranslationRequest[]]> {
+  const languages = [...new Set(requests.flatMap(request => request.targetLanguages))];
+  return groupLanguagesByStyle(languages, languageStyles)
+    .map((group): [string[], TranslationRequest[]] => [
+      group,
+      requests
+        .map(request => ({ ...request, targetLanguages: request.targetLanguages.filter(lang => group.includes(lang)) }))
+        .filter(request => request.targetLanguages.length > 0)
+    ])
+    .filter(([, groupRequests]) => groupRequests.length > 0);
+}
@@ -0,0 +1,166 @@
+import * as fs from 'fs';
+import * as log from '../helpers/logger';
+import { XCStrings } from '../types';
+import { formatXcstringsJson } from '../helpers/xcstringsFormatter';
+import { CatalogChanges, TranslationChanges } from '../helpers/prDescriptionGenerator';
+import { TranslationMemory } from '../helpers/translationMemory';
+import { collectNewTranslations, computeCoverage, NewTranslation } from '../helpers/translationReport';
+import { LocalizerSettings } from '../helpers/settings';
+import { localizeCatalog, LocalizeCatalogOptions, LocalizeCatalogResult, previewCatalog } from './catalogLocalizer';
+import { planTranslationChunks } from './localizationManager';
+import { getProviderForLanguage, isPlaceholderProvider } from './translationProvider';
+import { combineUsageEstimates, estimateUsage, priceProviderUsage, UsageEstimate } from './usageEstimator';
+
+export interface CatalogSource {
+  filePath: string;
+  currentXcstringsData: XCStrings;
+  /** The catalog at the base commit; missing for new catalogs or when no base is known. */
+  baseXcstringsData?: XCStrings;
+}
+
+export type TranslationTotals = { [kind in keyof TranslationChanges]: number };
+
+export interface LocalizationRunResult {
+  catalogChanges: CatalogChanges[];
+  /** Files written, or that would be written in a dry run, including the translation memory. */
+  changedFiles: string[];
+  totals: TranslationTotals;
+  /** The translations written to the catalogs; empty for dry runs. */
+  newTranslations: NewTranslation[];
+  /** The usage of each provider: as billed for real runs, estimated for dry runs. */
+  usage: UsageEstimate[];
+}
+
+export interface LocalizationRunOptions {
+  /** Analyze the catalogs and estimate usage without requesting translations or writing any file. */
+  dryRun?: boolean;
+}
+
+/**
+ * Localizes a set of catalogs with shared settings and writes the updated catalogs and translation
+ * memory to disk. This is the whole pipeline short of version control, shared by the GitHub Action
+ * and the command line.
+ * @param catalogs The catalogs to localize
+ * @param settings The resolved run settings
+ * @param options Run options
+ * @returns The changes of each catalog and the files written
+ */
+export async function runLocalization(catalogs: CatalogSource[], settings: LocalizerSettings, options: LocalizationRunOptions = {}): Promise<LocalizationRunResult> {
+  const { translationMemoryPath } = settings;
+  let translationMemory: TranslationMemory | undefined;
+  if (translationMemoryPath) {
+    translationMemory = TranslationMemory.load(translationMemoryPath);
+    // Catalogs hold the output of earlier mock and pseudo runs for these languages
+    const placeholderLanguages = settings.targetLanguages.filter(lang => isPlaceholderProvider(getProviderForLanguage(lang, settings.providerConfig)));
+    for (const catalog of catalogs) {
+      translationMemory.addCatalog(catalog.currentXcstringsData, catalog.baseXcstringsData, placeholderLanguages);
+    }
+    log.info(`Translation memory ${translationMemoryPath}: ${translationMemory.size} source strings.`);
+  }
+
+  const unknownKeys = settings.forceKeys.filter(key => !catalogs.some(catalog => key in catalog.currentXcstringsData.strings));
+  if (unknownKeys.length > 0) {
+    log.warning(`Keys to translate again are not in any catalog: ${unknownKeys.join(', ')}`);
+  }
+
+  const catalogChanges: CatalogChanges[] = [];
+  const changedFiles: string[] = [];
+  const newTranslations: NewTranslation[] = [];
+  const usage: UsageEstimate[] = [];
+  for (const catalog of catalogs) {
+    if (catalogs.length > 1) {
+      log.info('');
+      log.info(`=== ${catalog.filePath} ===`);
+    }
+    const catalogOptions: LocalizeCatalogOptions = {
+      targetLanguages: settings.targetLanguages,
+      providerConfig: settings.providerConfig,
+      baseSystemPrompt: settings.baseSystemPrompt,
+      batchOptions: settings.batchOptions,
+      changedSourceStrategy: settings.changedSourceStrategy,
+      baseXcstringsData: catalog.baseXcstringsData,
+      translationMemory,
+      glossary: settings.glossary,
+      languageStyles: settings.languageStyles,
+      forceKeys: settings.forceKeys
+    };
+    let result: LocalizeCatalogResult;
+    if (options.dryRun) {
+      const preview = previewCatalog(catalog.currentXcstringsData, catalogOptions);
+      const chunks = planTranslationChunks(preview.translationRequests, settings.providerConfig, settings.baseSystemPrompt, settings.batchOptions, settings.languageStyles);
+      usage.push(...estimateUsage(chunks, catalog.currentXcstringsData.sourceLanguage, settings.providerConfig, settings.tokenPrices));
+      result = preview;
+    } else {
+      result = await localizeCatalog(catalog.currentXcstringsData, catalogOptions);
+      usage.push(...priceProviderUsage(result.providerUsage, settings.providerConfig, settings.tokenPrices));
+      newTranslations.push(...collectNewTranslations(catalog.filePath, catalog.currentXcstringsData, result.updatedXcstringsData, settings.targetLanguages));
+    }
+    const { updatedXcstringsData, translationChanges, xcstringsModified } = result;
+    catalogChanges.push({ filePath: catalog.filePath, translationChanges, coverage: computeCoverage(updatedXcstringsData, settings.targetLanguages) });
+    logTranslationChanges(catalog.filePath, translationChanges, !!options.dryRun);
+
+    if (!xcstringsModified && translationChanges.added.length === 0 && translationChanges.updated.length === 0) {
+      log.info(`No changes needed for ${catalog.filePath}`);
+      continue;
+    }
+    changedFiles.push(catalog.filePath);
+    if (options.dryRun) {
+      continue;
+    }
+
+    try {
+      fs.writeFileSync(catalog.filePath, formatXcstringsJson(updatedXcstringsData));
+    } catch (e: any) {
+      throw new Error(`Error writing updated ${catalog.filePath}: ${e.message}`);
+    }
+    log.info(`Changes written to ${catalog.filePath}`);
+  }
+
+  // The memory is committed along with the catalogs it was updated from
+  if (translationMemory?.hasChanges && translationMemoryPath && changedFiles.length > 0) {
+    if (!options.dryRun) {
+      translationMemory.save(translationMemoryPath);
+      log.info(`Translation memory written to ${translationMemoryPath}`);
+    }
+    changedFiles.push(translationMemoryPath);
+  }
+
+  return { catalogChanges, changedFiles, totals: sumTranslationChanges(catalogChanges), newTranslations, usage: combineUsageEstimates(usage) };
+}
+
+/**
+ * Counts the translation changes of every catalog by kind.
+ * @param catalogChanges The translation changes of each catalog
+ * @returns The number of changes of each kind
+ */
+export function sumTranslationChanges(catalogChanges: CatalogChanges[]): TranslationTotals {
+  const totals = { added: 0, updated: 0, staleRemoved: 0, needsReview: 0, rejected: 0, failed: 0, glossaryViolations: 0 };
+  for (const { translationChanges } of catalogChanges) {
+    for (const kind of Object.keys(totals) as Array<keyof TranslationChanges>) {
+      totals[kind] += translationChanges[kind].length;
+    }
+  }
+  return totals;
+}
+
+function logTranslationChanges(filePath: string, translationChanges: TranslationChanges, dryRun: boolean): void {
+  const verb = (done: string, pending: string) => dryRun ? pending : done;
+  if (translationChanges.added.length > 0) {
+    log.info(`${verb('Added', 'Would add')} translations for ${translationChanges.added.length} strings: ${translationChanges.added.join(', ')}`);
+  }
+  if (translationChanges.updated.length > 0) {
+    log.info(`${verb('Updated', 'Would update')} translations for ${translationChanges.updated.length} strings: ${translationChanges.updated.join(', ')}`);
+  }
+  if (translationChanges.staleRemoved.length > 0) {
+    log.info(`${verb('Removed', 'Would remove')} stale extraction state from ${translationChanges.staleRemoved.length} strings: ${translationChanges.staleRemoved.join(', ')}`);
+  }
+  if (translationChanges.rejected.length > 0) {
+    log.warning(`Rejected ${translationChanges.rejected.length} translations that failed placeholder validation.`);
+  }
+  if (translationChanges.needsReview.length > 0) {
+    log.info(`${verb('Marked', 'Would mark')} ${translationChanges.needsReview.length} translations as needs review after source changes: ${translationChanges.needsReview.join(', ')}`);
+  }
+  if (translationChanges.added.length === 0 && translationChanges.updated.length === 0 && translationChanges.staleRemoved.length === 0 && translationChanges.needsReview.length === 0) {
+    log.info('No new strings requiring translation found in ' + filePath);
+  }
+}
@@ -0,0 +1,85 @@
+import * as log from '../helpers/logger';
+import * as fs from 'fs';
+import { TranslationRequest, BatchTranslationResponse, TranslationResult } from '../types';
+import { TranslationProvider } from './translationProvider';
+
+/**
+ * Fixture translations by language, then by string key. Units of plural, device and substitution
+ * strings are addressed as `<key>#<unitPath>` (e.g. `"%lld files#plural.one"`).
+ */
+export interface MockTranslationFixtures {
+  [languageCode: string]: { [keyOrUnit: string]: string };
+}
+
+export interface MockTranslationServiceOptions {
+  /** JSON file with fixture translations; when unset, pseudo translations are generated. */
+  fixturesPath?: string;
+}
+
+/**
+ * Builds the fixture lookup key for a translation request.
+ * @param key The string key
+ * @param unitPath The string unit path, empty for the root unit
+ * @returns The fixture key
+ */
+export function getFixtureKey(key: string, unitPath?: string): string {
+  return unitPath ? `${key}#${unitPath}` : key;
+}
+
+/**
+ * An offline provider for tests and dry runs in CI. It either answers from a fixtures file or
+ * returns the source text prefixed with the target language (e.g. "[de] Hello"), which keeps
+ * placeholders and markup intact so translations pass validation.
+ */
+export class MockTranslationService implements TranslationProvider {
+  readonly name = 'Mock';
+  private fixtures?: MockTranslationFixtures;
+
+  constructor(options: MockTranslationServiceOptions = {}) {
+    if (options.fixturesPath) {
+      let content: string;
+      try {
+        content = fs.readFileSync(options.fixturesPath, 'utf8');
+      } catch (e: any) {
+        throw new Error(`Could not read mock translation fixtures from ${options.fixturesPath}: ${e.message}`);
+      }
+      try {
+        this.fixtures = JSON.parse(content);
+      } catch (e: any) {
+        throw new Error(`Failed to parse mock translation fixtures in ${options.fixturesPath}: ${e.message}`);
+      }
+    }
+  }
+
+  /**
+   * Returns deterministic translations without any network access. With fixtures, strings missing
+   * from the fixtures file are left out of the response so they are reported as failed.
+   * @param requests Array of translation requests containing key, text, and target languages.
+   * @param sourceLanguage The language code of the original text (e.g., "en").
+   * @returns A promise that resolves to the batch translation response.
+   */
+  async getBatchTranslations(requests: TranslationRequest[], sourceLanguage: string = "en"): Promise<BatchTranslationResponse> {
+    const allTargetLanguages = [...new Set(requests.flatMap(req => req.targetLanguages))];
+    log.info(`Generating mock translations for ${requests.length} strings from ${sourceLanguage} to languages: ${allTargetLanguages.join(', ')}`);
+
+    const translations: TranslationResult[] = [];
+    for (const request of requests) {
+      const result: TranslationResult = { key: request.key, translations: {} };
+      if (request.unitPath) {
+        result.unitPath = request.unitPath;
+      }
+      for (const lang of request.targetLanguages) {
+        const translated = this.fixtures
+          ? this.fixtures[lang]?.[getFixtureKey(request.key, request.unitPath)]
+          : `[${lang}] ${request.text}`;
+        if (translated !== undefined) {
+          result.translations[lang] = translated;
+        }
+      }
+      if (Object.keys(result.translations).length > 0) {
+        translations.push(result);
+      }
+    }
+    return { translations };
+  }
+}
@@ -1,41 +1,118 @@
-import * as core from '@actions/core';
-import OpenAI from 'openai';
+import * as log from '../helpers/logger';
+import OpenAI, { AzureOpenAI } from 'openai';
 import { TranslationRequest, BatchTranslationResponse } from '../types';
+import { withRetry, parseRetryAfter, RetryOptions } from '../helpers/retry';
+import { buildTranslationPrompt, buildTranslationSchema, parseTranslationResponse, TranslationResponseError } from '../helpers/translationPrompt';
+import { TranslationProvider } from './translationProvider';
+
+export interface OpenAIServiceOptions {
+  /** Custom API base URL; for Azure OpenAI, the resource endpoint. */
+  baseUrl?: string;
+  /** Use Azure OpenAI, authenticated with `AZURE_OPENAI_API_KEY`. */
+  azure?: boolean;
+  apiVersion?: string;
+  deploymentName?: string;
+  /** Use a self-hosted OpenAI-compatible server (e.g. Ollama, vLLM); `OPENAI_API_KEY` is optional. */
+  compatible?: boolean;
+  retryOptions?: Pick<RetryOptions, 'maxAttempts' | 'baseDelayMs' | 'maxDelayMs'>;
+}
 
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY || "";
-
-let openai: OpenAI | undefined;
+const RETRYABLE_STATUS_CODES = [408, 409, 429];
+
+const DEFAULT_RETRY_OPTIONS: Pick<RetryOptions, 'maxAttempts' | 'baseDelayMs' | 'maxDelayMs'> = {
+  maxAttempts: 5,
+  baseDelayMs: 1000,
+  maxDelayMs: 60000
+};
+
+/**
+ * Checks whether an OpenAI API error is worth retrying: rate limits, timeouts, conflicts,
+ * server errors and connection failures.
+ * @param error The error thrown by the OpenAI client
+ * @returns True if the request should be retried
+ */
+export function isRetryableOpenAIError(error: unknown): boolean {
+  if (error instanceof OpenAI.APIConnectionError) {
+    return !(error instanceof OpenAI.APIUserAbortError);
+  }
+  if (error instanceof OpenAI.APIError && error.status !== undefined) {
+    return RETRYABLE_STATUS_CODES.includes(error.status) || error.status >= 500;
+  }
+  return false;
+}
 
-if (OPENAI_API_KEY) {
-  openai = new OpenAI({
-    apiKey: OPENAI_API_KEY,
-  });
-} else {
-  core.warning('OpenAI API key is not set. Real translations will not be available.');
+/**
+ * Reads the delay the server asked for through the `retry-after-ms` or `Retry-After` headers.
+ * @param error The error thrown by the OpenAI client
+ * @returns The delay in milliseconds, if the server provided one
+ */
+export function getOpenAIRetryAfterMs(error: unknown): number | undefined {
+  if (!(error instanceof OpenAI.APIError) || !error.headers) {
+    return undefined;
+  }
+  const retryAfterMs = Number(error.headers['retry-after-ms']);
+  if (error.headers['retry-after-ms'] && !Number.isNaN(retryAfterMs)) {
+    return retryAfterMs;
+  }
+  return parseRetryAfter(error.headers['retry-after']);
 }
 
-export class OpenAIService {
+export class OpenAIService implements TranslationProvider {
+  readonly name: string;
   private model: string;
+  private client: OpenAI;
+  private retryOptions: Pick<RetryOptions, 'maxAttempts' | 'baseDelayMs' | 'maxDelayMs'>;
 
-  constructor(model: string) {
-    if (!openai) {
-      throw new Error('OpenAI client is not initialized. Please ensure OPENAI_API_KEY environment variable is set with a valid API key.');
-    }
+  constructor(model: string, options: OpenAIServiceOptions = {}) {
     this.model = model;
+    this.retryOptions = options.retryOptions ?? DEFAULT_RETRY_OPTIONS;
+    const openaiApiKey = process.env.OPENAI_API_KEY || '';
+
+    // Clients are created with maxRetries: 0; retries are handled here so they can honor Retry-After and be logged
+    if (options.azure) {
+      const apiKey = process.env.AZURE_OPENAI_API_KEY;
+      const endpoint = options.baseUrl || process.env.AZURE_OPENAI_ENDPOINT;
+      if (!apiKey || !endpoint) {
+        throw new Error('Azure OpenAI client is not initialized. Please set the AZURE_OPENAI_API_KEY environment variable and the provider_base_url input (or AZURE_OPENAI_ENDPOINT) to your resource endpoint.');
+      }
+      this.name = 'Azure OpenAI';
+      this.client = new AzureOpenAI({
+        apiKey,
+        endpoint,
+        apiVersion: options.apiVersion || process.env.OPENAI_API_VERSION || '2024-10-21',
+        deployment: options.deploymentName || model,
+        maxRetries: 0
+      });
+    } else if (options.compatible) {
+      if (!options.baseUrl) {
+        throw new Error('The openai-compatible provider requires the provider_base_url input (e.g. http://localhost:11434/v1 for Ollama).');
+      }
+      this.name = 'OpenAI-compatible server';
+      this.client = new OpenAI({
+        apiKey: openaiApiKey || 'not-needed',
+        baseURL: options.baseUrl,
+        maxRetries: 0
+      });
+    } else {
+      if (!openaiApiKey) {
+        throw new Error('OpenAI client is not initialized. Please ensure OPENAI_API_KEY environment variable is set with a valid API key.');
+      }
+      this.name = 'OpenAI';
+      this.client = new OpenAI({ apiKey: openaiApiKey, baseURL: options.baseUrl, maxRetries: 0 });
+    }
   }
 
   /**
    * Translates multiple strings to multiple target languages using OpenAI structured outputs in a single API call.
+   * Rate limits and transient server errors are retried with exponential backoff, honoring `Retry-After`.
+   * When the response is truncated (`finish_reason: length`) or malformed, the complete results it
+   * contains are returned and the remaining strings are left for the caller to request again.
    * @param requests Array of translation requests containing key, text, and target languages.
    * @param sourceLanguage The language code of the original text (e.g., "en").
    * @param baseSystemPrompt Additional system prompt for context.
    * @returns A promise that resolves to the batch translation response.
    */
   async getBatchTranslations(requests: TranslationRequest[], sourceLanguage: string = "en", baseSystemPrompt: string = ""): Promise<BatchTranslationResponse> {
-    if (!openai) {
-      throw new Error('OpenAI client not initialized. Please ensure OPENAI_API_KEY environment variable is set with a valid API key.');
-    }
-
     if (requests.length === 0) {
       return { translations: [] };
     }
@@ -43,99 +120,55 @@ export class OpenAIService {
     // Get all unique target languages from all requests
     const allTargetLanguages = [...new Set(requests.flatMap(req => req.targetLanguages))];
     
-    core.info(`Requesting batch translation for ${requests.length} strings from ${sourceLanguage} to languages: ${allTargetLanguages.join(', ')}`);
+    log.info(`Requesting batch translation from ${this.name} for ${requests.length} strings from ${sourceLanguage} to languages: ${allTargetLanguages.join(', ')}`);
 
-    // Create the schema for structured output
-    const translationSchema = {
-      type: "object",
-      properties: {
-        translations: {
-          type: "array",
-          items: {
-            type: "object",
-            properties: {
-              key: {
-                type: "string",
-                description: "The original key/identifier for the string"
-              },
-              translations: {
-                type: "object",
-                properties: Object.fromEntries(
-                  allTargetLanguages.map(lang => [
-                    lang,
-                    {
-                      type: "string",
-                      description: `Translation in ${lang}`
-                    }
-                  ])
-                ),
-                required: allTargetLanguages,
-                additionalProperties: false
-              }
-            },
-            required: ["key", "translations"],
-            additionalProperties: false
-          }
-        }
-      },
-      required: ["translations"],
-      additionalProperties: false
-    };
-
-    const stringsToTranslate = requests.map(req => {
-    let entry = `Key: "${req.key}"\nText: "${req.text}"`;
-      if (req.comment) {
-        entry += `\nContext: "${req.comment}"`;
-      }
-      return entry;
-    }).join('\n\n');
-    
-    const systemPrompt = `You are a professional translator. Translate the following strings from ${sourceLanguage} to the specified target languages: ${allTargetLanguages.join(', ')}.
-
-For each string, provide accurate, natural translations that preserve the meaning and context. If a string contains placeholders (like %@, %d, {0}, etc.), keep them exactly as they are in the translation.
-
-When a Context is provided, use it to inform your translation choices for better accuracy and appropriateness.
-
-Return the translations in the exact JSON structure specified.`;
-
-    const userPrompt = `Translate these strings:\n\n${stringsToTranslate}`;
-
-    const messages: Array<{ role: 'system' | 'user'; content: string }> = [];
-    
-    if (baseSystemPrompt.trim()) {
-      messages.push({ role: 'system', content: baseSystemPrompt.trim() });
-    }
-    
-    messages.push({ role: 'system', content: systemPrompt });
-    messages.push({ role: 'user', content: userPrompt });
+    const { systemPrompts, userPrompt } = buildTranslationPrompt(requests, sourceLanguage, allTargetLanguages, baseSystemPrompt);
+    const messages: Array<{ role: 'system' | 'user'; content: string }> = [
+      ...systemPrompts.map(content => ({ role: 'system' as const, content })),
+      { role: 'user', content: userPrompt }
+    ];
 
     try {
-      const chatCompletion = await openai.chat.completions.create({
+      const chatCompletion = await withRetry(() => this.client.chat.completions.create({
         model: this.model,
         messages: messages,
         response_format: {
           type: "json_schema",
           json_schema: {
             name: "batch_translation",
-            schema: translationSchema,
+            schema: buildTranslationSchema(allTargetLanguages),
             strict: true
           }
         }
+      }), {
+        ...this.retryOptions,
+        isRetryable: isRetryableOpenAIError,
+        getRetryAfterMs: getOpenAIRetryAfterMs,
+        onRetry: (error, attempt, delayMs) => {
+          log.warning(`${this.name} request failed (${error instanceof Error ? error.message : String(error)}). Retrying in ${delayMs}ms (attempt ${attempt + 1} of ${this.retryOptions.maxAttempts}).`);
+        }
       });
 
-      const responseContent = chatCompletion.choices[0]?.message?.content;
+      const usage = {
+        requests: 1,
+        promptTokens: chatCompletion.usage?.prompt_tokens ?? 0,
+        completionTokens: chatCompletion.usage?.completion_tokens ?? 0,
+        characters: 0
+      };
+      const choice = chatCompletion.choices[0];
+      const responseContent = choice?.message?.content;
       if (!responseContent) {
-        throw new Error('No content in OpenAI response');
+        throw new TranslationResponseError(`No content in ${this.name} response`, usage);
       }
 
-      const batchResponse: BatchTranslationResponse = JSON.parse(responseContent);
+      const batchResponse = parseTranslationResponse(responseContent, choice.finish_reason === 'length', requests.length, this.name, usage);
       
-      core.info(`Received batch translations for ${batchResponse.translations.length} strings`);
+      log.info(`Received batch translations for ${batchResponse.translations.length} strings`);
       return batchResponse;
 
     } catch (error) {
-      core.error(`Error in batch translation: ${error instanceof Error ? error.message : String(error)}`);
+      log.error(`Error in batch translation: ${error instanceof Error ? error.message : String(error)}`);
       throw error;
     }
   }
-} 
\ No newline at end of file
+}
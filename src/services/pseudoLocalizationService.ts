@@ -0,0 +1,33 @@
+import * as log from '../helpers/logger';
+import { TranslationRequest, BatchTranslationResponse } from '../types';
+import { isRtlPseudoLocale, pseudoLocalize } from '../helpers/pseudoLocalizer';
+import { TranslationProvider } from './translationProvider';
+
+/**
+ * Generates pseudo-locales (e.g. `en-XA`, `ar-XB`) locally from the source text. Nothing is sent
+ * to a translation API, so pseudo-locales can be added to a project before paying for real translations.
+ */
+export class PseudoLocalizationService implements TranslationProvider {
+  readonly name = 'Pseudo-localization';
+
+  /**
+   * Pseudo-localizes every requested string, mirroring it for right-to-left pseudo-locales.
+   * @param requests Array of translation requests containing key, text, and target languages.
+   * @param sourceLanguage The language code of the original text (e.g., "en").
+   * @returns A promise that resolves to the batch translation response.
+   */
+  async getBatchTranslations(requests: TranslationRequest[], sourceLanguage: string = "en"): Promise<BatchTranslationResponse> {
+    const allTargetLanguages = [...new Set(requests.flatMap(req => req.targetLanguages))];
+    log.info(`Generating pseudo-localizations for ${requests.length} strings from ${sourceLanguage} to languages: ${allTargetLanguages.join(', ')}`);
+
+    return {
+      translations: requests.map(request => ({
+        key: request.key,
+        ...(request.unitPath ? { unitPath: request.unitPath } : {}),
+        translations: Object.fromEntries(
+          request.targetLanguages.map(lang => [lang, pseudoLocalize(request.text, { rtl: isRtlPseudoLocale(lang) })])
+        )
+      }))
+    };
+  }
+}
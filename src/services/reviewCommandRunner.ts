@@ -0,0 +1,233 @@
+import * as fs from 'fs';
+import * as log from '../helpers/logger';
+import { Localization, TranslationRequest, XCStrings } from '../types';
+import { formatXcstringsJson } from '../helpers/xcstringsFormatter';
+import { getEntrySourceStringUnits, getStringUnitAtPath, hasIncompletePlurals, setStringUnitAtPath, SourceStringUnit } from '../helpers/localizationTree';
+import { validateTranslation } from '../helpers/translationValidator';
+import { applyGlossary } from '../helpers/glossary';
+import { TranslationMemory } from '../helpers/translationMemory';
+import { LocalizerSettings } from '../helpers/settings';
+import { ParsedReviewCommand, ReviewCommand, ReviewCommandResult } from '../helpers/reviewCommands';
+import { CatalogSource } from './localizationRunner';
+import { fetchValidatedTranslations } from './localizationManager';
+import { getProviderForLanguage, isPlaceholderProvider } from './translationProvider';
+
+export interface ReviewCommandRunResult {
+  results: ReviewCommandResult[];
+  /** Catalogs and translation memory written. */
+  changedFiles: string[];
+}
+
+/** A string unit a command changes in one catalog. */
+interface CommandTarget {
+  catalog: CatalogSource;
+  entry: XCStrings['strings'][string];
+  language: string;
+  /** The target-language localization, attached to the entry once a unit is written. */
+  localization: Localization;
+  sourceLocalization?: Localization;
+  comment?: string;
+  units: SourceStringUnit[];
+}
+
+/**
+ * Applies review commands posted on a pull request to the catalogs: `/set` writes the given
+ * translation after validating its placeholders, `/retranslate` requests a new translation with
+ * the reviewer's hint as context. Commands apply to every catalog with the key, in the order they
+ * were posted. The updated catalogs and translation memory are written to disk; the memory
+ * remembers the new translations so later runs reuse them.
+ * @param commands The parsed commands
+ * @param catalogs The catalogs of the pull request
+ * @param settings The resolved run settings
+ * @returns The result of each command and the files written
+ */
+export async function runReviewCommands(commands: ParsedReviewCommand[], catalogs: CatalogSource[], settings: LocalizerSettings): Promise<ReviewCommandRunResult> {
+  const translationMemory = settings.translationMemoryPath ? TranslationMemory.load(settings.translationMemoryPath) : undefined;
+  const changedCatalogs: Set<CatalogSource> = new Set();
+  const results: ReviewCommandResult[] = [];
+
+  for (const parsed of commands) {
+    if ('error' in parsed) {
+      results.push({ line: parsed.line, succeeded: false, message: parsed.error });
+      continue;
+    }
+
+    const { line, command } = parsed;
+    log.info(`Running ${line}`);
+    let changes: string[];
+    try {
+      const targets = findTargets(command, catalogs, settings.targetLanguages);
+      changes = command.action === 'set'
+        ? setTranslation(command, targets)
+        : await retranslate(command, targets, settings);
+
+      for (const target of targets) {
+        changedCatalogs.add(target.catalog);
+        for (const unit of target.units) {
+          const value = getStringUnitAtPath(target.localization, unit.path)?.value;
+          const placeholder = command.action === 'retranslate' && isPlaceholderProvider(getProviderForLanguage(command.language, settings.providerConfig));
+          if (value && !placeholder) {
+            translationMemory?.record(unit.text, unit.path, target.comment, command.language, value);
+          }
+        }
+      }
+    } catch (e: any) {
+      log.warning(`${line} failed: ${e.message}`);
+      results.push({ line, command, succeeded: false, message: e.message });
+      continue;
+    }
+    results.push({ line, command, succeeded: true, message: changes.join('\n') });
+  }
+
+  const changedFiles: string[] = [];
+  for (const catalog of changedCatalogs) {
+    try {
+      fs.writeFileSync(catalog.filePath, formatXcstringsJson(catalog.currentXcstringsData));
+    } catch (e: any) {
+      throw new Error(`Error writing updated ${catalog.filePath}: ${e.message}`);
+    }
+    changedFiles.push(catalog.filePath);
+  }
+  if (translationMemory?.hasChanges && settings.translationMemoryPath && changedFiles.length > 0) {
+    translationMemory.save(settings.translationMemoryPath);
+    changedFiles.push(settings.translationMemoryPath);
+  }
+  return { results, changedFiles };
+}
+
+/**
+ * Finds the string units a command changes in each catalog with its key.
+ * @throws When the key, language or string unit does not exist, or the string is not translatable
+ */
+function findTargets(command: ReviewCommand, catalogs: CatalogSource[], targetLanguages: string[]): CommandTarget[] {
+  if (!targetLanguages.includes(command.language)) {
+    throw new Error(`\`${command.language}\` is not a target language. Expected one of: ${targetLanguages.join(', ')}.`);
+  }
+
+  const targets: CommandTarget[] = [];
+  for (const catalog of catalogs) {
+    const xcstringsData: XCStrings = catalog.currentXcstringsData;
+    const entry = xcstringsData.strings[command.key];
+    if (!entry) {
+      continue;
+    }
+    if (entry.shouldTranslate === false) {
+      throw new Error(`\`${command.key}\` is marked as not translatable in ${catalog.filePath}.`);
+    }
+
+    const units = getEntrySourceStringUnits(entry, command.key, xcstringsData.sourceLanguage, command.language);
+    const selected = command.unitPath === undefined ? units : units.filter(unit => unit.path === command.unitPath);
+    if (selected.length === 0) {
+      throw new Error(`\`${command.key}\` has no \`${command.unitPath}\` form in ${command.language}. Expected one of: ${units.map(unit => unit.path).join(', ')}.`);
+    }
+    if (command.action === 'set' && selected.length > 1) {
+      throw new Error(`\`${command.key}\` varies by plural or device in ${catalog.filePath}. Add the form to the key, e.g. \`/set "${command.key} [${selected[0].path}]" ${command.language} "…"\`.`);
+    }
+
+    targets.push({
+      catalog,
+      entry,
+      language: command.language,
+      localization: entry.localizations?.[command.language] ?? {},
+      sourceLocalization: entry.localizations?.[xcstringsData.sourceLanguage],
+      comment: entry.comment,
+      units: selected
+    });
+  }
+
+  if (targets.length === 0) {
+    throw new Error(`\`${command.key}\` is not in any catalog (${catalogs.map(catalog => catalog.filePath).join(', ')}).`);
+  }
+  return targets;
+}
+
+function setTranslation(command: Extract<ReviewCommand, { action: 'set' }>, targets: CommandTarget[]): string[] {
+  for (const target of targets) {
+    const issues = validateTranslation(target.units[0].text, command.value);
+    if (issues.length > 0) {
+      throw new Error(`"${command.value}" does not match the source text "${target.units[0].text}": ${issues.join('; ')}.`);
+    }
+    checkPluralsComplete(command, target);
+  }
+
+  return targets.map(target => writeTranslation(target, target.units[0], command.value));
+}
+
+async function retranslate(command: Extract<ReviewCommand, { action: 'retranslate' }>, targets: CommandTarget[], settings: LocalizerSettings): Promise<string[]> {
+  // Every catalog is translated before any is changed, so a failure leaves them all untouched
+  const pending: { target: CommandTarget, unit: SourceStringUnit, value: string }[] = [];
+  for (const target of targets) {
+    const sourceLanguage = target.catalog.currentXcstringsData.sourceLanguage;
+    const requests: TranslationRequest[] = target.units.map(unit => {
+      const current = getStringUnitAtPath(target.localization, unit.path)?.value;
+      // The feedback travels with the string's comment, which the prompt already presents as context
+      const feedback = [
+        current ? `A reviewer rejected the translation "${current}".` : 'A reviewer asked for a new translation.',
+        command.hint ? `Reviewer feedback: ${command.hint}` : ''
+      ].filter(text => text).join(' ');
+      return {
+        key: command.key,
+        text: unit.text,
+        targetLanguages: [command.language],
+        comment: target.comment ? `${target.comment}\n\n${feedback}` : feedback,
+        ...(unit.path ? { unitPath: unit.path } : {})
+      };
+    });
+
+    const response = await fetchValidatedTranslations(
+      settings.glossary ? applyGlossary(requests, settings.glossary) : requests,
+      sourceLanguage,
+      settings.providerConfig,
+      settings.baseSystemPrompt,
+      settings.batchOptions,
+      settings.languageStyles
+    );
+    const failure = response.validationFailures[0];
+    if (failure) {
+      throw new Error(`The new translation "${failure.translation}" was rejected: ${failure.issues.join('; ')}.`);
+    }
+
+    const translated = new Map(response.translations.map(result => [result.unitPath ?? '', result.translations[command.language]]));
+    const missing = target.units.filter(unit => !translated.get(unit.path));
+    if (missing.length > 0) {
+      throw new Error(`The provider returned no translation for ${missing.map(unit => unit.path || command.key).join(', ')}.`);
+    }
+    checkPluralsComplete(command, target);
+    pending.push(...target.units.map(unit => ({ target, unit, value: translated.get(unit.path)! })));
+  }
+
+  return pending.map(({ target, unit, value }) => writeTranslation(target, unit, value));
+}
+
+/**
+ * Checks that writing a target's units leaves no plural without the `other` form, which Xcode
+ * requires, e.g. when only `plural.one` is set for a language without a translation yet.
+ * @throws When a plural would lack the `other` form
+ */
+function checkPluralsComplete(command: ReviewCommand, target: CommandTarget): void {
+  const localization: Localization = JSON.parse(JSON.stringify(target.localization));
+  for (const unit of target.units) {
+    setStringUnitAtPath(localization, unit.path, { state: 'translated', value: unit.text }, target.sourceLocalization);
+  }
+  if (!hasIncompletePlurals(localization)) {
+    return;
+  }
+
+  const otherPath = target.units.map(unit => unit.path).find(path => /(^|\.)plural\.[^.]+$/.test(path))?.replace(/[^.]+$/, 'other');
+  const example = otherPath ? `, e.g. \`/set "${command.key} [${otherPath}]" ${command.language} "…"\`` : '';
+  throw new Error(`\`${command.key}\` has no \`other\` plural form in ${command.language} in ${target.catalog.filePath}, which Xcode requires. Set the \`other\` form first${example}.`);
+}
+
+/**
+ * Writes a translation to a string unit as translated.
+ * @returns A description of the change for the reply
+ */
+function writeTranslation(target: CommandTarget, unit: SourceStringUnit, value: string): string {
+  const previous = getStringUnitAtPath(target.localization, unit.path)?.value;
+  setStringUnitAtPath(target.localization, unit.path, { state: 'translated', value }, target.sourceLocalization);
+  target.entry.localizations = { ...target.entry.localizations, [target.language]: target.localization };
+
+  const form = unit.path ? ` [${unit.path}]` : '';
+  const change = previous && previous !== value ? `"${previous}" → "${value}"` : `"${value}"`;
+  return `${target.catalog.filePath}${form}: ${change}`;
+}
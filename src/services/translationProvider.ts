@@ -0,0 +1,176 @@
+import { TranslationRequest, BatchTranslationResponse } from '../types';
+import { OpenAIService } from './openaiService';
+import { AnthropicService } from './anthropicService';
+import { DeepLService } from './deeplService';
+import { MockTranslationService } from './mockTranslationService';
+import { PseudoLocalizationService } from './pseudoLocalizationService';
+import { LanguageStyles } from '../helpers/languageStyles';
+
+export const PROVIDER_NAMES = ['openai', 'azure-openai', 'anthropic', 'openai-compatible', 'deepl', 'mock', 'pseudo'] as const;
+
+export type ProviderName = typeof PROVIDER_NAMES[number];
+
+/** Providers that translate with a model chosen by name. */
+const MODEL_PROVIDERS: ProviderName[] = ['openai', 'azure-openai', 'anthropic', 'openai-compatible'];
+
+/** Providers whose output only stands in for real translations. */
+const PLACEHOLDER_PROVIDERS: ProviderName[] = ['mock', 'pseudo'];
+
+/** Providers that accept the same model names. */
+const MODEL_FAMILIES: ProviderName[][] = [['openai', 'azure-openai']];
+
+export interface ProviderConfig {
+  provider: ProviderName;
+  /** Model name; for Azure OpenAI, the deployment's model when `deploymentName` is not set. */
+  model: string;
+  /** API endpoint: the Azure resource endpoint, the self-hosted server URL, or a custom Anthropic/DeepL server. */
+  baseUrl?: string;
+  /** Azure OpenAI API version. */
+  apiVersion?: string;
+  /** Azure OpenAI deployment name. */
+  deploymentName?: string;
+  /** Providers for specific target languages, overriding `provider` (e.g. `{ de: 'deepl' }`). */
+  languageProviders?: { [languageCode: string]: ProviderName };
+  /** Models of the providers used through `languageProviders` (e.g. `{ anthropic: 'claude-3-5-haiku-latest' }`). */
+  providerModels?: { [provider in ProviderName]?: string };
+  /** Fixtures file for the offline `mock` provider. */
+  mockFixturesPath?: string;
+}
+
+/**
+ * A translation backend. Every provider returns results in the `BatchTranslationResponse` shape,
+ * echoing each request's key and unit path.
+ */
+export interface TranslationProvider {
+  readonly name: string;
+  getBatchTranslations(requests: TranslationRequest[], sourceLanguage: string, baseSystemPrompt: string): Promise<BatchTranslationResponse>;
+}
+
+/**
+ * Checks whether a string names a supported translation provider.
+ * @param name The provider name to check
+ * @returns True if the provider is supported
+ */
+export function isProviderName(name: string): name is ProviderName {
+  return (PROVIDER_NAMES as readonly string[]).includes(name);
+}
+
+/**
+ * Checks whether a provider translates with a model chosen by name.
+ * @param name The provider name
+ * @returns True for the LLM providers
+ */
+export function providerUsesModel(name: ProviderName): boolean {
+  return MODEL_PROVIDERS.includes(name);
+}
+
+/**
+ * Checks whether a provider only stands in for real translations (the offline `mock` provider and
+ * pseudo-localization), so its output must not be reused as a translation.
+ * @param name The provider name
+ * @returns True for the placeholder providers
+ */
+export function isPlaceholderProvider(name: ProviderName): boolean {
+  return PLACEHOLDER_PROVIDERS.includes(name);
+}
+
+/**
+ * Returns the model a provider translates with: its entry in `providerModels`, else the main
+ * `model` when the provider accepts the main provider's model names.
+ * @param name The provider name
+ * @param config The provider configuration
+ * @returns The model, or undefined when the provider has none or no usable one is configured
+ */
+export function getProviderModel(name: ProviderName, config: ProviderConfig): string | undefined {
+  if (!providerUsesModel(name)) {
+    return undefined;
+  }
+  const sharesModels = name === config.provider || MODEL_FAMILIES.some(family => family.includes(name) && family.includes(config.provider));
+  return config.providerModels?.[name] ?? (sharesModels ? config.model : undefined);
+}
+
+/**
+ * Creates a translation provider. Endpoint settings (`baseUrl`, `apiVersion`, `deploymentName`)
+ * only apply to the configured main provider; providers used through `languageProviders` run with
+ * their defaults, their model from `providerModels` and API keys from the environment.
+ * @param name The provider to create
+ * @param config The provider configuration
+ * @param languageStyles Style settings per target language, for providers that take them as options
+ * @returns The translation provider
+ */
+export function createTranslationProvider(name: ProviderName, config: ProviderConfig, languageStyles: LanguageStyles = {}): TranslationProvider {
+  const endpoint = name === config.provider
+    ? { baseUrl: config.baseUrl, apiVersion: config.apiVersion, deploymentName: config.deploymentName }
+    : {};
+  const model = getProviderModel(name, config) ?? config.model;
+
+  switch (name) {
+    case 'openai':
+      return new OpenAIService(model, { baseUrl: endpoint.baseUrl });
+    case 'azure-openai':
+      return new OpenAIService(model, { azure: true, ...endpoint });
+    case 'openai-compatible':
+      return new OpenAIService(model, { compatible: true, baseUrl: endpoint.baseUrl });
+    case 'anthropic':
+      return new AnthropicService(model, { baseUrl: endpoint.baseUrl });
+    case 'deepl':
+      return new DeepLService({ baseUrl: endpoint.baseUrl, languageStyles });
+    case 'mock':
+      return new MockTranslationService({ fixturesPath: config.mockFixturesPath });
+    case 'pseudo':
+      return new PseudoLocalizationService();
+  }
+}
+
+/**
+ * Returns the provider responsible for a target language.
+ * @param languageCode The target language code
+ * @param config The provider configuration
+ * @returns The provider name
+ */
+export function getProviderForLanguage(languageCode: string, config: ProviderConfig): ProviderName {
+  return config.languageProviders?.[languageCode] ?? config.provider;
+}
+
+/**
+ * Parses per-language provider overrides given as comma-separated `language:provider` pairs (e.g. "de:deepl,fr:deepl").
+ * @param input The raw input value
+ * @returns The provider for each listed language
+ */
+export function parseLanguageProviders(input: string): { [languageCode: string]: ProviderName } {
+  const languageProviders: { [languageCode: string]: ProviderName } = {};
+  for (const entry of input.split(',').map(item => item.trim()).filter(item => item)) {
+    const [languageCode, providerName] = entry.split(':').map(part => part.trim());
+    if (!languageCode || !providerName) {
+      throw new Error(`Invalid language_providers entry '${entry}'. Expected 'language:provider', e.g. 'de:deepl'.`);
+    }
+    if (!isProviderName(providerName)) {
+      throw new Error(`Invalid provider '${providerName}' for language '${languageCode}' in language_providers. Expected one of: ${PROVIDER_NAMES.join(', ')}.`);
+    }
+    languageProviders[languageCode] = providerName;
+  }
+  return languageProviders;
+}
+
+/**
+ * Parses the models of override providers given as comma-separated `provider:model` pairs
+ * (e.g. "anthropic:claude-3-5-haiku-latest"). Model names may contain colons, as in "llama3.1:8b".
+ * @param input The raw input value
+ * @returns The model of each listed provider
+ */
+export function parseProviderModels(input: string): { [provider in ProviderName]?: string } {
+  const providerModels: { [provider in ProviderName]?: string } = {};
+  for (const entry of input.split(',').map(item => item.trim()).filter(item => item)) {
+    const separator = entry.indexOf(':');
+    const providerName = entry.slice(0, separator).trim();
+    const model = entry.slice(separator + 1).trim();
+    if (separator === -1 || !providerName || !model) {
+      throw new Error(`Invalid provider_models entry '${entry}'. Expected 'provider:model', e.g. 'anthropic:claude-3-5-haiku-latest'.`);
+    }
+    if (!isProviderName(providerName) || !providerUsesModel(providerName)) {
+      throw new Error(`Invalid provider '${providerName}' in provider_models. Expected one of: ${MODEL_PROVIDERS.join(', ')}.`);
+    }
+    providerModels[providerName] = model;
+  }
+  return providerModels;
+}
@@ -0,0 +1,159 @@
+import { estimateCompletionTokens, estimateTextTokens } from '../helpers/batchChunker';
+import { buildTranslationPrompt, buildTranslationSchema } from '../helpers/translationPrompt';
+import { ProviderUsage, TranslationChunk } from './localizationManager';
+import { getProviderModel, ProviderConfig, ProviderName } from './translationProvider';
+
+/** Prices in US dollars per million tokens. */
+export interface TokenPrices {
+  input: number;
+  output: number;
+}
+
+/**
+ * Prices that replace the built-in list, per provider and model name prefix, e.g.
+ * `{ 'openai-compatible': { 'llama3.1': { input: 0.2, output: 0.2 } } }`.
+ */
+export type TokenPriceOverrides = { [provider in ProviderName]?: { [modelPrefix: string]: TokenPrices } };
+
+/**
+ * List prices of common models, matched by model name prefix. Prices change; set `token_prices`
+ * for other models or to reflect your own rates.
+ */
+export const MODEL_TOKEN_PRICES: { [modelPrefix: string]: TokenPrices } = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-opus-4': { input: 15, output: 75 }
+};
+
+/** Providers that translate locally and make no API calls. */
+const LOCAL_PROVIDERS: ProviderName[] = ['mock', 'pseudo'];
+
+/** The usage of one provider: estimated for dry runs, as reported by the provider for real runs. */
+export interface UsageEstimate {
+  provider: ProviderName;
+  /** The model, empty for DeepL. */
+  model: string;
+  /** Number of API calls. */
+  batches: number;
+  promptTokens: number;
+  completionTokens: number;
+  /** Source characters billed by DeepL, counted once per target language. */
+  characters: number;
+  /** Estimated cost in US dollars, when the model's prices are known. */
+  estimatedCost?: number;
+}
+
+/**
+ * Looks up the token prices of a model, preferring the overrides given for its provider.
+ * @param provider The provider the model is used with
+ * @param model The model name, e.g. "gpt-4o-mini-2024-07-18"
+ * @param overrides Prices to use instead of the built-in list
+ * @returns The prices, or undefined for unknown models
+ */
+export function getTokenPrices(provider: ProviderName, model: string, overrides?: TokenPriceOverrides): TokenPrices | undefined {
+  return findPrices(overrides?.[provider] ?? {}, model) ?? findPrices(MODEL_TOKEN_PRICES, model);
+}
+
+function findPrices(prices: { [modelPrefix: string]: TokenPrices }, model: string): TokenPrices | undefined {
+  const prefix = Object.keys(prices)
+    .filter(modelPrefix => model.startsWith(modelPrefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? prices[prefix] : undefined;
+}
+
+/**
+ * Estimates the tokens, characters and cost of sending translation batches, without calling any
+ * provider. Prompt tokens are estimated from the prompts the batches would be sent with, so the
+ * estimate includes the instructions and output schema repeated in every batch.
+ * @param chunks The planned batches
+ * @param sourceLanguage The catalog's source language
+ * @param providerConfig The translation provider configuration
+ * @param tokenPrices Prices to use instead of the built-in list
+ * @returns One estimate per provider that makes API calls
+ */
+export function estimateUsage(chunks: TranslationChunk[], sourceLanguage: string, providerConfig: ProviderConfig, tokenPrices?: TokenPriceOverrides): UsageEstimate[] {
+  const estimates: Map<ProviderName, UsageEstimate> = new Map();
+  for (const chunk of chunks) {
+    if (LOCAL_PROVIDERS.includes(chunk.providerName)) {
+      continue;
+    }
+    let estimate = estimates.get(chunk.providerName);
+    if (!estimate) {
+      const model = getProviderModel(chunk.providerName, providerConfig) ?? '';
+      estimate = { provider: chunk.providerName, model, batches: 0, promptTokens: 0, completionTokens: 0, characters: 0 };
+      estimates.set(chunk.providerName, estimate);
+    }
+
+    estimate.batches++;
+    if (chunk.providerName === 'deepl') {
+      estimate.characters += chunk.requests.reduce((total, request) => total + request.text.length * request.targetLanguages.length, 0);
+      continue;
+    }
+    const targetLanguages = [...new Set(chunk.requests.flatMap(request => request.targetLanguages))];
+    const prompt = buildTranslationPrompt(chunk.requests, sourceLanguage, targetLanguages, chunk.systemPrompt);
+    estimate.promptTokens += estimateTextTokens(prompt.systemPrompts.join('\n\n') + prompt.userPrompt + JSON.stringify(buildTranslationSchema(targetLanguages)));
+    estimate.completionTokens += chunk.requests.reduce((total, request) => total + estimateCompletionTokens(request), 0);
+  }
+
+  return [...estimates.values()].map(estimate => addEstimatedCost(estimate, tokenPrices));
+}
+
+/**
+ * Prices the usage the providers reported for the translations of a real run.
+ * @param providerUsage The tokens and characters billed per provider
+ * @param providerConfig The translation provider configuration
+ * @param tokenPrices Prices to use instead of the built-in list
+ * @returns One usage record per provider, with the cost when the model's prices are known
+ */
+export function priceProviderUsage(providerUsage: ProviderUsage[], providerConfig: ProviderConfig, tokenPrices?: TokenPriceOverrides): UsageEstimate[] {
+  return providerUsage.map(usage => addEstimatedCost({
+    provider: usage.provider,
+    model: getProviderModel(usage.provider, providerConfig) ?? '',
+    batches: usage.requests,
+    promptTokens: usage.promptTokens,
+    completionTokens: usage.completionTokens,
+    characters: usage.characters
+  }, tokenPrices));
+}
+
+function addEstimatedCost(estimate: UsageEstimate, tokenPrices?: TokenPriceOverrides): UsageEstimate {
+  const prices = estimate.model ? getTokenPrices(estimate.provider, estimate.model, tokenPrices) : undefined;
+  if (prices) {
+    estimate.estimatedCost = (estimate.promptTokens * prices.input + estimate.completionTokens * prices.output) / 1_000_000;
+  }
+  return estimate;
+}
+
+/**
+ * Adds up estimates of the same provider, e.g. across catalogs. The cost stays unknown when any
+ * of the estimates has no cost.
+ * @param estimates The estimates to combine
+ * @returns One estimate per provider
+ */
+export function combineUsageEstimates(estimates: UsageEstimate[]): UsageEstimate[] {
+  const combined: Map<ProviderName, UsageEstimate> = new Map();
+  for (const estimate of estimates) {
+    const total = combined.get(estimate.provider);
+    if (!total) {
+      combined.set(estimate.provider, { ...estimate });
+      continue;
+    }
+    total.batches += estimate.batches;
+    total.promptTokens += estimate.promptTokens;
+    total.completionTokens += estimate.completionTokens;
+    total.characters += estimate.characters;
+    if (total.estimatedCost !== undefined && estimate.estimatedCost !== undefined) {
+      total.estimatedCost += estimate.estimatedCost;
+    } else {
+      delete total.estimatedCost;
+    }
+  }
+  return [...combined.values()];
+}
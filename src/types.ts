@@ -1,3 +1,34 @@
+export interface StringUnit {
+  state: string;
+  value: string;
+}
+
+export interface Variations {
+  plural?: {
+    [category: string]: VariationValue;
+  };
+  device?: {
+    [device: string]: VariationValue;
+  };
+}
+
+export interface VariationValue {
+  stringUnit?: StringUnit;
+  variations?: Variations;
+}
+
+export interface Substitution {
+  argNum?: number;
+  formatSpecifier: string;
+  variations?: Variations;
+}
+
+export interface Localization extends VariationValue {
+  substitutions?: {
+    [name: string]: Substitution;
+  };
+}
+
 export interface XCStrings {
   sourceLanguage: string;
   strings: {
@@ -6,27 +37,53 @@ export interface XCStrings {
       extractionState?: string;
       shouldTranslate?: boolean;
       localizations?: {
-        [lang: string]: {
-          stringUnit: {
-            state: string;
-            value: string;
-          };
-        };
+        [lang: string]: Localization;
       };
     };
   };
   version: string;
 }
 
+/** How existing translations are handled when their source text or comment changes. */
+export type ChangedSourceStrategy = 'retranslate' | 'needs_review';
+
+/** A glossary entry that enforces how a term is translated. */
+export interface GlossaryTerm {
+  term: string;
+  /** Required translation of the term per language code. */
+  translations?: {
+    [languageCode: string]: string;
+  };
+  /** Keep the term unchanged in every language (e.g. brand names). */
+  doNotTranslate?: boolean;
+  /** Match the term (and check its translations) case-sensitively. */
+  caseSensitive?: boolean;
+}
+
+/** Translation style for one target language. */
+export interface LanguageStyle {
+  /** Form of address, e.g. "Sie"/"vous" (formal) or "du"/"tu" (informal). */
+  formality?: 'formal' | 'informal';
+  /** Prefer gender-neutral wording where the language allows it. */
+  genderNeutral?: boolean;
+  /** Free-form instructions for this language. */
+  instructions?: string;
+}
+
 export interface TranslationRequest {
   key: string;
   text: string;
   targetLanguages: string[];
   comment?: string;
+  /** Location of the string unit inside the localization (e.g. `plural.few` or `substitutions.files.plural.one`), omitted for the top-level string unit. */
+  unitPath?: string;
+  /** Glossary terms found in the text. */
+  glossary?: GlossaryTerm[];
 }
 
 export interface TranslationResult {
   key: string;
+  unitPath?: string;
   translations: {
     [languageCode: string]: string;
   };
@@ -34,4 +91,26 @@ export interface TranslationResult {
 
 export interface BatchTranslationResponse {
   translations: TranslationResult[];
-} 
\ No newline at end of file
+  /** What the API call was billed for; omitted by providers that translate locally. */
+  usage?: TranslationUsage;
+  /** Whether the response was cut off at the provider's output token limit. */
+  truncated?: boolean;
+}
+
+/** Tokens and characters billed for translation API calls. */
+export interface TranslationUsage {
+  /** Number of API calls. */
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  /** Source characters billed by DeepL, counted once per target language. */
+  characters: number;
+}
+
+export interface TranslationValidationFailure {
+  key: string;
+  unitPath?: string;
+  language: string;
+  translation: string;
+  issues: string[];
+}
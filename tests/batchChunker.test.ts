@@ -0,0 +1,38 @@
+import { chunkTranslationRequests, estimateRequestTokens } from '../src/helpers/batchChunker';
+import { TranslationRequest } from '../src/types';
+
+describe('chunkTranslationRequests', () => {
+  const buildRequests = (count: number, text: string = 'Save'): TranslationRequest[] =>
+    Array.from({ length: count }, (_, index) => ({ key: `key_${index}`, text, targetLanguages: ['es', 'fr'] }));
+
+  test('should split requests by string count', () => {
+    const chunks = chunkTranslationRequests(buildRequests(5), { maxStrings: 2, maxTokens: 100000 });
+
+    expect(chunks.map(chunk => chunk.map(req => req.key))).toEqual([
+      ['key_0', 'key_1'],
+      ['key_2', 'key_3'],
+      ['key_4']
+    ]);
+  });
+
+  test('should split requests by estimated tokens', () => {
+    const requests = buildRequests(4, 'A fairly long sentence that needs to be translated into many languages.');
+    const tokensPerRequest = estimateRequestTokens(requests[0]);
+
+    const chunks = chunkTranslationRequests(requests, { maxStrings: 100, maxTokens: tokensPerRequest * 2 });
+
+    expect(chunks.map(chunk => chunk.length)).toEqual([2, 2]);
+  });
+
+  test('should keep an oversized request in a chunk of its own', () => {
+    const requests = [...buildRequests(1), { key: 'long', text: 'x'.repeat(4000), targetLanguages: ['es'] }, ...buildRequests(1)];
+
+    const chunks = chunkTranslationRequests(requests, { maxStrings: 100, maxTokens: 500 });
+
+    expect(chunks.map(chunk => chunk.map(req => req.key))).toEqual([['key_0'], ['long'], ['key_0']]);
+  });
+
+  test('should return no chunks for no requests', () => {
+    expect(chunkTranslationRequests([], { maxStrings: 10, maxTokens: 1000 })).toEqual([]);
+  });
+});
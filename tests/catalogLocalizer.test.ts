@@ -0,0 +1,165 @@
+jest.mock('@actions/core', () => ({
+  info: jest.fn(),
+  warning: jest.fn(),
+  error: jest.fn()
+}));
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { localizeCatalog, LocalizeCatalogOptions } from '../src/services/catalogLocalizer';
+import { DEFAULT_BATCH_OPTIONS } from '../src/services/localizationManager';
+import { generatePrDescription } from '../src/helpers/prDescriptionGenerator';
+import { formatXcstringsJson } from '../src/helpers/xcstringsFormatter';
+import { TranslationMemory } from '../src/helpers/translationMemory';
+import { XCStrings } from '../src/types';
+
+describe('localizeCatalog with the mock provider', () => {
+  const createCatalog = (): XCStrings => ({
+    sourceLanguage: 'en',
+    version: '1.0',
+    strings: {
+      'Hello': {
+        comment: 'Greeting on the home screen'
+      },
+      '%lld files': {
+        localizations: {
+          en: {
+            variations: {
+              plural: {
+                one: { stringUnit: { state: 'translated', value: '%lld file' } },
+                other: { stringUnit: { state: 'translated', value: '%lld files' } }
+              }
+            }
+          }
+        }
+      }
+    }
+  });
+
+  const options: LocalizeCatalogOptions = {
+    targetLanguages: ['de'],
+    providerConfig: { provider: 'mock', model: 'mock' },
+    baseSystemPrompt: '',
+    batchOptions: { ...DEFAULT_BATCH_OPTIONS, batchRetries: 0 },
+    changedSourceStrategy: 'retranslate'
+  };
+
+  test('should translate, write back and describe changes offline', async () => {
+    const result = await localizeCatalog(createCatalog(), options);
+
+    expect(result.updatedXcstringsData.strings['Hello'].localizations!['de']).toEqual({
+      stringUnit: { state: 'translated', value: '[de] Hello' }
+    });
+    expect(result.updatedXcstringsData.strings['%lld files'].localizations!['de'].variations!.plural).toEqual({
+      one: { stringUnit: { state: 'translated', value: '[de] %lld file' } },
+      other: { stringUnit: { state: 'translated', value: '[de] %lld files' } }
+    });
+    expect(result.translationChanges.added).toEqual(['Hello (de)', '%lld files (de)']);
+    expect(result.translationChanges.failed).toEqual([]);
+    expect(formatXcstringsJson(result.updatedXcstringsData)).toContain('"value" : "[de] Hello"');
+
+    const prBody = generatePrDescription('Automated PR with new translations.', [{ filePath: 'Localizable.xcstrings', translationChanges: result.translationChanges }], options.targetLanguages, ['Localizable.xcstrings']);
+    expect(prBody).toContain('### ✅ Added Translations (2)\n- Hello (de)\n- %lld files (de)\n');
+  });
+
+  test('should not remember mock and pseudo translations', async () => {
+    const translationMemory = new TranslationMemory();
+    const result = await localizeCatalog(createCatalog(), {
+      ...options,
+      targetLanguages: ['de', 'en-XA'],
+      providerConfig: { provider: 'mock', model: 'mock', languageProviders: { 'en-XA': 'pseudo' } },
+      translationMemory
+    });
+
+    expect(result.translationChanges.added).toHaveLength(4);
+    expect(translationMemory.size).toBe(0);
+    expect(translationMemory.hasChanges).toBe(false);
+  });
+
+  test('should describe each catalog in its own PR section', async () => {
+    const appResult = await localizeCatalog(createCatalog(), options);
+    const infoPlistResult = await localizeCatalog({
+      sourceLanguage: 'en',
+      version: '1.0',
+      strings: { 'CFBundleDisplayName': { comment: 'Bundle display name' } }
+    }, options);
+
+    const prBody = generatePrDescription('Automated PR with new translations.', [
+      { filePath: 'App/Localizable.xcstrings', translationChanges: appResult.translationChanges },
+      { filePath: 'App/InfoPlist.xcstrings', translationChanges: infoPlistResult.translationChanges }
+    ], options.targetLanguages, ['App/Localizable.xcstrings', 'App/InfoPlist.xcstrings']);
+
+    expect(prBody).toContain('**Total Changes:** 3\n');
+    expect(prBody).toContain('### 📄 App/Localizable.xcstrings\n\n#### ✅ Added Translations (2)\n');
+    expect(prBody).toContain('### 📄 App/InfoPlist.xcstrings\n\n#### ✅ Added Translations (1)\n- CFBundleDisplayName (de)\n');
+  });
+
+  test('should answer from fixtures and report strings missing from them as failed', async () => {
+    const fixturesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mock-fixtures-'));
+    const fixturesPath = path.join(fixturesDir, 'fixtures.json');
+    fs.writeFileSync(fixturesPath, JSON.stringify({
+      de: {
+        'Hello': 'Hallo',
+        '%lld files#plural.one': '%lld Datei'
+      }
+    }));
+
+    try {
+      const result = await localizeCatalog(createCatalog(), {
+        ...options,
+        providerConfig: { provider: 'mock', model: 'mock', mockFixturesPath: fixturesPath }
+      });
+
+      expect(result.updatedXcstringsData.strings['Hello'].localizations!['de'].stringUnit!.value).toBe('Hallo');
+      // Xcode rejects a plural without "other", so the lone "one" form is not written
+      expect(result.updatedXcstringsData.strings['%lld files'].localizations!['de']).toBeUndefined();
+      expect(result.translationChanges.added).toEqual(['Hello (de)']);
+      expect(result.translationChanges.failed).toEqual(['%lld files (de)']);
+    } finally {
+      fs.rmSync(fixturesDir, { recursive: true, force: true });
+    }
+  });
+
+  test('should leave new strings missing when their translation was rejected', async () => {
+    const fixturesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mock-fixtures-'));
+    const fixturesPath = path.join(fixturesDir, 'fixtures.json');
+    // The translation drops the placeholder, so validation rejects it
+    fs.writeFileSync(fixturesPath, JSON.stringify({ de: { 'Hello, %@': 'Hallo' } }));
+
+    try {
+      const result = await localizeCatalog({ sourceLanguage: 'en', version: '1.0', strings: { 'Hello, %@': {} } }, {
+        ...options,
+        providerConfig: { provider: 'mock', model: 'mock', mockFixturesPath: fixturesPath }
+      });
+
+      expect(result.updatedXcstringsData.strings['Hello, %@']).toEqual({});
+      expect(result.translationChanges.added).toEqual([]);
+      expect(result.translationChanges.rejected).toEqual([expect.stringMatching(/^Hello, %@ \(de\): /)]);
+    } finally {
+      fs.rmSync(fixturesDir, { recursive: true, force: true });
+    }
+  });
+
+  test('should leave new strings missing when their translation failed', async () => {
+    const fixturesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mock-fixtures-'));
+    const fixturesPath = path.join(fixturesDir, 'fixtures.json');
+    fs.writeFileSync(fixturesPath, JSON.stringify({ de: { '%lld files#plural.one': '%lld Datei', '%lld files#plural.other': '%lld Dateien' } }));
+
+    try {
+      const result = await localizeCatalog(createCatalog(), {
+        ...options,
+        targetLanguages: ['de', 'fr'],
+        providerConfig: { provider: 'mock', model: 'mock', mockFixturesPath: fixturesPath }
+      });
+
+      // No empty "translated" value or empty localization is written for the failed languages
+      expect(result.updatedXcstringsData.strings['Hello']).toEqual({ comment: 'Greeting on the home screen' });
+      expect(Object.keys(result.updatedXcstringsData.strings['%lld files'].localizations!)).toEqual(['en', 'de']);
+      expect(result.translationChanges.added).toEqual(['%lld files (de)']);
+      expect(result.translationChanges.failed).toEqual(['Hello (de)', 'Hello (fr)', '%lld files (fr)']);
+    } finally {
+      fs.rmSync(fixturesDir, { recursive: true, force: true });
+    }
+  });
+});
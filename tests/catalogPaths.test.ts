@@ -0,0 +1,47 @@
+jest.mock('@actions/core', () => ({
+  debug: jest.fn(),
+  info: jest.fn()
+}));
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseCatalogPathInput, resolveCatalogPaths } from '../src/helpers/catalogPaths';
+
+describe('catalogPaths', () => {
+  let workspace: string;
+
+  beforeAll(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'catalog-paths-'));
+    for (const file of ['App/Localizable.xcstrings', 'App/InfoPlist.xcstrings', 'Packages/Core/Sources/Localizable.xcstrings', 'Packages/Legacy/Localizable.xcstrings', 'App/Info.plist']) {
+      fs.mkdirSync(path.dirname(path.join(workspace, file)), { recursive: true });
+      fs.writeFileSync(path.join(workspace, file), '{}');
+    }
+  });
+
+  afterAll(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  test('should split paths on commas and newlines', () => {
+    expect(parseCatalogPathInput('App/Localizable.xcstrings, App/InfoPlist.xcstrings\n\n**/*.xcstrings\n')).toEqual([
+      'App/Localizable.xcstrings',
+      'App/InfoPlist.xcstrings',
+      '**/*.xcstrings'
+    ]);
+  });
+
+  test('should expand glob patterns relative to the working directory and apply exclusions', async () => {
+    const paths = await resolveCatalogPaths(['App/Localizable.xcstrings', '**/*.xcstrings', '!Packages/Legacy/**'], workspace);
+
+    expect(paths).toEqual([
+      'App/Localizable.xcstrings',
+      'App/InfoPlist.xcstrings',
+      path.join('Packages', 'Core', 'Sources', 'Localizable.xcstrings')
+    ]);
+  });
+
+  test('should keep plain paths even when the file does not exist', async () => {
+    expect(await resolveCatalogPaths(['Missing.xcstrings'], workspace)).toEqual(['Missing.xcstrings']);
+  });
+});
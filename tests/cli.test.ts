@@ -0,0 +1,83 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseCliArguments, runCli } from '../src/cli';
+
+describe('cli', () => {
+  test('should map options onto action inputs', () => {
+    expect(parseCliArguments(['translate', '-f', 'App/Localizable.xcstrings', '--file=Widget/*.xcstrings', '--languages=es,fr', '--provider', 'mock', '--base', 'origin/main', '--dry-run'])).toEqual({
+      command: 'translate',
+      inputs: {
+        xcstrings_file_path: 'App/Localizable.xcstrings\nWidget/*.xcstrings',
+        target_languages: 'es,fr',
+        provider: 'mock'
+      },
+      baseRef: 'origin/main',
+      dryRun: true,
+      help: false
+    });
+    expect(() => parseCliArguments(['translate', '--language', 'es'])).toThrow("Unknown option '--language'.");
+    expect(() => parseCliArguments(['translate', '--languages', '--dry-run'])).toThrow('Option --languages requires a value.');
+  });
+
+  describe('translate', () => {
+    const originalCwd = process.cwd();
+    let tempDir: string;
+    let output: string[];
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vibe-localize-'));
+      fs.writeFileSync(path.join(tempDir, 'Localizable.xcstrings'), JSON.stringify({
+        sourceLanguage: 'en',
+        version: '1.0',
+        strings: { 'Hello': {}, 'Old': { extractionState: 'stale' } }
+      }));
+      process.chdir(tempDir);
+      output = [];
+      jest.spyOn(console, 'log').mockImplementation(message => { output.push(String(message)); });
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      process.chdir(originalCwd);
+      fs.rmSync(tempDir, { recursive: true, force: true });
+      jest.restoreAllMocks();
+    });
+
+    test('should report without writing in a dry run', async () => {
+      const before = fs.readFileSync('Localizable.xcstrings', 'utf8');
+
+      expect(await runCli(['translate', '-l', 'de', '--dry-run'])).toBe(0);
+
+      expect(fs.readFileSync('Localizable.xcstrings', 'utf8')).toBe(before);
+      expect(output).toContain('Would add translations for 1 strings: Hello (de)');
+      expect(output).toContain('Dry run: 1 translations would be added and 0 updated, 1 stale strings removed and 0 translations marked as needs review.');
+      expect(output.find(line => line.startsWith('Estimated usage: openai (gpt-4o-mini): 1 requests, ~'))).toBeDefined();
+    });
+
+    test('should translate catalogs in place', async () => {
+      expect(await runCli(['translate', '--file', '*.xcstrings', '--languages', 'de', '--provider', 'mock'])).toBe(0);
+
+      const catalog = JSON.parse(fs.readFileSync('Localizable.xcstrings', 'utf8'));
+      expect(catalog.strings['Hello'].localizations.de.stringUnit).toEqual({ state: 'translated', value: '[de] Hello' });
+      expect(catalog.strings['Old']).toBeUndefined();
+      expect(output).toContain('Files modified: Localizable.xcstrings');
+    });
+
+    test('should warn through the logger when the base ref cannot be read', async () => {
+      const warnings: string[] = [];
+      jest.spyOn(console, 'warn').mockImplementation(message => { warnings.push(String(message)); });
+
+      expect(await runCli(['translate', '-l', 'de', '--provider', 'mock', '--base', 'missing-ref'])).toBe(0);
+      expect(warnings).toContain('warning: Could not read Localizable.xcstrings at missing-ref, source changes will not be detected.');
+    });
+
+    test('should fail with an actionable message', async () => {
+      const errors: string[] = [];
+      jest.spyOn(console, 'error').mockImplementation(message => { errors.push(String(message)); });
+
+      expect(await runCli(['translate', '--provider', 'mock'])).toBe(1);
+      expect(errors).toEqual(['error: No target languages or pseudo-locales specified. Set the target_languages input or targetLanguages in the config file.']);
+    });
+  });
+});
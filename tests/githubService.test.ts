@@ -0,0 +1,304 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as exec from '@actions/exec';
+import * as github from '@actions/github';
+import { commitToHeadBranch, createPullRequest, getCommitToHeadBranch, getLocalizationBranchName, getPullRequestBaseBranch, getReviewCommandPullRequest, getShaRefs, isLocalizationCommit, isPerRunLocalizationBranch, LOCALIZATION_COMMIT_TRAILER, postReviewComments } from '../src/services/githubService';
+import { DEFAULT_PR_CONFIG } from '../src/helpers/settings';
+import { formatReviewComment } from '../src/helpers/reviewComments';
+
+jest.mock('@actions/core');
+jest.mock('@actions/exec');
+jest.mock('@actions/github', () => ({
+  context: {
+    eventName: 'push',
+    ref: 'refs/heads/main',
+    serverUrl: 'https://github.com',
+    repo: { owner: 'octo', repo: 'app' },
+    payload: {}
+  },
+  getOctokit: jest.fn()
+}));
+
+describe('githubService', () => {
+  const pullRequest = (number: number, ref: string, repo = 'octo/app') => ({
+    number,
+    html_url: `https://github.com/octo/app/pull/${number}`,
+    head: { ref, repo: { full_name: repo } }
+  });
+
+  let octokit: any;
+  let gitCommands: string[];
+
+  beforeEach(() => {
+    octokit = {
+      paginate: jest.fn(),
+      rest: {
+        pulls: { get: jest.fn(), list: jest.fn(), create: jest.fn(), update: jest.fn(), listFiles: jest.fn(), listReviewComments: jest.fn(), createReview: jest.fn() },
+        issues: { createComment: jest.fn() }
+      }
+    };
+    (github.getOctokit as jest.Mock).mockReturnValue(octokit);
+    gitCommands = [];
+    (exec.exec as jest.Mock).mockImplementation(async (_command: string, args: string[]) => {
+      gitCommands.push(args.join(' '));
+      // No localization branch on the remote yet, and the staged files differ from HEAD
+      return args[0] === 'ls-remote' || args[0] === 'diff' ? 1 : 0;
+    });
+  });
+
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  test('should name one localization branch per branch', () => {
+    expect(getLocalizationBranchName('ios-vibe-localization-updates/', 'main')).toBe('ios-vibe-localization-updates-main');
+    expect(getLocalizationBranchName('l10n/', 'release/2.0')).toBe('l10n-release-2.0');
+    expect(isPerRunLocalizationBranch('ios-vibe-localization-updates/', 'ios-vibe-localization-updates-push-123-1700000000000')).toBe(true);
+    expect(isPerRunLocalizationBranch('ios-vibe-localization-updates/', 'ios-vibe-localization-updates-pull_request-123-1700000000000')).toBe(true);
+    expect(isPerRunLocalizationBranch('ios-vibe-localization-updates/', 'ios-vibe-localization-updates-workflow_dispatch-123-1700000000000')).toBe(true);
+    expect(isPerRunLocalizationBranch('ios-vibe-localization-updates/', 'ios-vibe-localization-updates-main')).toBe(false);
+    expect(isPerRunLocalizationBranch('l10n/', 'ios-vibe-localization-updates-push-123-1700000000000')).toBe(false);
+  });
+
+  test('should create a pull request and close those of earlier runs', async () => {
+    octokit.paginate.mockResolvedValue([
+      pullRequest(3, 'ios-vibe-localization-updates-push-41-1700000000000'),
+      pullRequest(4, 'feature/login'),
+      pullRequest(8, 'ios-vibe-localization-updates-pull_request-40-1690000000000'),
+      pullRequest(5, 'ios-vibe-localization-updates-push-42-1700000000000', 'fork/app')
+    ]);
+    octokit.rest.pulls.create.mockResolvedValue({ data: pullRequest(6, 'ios-vibe-localization-updates-main') });
+
+    expect(await createPullRequest(['Localizable.xcstrings'], 'token', DEFAULT_PR_CONFIG)).toEqual({
+      number: 6,
+      url: 'https://github.com/octo/app/pull/6',
+      branch: 'ios-vibe-localization-updates-main',
+      pushed: true
+    });
+
+    expect(gitCommands).toContain('checkout -B ios-vibe-localization-updates-main');
+    expect(gitCommands).toContain('push -u origin ios-vibe-localization-updates-main');
+    expect(octokit.rest.pulls.create).toHaveBeenCalledWith(expect.objectContaining({ head: 'ios-vibe-localization-updates-main', base: 'main' }));
+    // Per-run branches of every event are superseded, not only those of the current one
+    expect(octokit.rest.issues.createComment).toHaveBeenCalledTimes(2);
+    expect(octokit.rest.issues.createComment).toHaveBeenCalledWith(expect.objectContaining({ issue_number: 3, body: expect.stringContaining('Superseded by #6') }));
+    expect(octokit.rest.pulls.update).toHaveBeenCalledWith(expect.objectContaining({ pull_number: 3, state: 'closed' }));
+    expect(octokit.rest.pulls.update).toHaveBeenCalledWith(expect.objectContaining({ pull_number: 8, state: 'closed' }));
+  });
+
+  test('should not close its own pull request for base branches that look like per-run branches', async () => {
+    const context = github.context as any;
+    context.ref = 'refs/heads/release-2024-10';
+    try {
+      octokit.paginate.mockResolvedValue([
+        pullRequest(3, 'ios-vibe-localization-updates-push-41-1700000000000'),
+        pullRequest(6, 'ios-vibe-localization-updates-release-2024-10')
+      ]);
+
+      expect((await createPullRequest(['Localizable.xcstrings'], 'token', DEFAULT_PR_CONFIG))?.number).toBe(6);
+
+      expect(octokit.rest.pulls.create).not.toHaveBeenCalled();
+      expect(octokit.rest.issues.createComment).toHaveBeenCalledTimes(1);
+      expect(octokit.rest.issues.createComment).toHaveBeenCalledWith(expect.objectContaining({ issue_number: 3 }));
+      expect(octokit.rest.pulls.update).not.toHaveBeenCalledWith(expect.objectContaining({ pull_number: 6, state: 'closed' }));
+    } finally {
+      context.ref = 'refs/heads/main';
+    }
+  });
+
+  test('should force-push and update the open pull request', async () => {
+    (exec.exec as jest.Mock).mockImplementation(async (_command: string, args: string[]) => {
+      gitCommands.push(args.join(' '));
+      return args[0] === 'diff' ? 1 : 0;
+    });
+    octokit.paginate.mockResolvedValue([pullRequest(7, 'ios-vibe-localization-updates-main')]);
+
+    const result = await createPullRequest(['Localizable.xcstrings'], 'token', { ...DEFAULT_PR_CONFIG, prTitle: 'Update translations' });
+
+    expect(result?.number).toBe(7);
+
+    expect(gitCommands).toContain('push --force -u origin ios-vibe-localization-updates-main');
+    expect(octokit.rest.pulls.create).not.toHaveBeenCalled();
+    expect(octokit.rest.pulls.update).toHaveBeenCalledWith(expect.objectContaining({ pull_number: 7, title: 'Update translations', body: expect.any(String) }));
+  });
+
+  test('should commit the full report while the translations do not fit into the description', async () => {
+    const originalCwd = process.cwd();
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vibe-localizer-'));
+    process.chdir(tempDir);
+    try {
+      octokit.paginate.mockResolvedValue([pullRequest(7, 'ios-vibe-localization-updates-main')]);
+      const translations = (count: number) => Array.from({ length: count }, (_, index) => ({ filePath: 'Localizable.xcstrings', key: `String ${index}`, language: 'de', source: 'x'.repeat(100), translation: 'y'.repeat(100) }));
+
+      await createPullRequest(['Localizable.xcstrings'], 'token', DEFAULT_PR_CONFIG, [], ['de'], translations(500));
+
+      const report = fs.readFileSync('.github/localization-report.md', 'utf8');
+      expect(report).toContain('<summary><b>de</b>: 500 translations</summary>');
+      expect(gitCommands).toContain('add Localizable.xcstrings .github/localization-report.md');
+      expect(octokit.rest.pulls.update).toHaveBeenCalledWith(expect.objectContaining({
+        body: expect.stringContaining('(https://github.com/octo/app/blob/ios-vibe-localization-updates-main/.github/localization-report.md)')
+      }));
+
+      gitCommands = [];
+      await createPullRequest(['Localizable.xcstrings'], 'token', DEFAULT_PR_CONFIG, [], ['de'], translations(5));
+
+      expect(fs.existsSync('.github/localization-report.md')).toBe(false);
+      expect(gitCommands).toContain('add Localizable.xcstrings .github/localization-report.md');
+    } finally {
+      process.chdir(originalCwd);
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('should only run review commands from collaborators on open pull requests of this repository', async () => {
+    const context = github.context as any;
+    context.eventName = 'issue_comment';
+    const comment = (association: string) => ({ action: 'created', issue: { number: 9, pull_request: {} }, comment: { body: '/set Hello de "Hallo"', author_association: association, user: { login: 'reviewer' } } });
+    octokit.rest.pulls.get.mockResolvedValue({ data: { ...pullRequest(9, 'ios-vibe-localization-updates-main'), state: 'open' } });
+
+    try {
+      context.payload = comment('MEMBER');
+      expect(await getReviewCommandPullRequest('token')).toEqual({ number: 9, url: 'https://github.com/octo/app/pull/9', headBranch: 'ios-vibe-localization-updates-main', commenter: 'reviewer' });
+
+      context.payload = comment('CONTRIBUTOR');
+      expect(await getReviewCommandPullRequest('token')).toBeUndefined();
+
+      context.payload = { ...comment('OWNER'), issue: { number: 9 } };
+      expect(await getReviewCommandPullRequest('token')).toBeUndefined();
+
+      context.payload = comment('OWNER');
+      octokit.rest.pulls.get.mockResolvedValue({ data: { ...pullRequest(9, 'feature/login', 'fork/app'), state: 'open' } });
+      expect(await getReviewCommandPullRequest('token')).toBeUndefined();
+    } finally {
+      context.eventName = 'push';
+      context.payload = {};
+    }
+  });
+
+  test('should resolve commits and branches for scheduled, dispatched, merge queue and pull request runs', async () => {
+    const context = github.context as any;
+    try {
+      context.eventName = 'schedule';
+      context.sha = 'abc123';
+      expect(await getShaRefs()).toEqual({ baseSha: 'abc123', headSha: 'abc123' });
+      expect(getPullRequestBaseBranch()).toBe('main');
+
+      context.eventName = 'workflow_dispatch';
+      context.ref = 'refs/heads/release/2.0';
+      expect(await getShaRefs()).toEqual({ baseSha: 'abc123', headSha: 'abc123' });
+      expect(getPullRequestBaseBranch()).toBe('release/2.0');
+
+      context.ref = 'refs/tags/v1.0';
+      expect(getPullRequestBaseBranch()).toBeUndefined();
+
+      context.eventName = 'merge_group';
+      context.ref = 'refs/heads/gh-readonly-queue/main/pr-12-abc123';
+      context.payload = { merge_group: { base_sha: 'def456', head_sha: 'abc123', base_ref: 'refs/heads/main' } };
+      expect(await getShaRefs()).toEqual({ baseSha: 'def456', headSha: 'abc123' });
+
+      // Every pull request into a branch shares its localization branch
+      context.eventName = 'pull_request';
+      context.payload = { pull_request: { base: { ref: 'main' }, head: { ref: 'feature/login' } } };
+      expect(getPullRequestBaseBranch()).toBe('main');
+
+      context.eventName = 'release';
+      await expect(getShaRefs()).rejects.toThrow('Unsupported event: release. Expected push, pull_request, merge_group, schedule or workflow_dispatch.');
+    } finally {
+      context.eventName = 'push';
+      context.ref = 'refs/heads/main';
+      context.payload = {};
+    }
+  });
+
+  describe('commit-to-head', () => {
+    const originalCwd = process.cwd();
+    const context = github.context as any;
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vibe-localizer-'));
+      fs.writeFileSync(path.join(tempDir, 'Localizable.xcstrings'), '{"translated": true}');
+      process.chdir(tempDir);
+      context.eventName = 'pull_request';
+      context.payload = { pull_request: { head: { ref: 'feature/login', sha: 'abc123', repo: { full_name: 'octo/app' } } } };
+    });
+
+    afterEach(() => {
+      process.chdir(originalCwd);
+      fs.rmSync(tempDir, { recursive: true, force: true });
+      context.eventName = 'push';
+      context.payload = {};
+    });
+
+    const mockGit = (headSha: string) => {
+      (exec.exec as jest.Mock).mockImplementation(async (_command: string, args: string[], options?: exec.ExecOptions) => {
+        gitCommands.push(args.join(' '));
+        if (args[0] === 'rev-parse') {
+          options?.listeners?.stdout?.(Buffer.from(`${headSha}\n`));
+        }
+        return args[0] === 'diff' ? 1 : 0;
+      });
+    };
+
+    test('should commit to the head branch of the pull request', async () => {
+      mockGit('abc123');
+
+      expect(getCommitToHeadBranch()).toBe('feature/login');
+      expect(await commitToHeadBranch(['Localizable.xcstrings'], 'feature/login', 'abc123', DEFAULT_PR_CONFIG)).toBe(true);
+
+      expect(gitCommands).toContain('checkout --force -B feature/login FETCH_HEAD');
+      expect(gitCommands).toContain(`commit -m ${DEFAULT_PR_CONFIG.commitMessage} -m ${LOCALIZATION_COMMIT_TRAILER}`);
+      expect(gitCommands).toContain('push origin HEAD:refs/heads/feature/login');
+      // The localized catalog survives the checkout
+      expect(fs.readFileSync('Localizable.xcstrings', 'utf8')).toBe('{"translated": true}');
+    });
+
+    test('should not overwrite newer commits on the head branch', async () => {
+      mockGit('def456');
+
+      expect(await commitToHeadBranch(['Localizable.xcstrings'], 'feature/login', 'abc123', DEFAULT_PR_CONFIG)).toBe(false);
+      expect(gitCommands.some(command => command.startsWith('push'))).toBe(false);
+    });
+
+    test('should fall back to a pull request for forks and other events', () => {
+      context.payload.pull_request.head.repo.full_name = 'fork/app';
+      expect(getCommitToHeadBranch()).toBeUndefined();
+
+      context.eventName = 'push';
+      expect(getCommitToHeadBranch()).toBeUndefined();
+    });
+
+    test('should comment on new translations in the pull request diff', async () => {
+      mockGit('abc123');
+      fs.writeFileSync('Localizable.xcstrings', '{\n  "strings" : {\n    "Hello" : {\n      "localizations" : {\n        "de" : { "stringUnit" : {\n          "state" : "translated",\n          "value" : "Hallo"\n        } },\n        "fr" : { "stringUnit" : {\n          "state" : "translated",\n          "value" : "Bonjour"\n        } }\n      }\n    }\n  }\n}\n');
+      const hello = { filePath: 'Localizable.xcstrings', key: 'Hello', source: 'Hello' };
+      octokit.paginate.mockImplementation(async (method: unknown) => method === octokit.rest.pulls.listFiles
+        ? [{ filename: 'Localizable.xcstrings', patch: '@@ -4,0 +5,7 @@\n+        "de" : { "stringUnit" : {\n+          "state" : "translated",\n+          "value" : "Hallo"\n+        } },\n+        "fr" : { "stringUnit" : {\n+          "state" : "translated",\n+          "value" : "Bonjour"' }]
+        // A run that pushed the same French translation already commented on it
+        : [{ body: formatReviewComment({ ...hello, language: 'fr', translation: 'Bonjour' }, '          "value" : "Bonjour"') }]);
+
+      expect(await postReviewComments('token', 8, [
+        { ...hello, language: 'de', translation: 'Hallo' },
+        { ...hello, language: 'fr', translation: 'Bonjour' }
+      ])).toBe(1);
+
+      expect(octokit.rest.pulls.createReview).toHaveBeenCalledWith(expect.objectContaining({
+        pull_number: 8,
+        commit_id: 'abc123',
+        event: 'COMMENT',
+        comments: [{ path: 'Localizable.xcstrings', line: 7, side: 'RIGHT', body: expect.stringContaining('```suggestion\n          "value" : "Hallo"\n```') }]
+      }));
+    });
+
+    test('should recognize its own commits', async () => {
+      for (const [message, expected] of [[`i18n: Update translations\n\n${LOCALIZATION_COMMIT_TRAILER}\n`, true], ['Add login screen\n', false]] as const) {
+        (exec.exec as jest.Mock).mockImplementation(async (_command: string, _args: string[], options?: exec.ExecOptions) => {
+          options?.listeners?.stdout?.(Buffer.from(message));
+          return 0;
+        });
+        expect(await isLocalizationCommit('abc123')).toBe(expected);
+      }
+    });
+  });
+});
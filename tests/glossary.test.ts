@@ -0,0 +1,84 @@
+jest.mock('@actions/core', () => ({
+  info: jest.fn(),
+  warning: jest.fn(),
+  error: jest.fn()
+}));
+
+import { applyGlossary, checkGlossary, findGlossaryTerms, parseGlossaryTerms } from '../src/helpers/glossary';
+import { buildTranslationPrompt } from '../src/helpers/translationPrompt';
+import { localizeCatalog } from '../src/services/catalogLocalizer';
+import { DEFAULT_BATCH_OPTIONS } from '../src/services/localizationManager';
+import { OpenAIService } from '../src/services/openaiService';
+import { GlossaryTerm } from '../src/types';
+
+describe('glossary', () => {
+  const glossary: GlossaryTerm[] = [
+    { term: 'Vibe', doNotTranslate: true, caseSensitive: true },
+    { term: 'workspace', translations: { de: 'Arbeitsbereich', fr: 'espace de travail' } }
+  ];
+
+  test('should validate glossary terms with actionable errors', () => {
+    expect(parseGlossaryTerms(glossary, 'glossary.json')).toEqual(glossary);
+    expect(() => parseGlossaryTerms({}, 'glossary.json')).toThrow('Invalid glossary glossary.json: expected a "terms" array.');
+    expect(() => parseGlossaryTerms([{ term: 'Pro' }], 'glossary.json')).toThrow('Invalid glossary glossary.json, term #1 ("Pro"): set "doNotTranslate": true or provide "translations".');
+    expect(() => parseGlossaryTerms([{ term: 'Pro', translations: { de: '' } }], 'glossary.json')).toThrow('"translations" must map language codes to non-empty strings');
+  });
+
+  test('should match whole words, respecting case sensitivity', () => {
+    expect(findGlossaryTerms('Open your Workspace', glossary, ['de'])).toEqual([
+      { term: 'workspace', translations: { de: 'Arbeitsbereich' } }
+    ]);
+    expect(findGlossaryTerms('Open workspaces', glossary, ['de'])).toEqual([]);
+    expect(findGlossaryTerms('Good vibes with vibe', glossary, ['de'])).toEqual([]);
+    expect(findGlossaryTerms('Welcome to Vibe', glossary, ['ja'])).toEqual([glossary[0]]);
+    expect(findGlossaryTerms('Open your workspace', glossary, ['ja'])).toEqual([]);
+  });
+
+  test('should send terms only with the strings that contain them', () => {
+    const requests = applyGlossary([
+      { key: 'open', text: 'Open workspace', targetLanguages: ['de'] },
+      { key: 'close', text: 'Close', targetLanguages: ['de'] }
+    ], glossary);
+
+    expect(requests[1].glossary).toBeUndefined();
+    const { userPrompt } = buildTranslationPrompt(requests, 'en', ['de']);
+    expect(userPrompt).toContain('Key: "open"\nText: "Open workspace"\nGlossary: "workspace" → de: "Arbeitsbereich"');
+    expect(userPrompt.endsWith('Key: "close"\nText: "Close"')).toBe(true);
+  });
+
+  test('should report translations violating the glossary', () => {
+    expect(checkGlossary('Arbeitsbereichs öffnen', 'de', [glossary[1]])).toEqual([]);
+    expect(checkGlossary('Arbeitsplatz öffnen', 'de', [glossary[1]])).toEqual(['"workspace" must be translated as "Arbeitsbereich"']);
+    expect(checkGlossary('Willkommen bei VIBE', 'de', [glossary[0]])).toEqual(['"Vibe" must not be translated']);
+  });
+
+  test('should list glossary violations in the catalog changes, except for mock and pseudo translations', async () => {
+    const env = process.env;
+    process.env = { ...env, OPENAI_API_KEY: 'openai-key' };
+    const getBatchTranslations = jest.spyOn(OpenAIService.prototype, 'getBatchTranslations').mockResolvedValue({
+      translations: [{ key: 'Open workspace', translations: { de: 'Arbeitsplatz öffnen' } }]
+    });
+    const catalog = { sourceLanguage: 'en', version: '1.0', strings: { 'Open workspace': {} } };
+    const options = {
+      targetLanguages: ['de'],
+      providerConfig: { provider: 'openai' as const, model: 'gpt-4o-mini' },
+      baseSystemPrompt: '',
+      batchOptions: { ...DEFAULT_BATCH_OPTIONS, batchRetries: 0 },
+      changedSourceStrategy: 'retranslate' as const,
+      glossary
+    };
+
+    try {
+      const result = await localizeCatalog(catalog, options);
+      expect(result.updatedXcstringsData.strings['Open workspace'].localizations!['de'].stringUnit!.value).toBe('Arbeitsplatz öffnen');
+      expect(result.translationChanges.glossaryViolations).toEqual(['Open workspace (de): "workspace" must be translated as "Arbeitsbereich"']);
+
+      const mockResult = await localizeCatalog(catalog, { ...options, providerConfig: { provider: 'mock', model: 'mock', languageProviders: { 'en-XA': 'pseudo' } }, targetLanguages: ['de', 'en-XA'] });
+      expect(mockResult.updatedXcstringsData.strings['Open workspace'].localizations!['de'].stringUnit!.value).toBe('[de] Open workspace');
+      expect(mockResult.translationChanges.glossaryViolations).toEqual([]);
+    } finally {
+      getBatchTranslations.mockRestore();
+      process.env = env;
+    }
+  });
+});
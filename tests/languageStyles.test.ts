@@ -0,0 +1,59 @@
+jest.mock('@actions/core', () => ({
+  info: jest.fn(),
+  warning: jest.fn(),
+  error: jest.fn()
+}));
+
+import { buildStyledSystemPrompt, groupLanguagesByStyle, LanguageStyles, parseLanguageStyles } from '../src/helpers/languageStyles';
+import { fetchValidatedTranslations } from '../src/services/localizationManager';
+import { MockTranslationService } from '../src/services/mockTranslationService';
+import { TranslationProvider } from '../src/services/translationProvider';
+
+describe('languageStyles', () => {
+  const styles: LanguageStyles = {
+    de: { formality: 'informal', genderNeutral: true },
+    'pt-BR': { instructions: 'Use Brazilian Portuguese vocabulary ("celular", not "telemóvel").' },
+    fr: {}
+  };
+
+  test('should validate styles with actionable errors', () => {
+    expect(parseLanguageStyles(styles, 'styles.json')).toEqual(styles);
+    expect(() => parseLanguageStyles([], 'styles.json')).toThrow('Invalid language styles styles.json: expected an object mapping language codes to styles');
+    expect(() => parseLanguageStyles({ de: { formality: 'casual' } }, 'styles.json')).toThrow(`Invalid language style for 'de' in styles.json: "formality" must be "formal" or "informal".`);
+    expect(() => parseLanguageStyles({ de: { tone: 'casual' } }, 'styles.json')).toThrow(`unknown setting 'tone'`);
+  });
+
+  test('should give each styled language its own group', () => {
+    expect(groupLanguagesByStyle(['de', 'fr', 'pt-BR', 'ja'], styles)).toEqual([['fr', 'ja'], ['de'], ['pt-BR']]);
+    expect(groupLanguagesByStyle(['fr', 'ja'], {})).toEqual([['fr', 'ja']]);
+  });
+
+  test('should compose style instructions into the system prompt', () => {
+    expect(buildStyledSystemPrompt('This is a banking app.', ['de'], styles)).toBe(
+      'This is a banking app.\n\nWhen translating to de: Address the user informally (e.g. "du" in German, "tu" in French, "tú" in Spanish). Use gender-neutral wording where the language allows it.'
+    );
+    expect(buildStyledSystemPrompt('', ['fr', 'ja'], styles)).toBe('');
+  });
+
+  test('should translate styled languages in separate requests with their own instructions', async () => {
+    // Typed as the provider interface, whose calls include the system prompt the mock ignores
+    const getBatchTranslations = jest.spyOn<TranslationProvider, 'getBatchTranslations'>(MockTranslationService.prototype, 'getBatchTranslations');
+
+    const response = await fetchValidatedTranslations(
+      [{ key: 'greeting', text: 'Hello', targetLanguages: ['de', 'fr', 'pt-BR'] }],
+      'en',
+      { provider: 'mock', model: 'mock' },
+      '',
+      undefined,
+      styles
+    );
+
+    expect(getBatchTranslations.mock.calls.map(([requests, , systemPrompt]) => [requests[0].targetLanguages, systemPrompt])).toEqual([
+      [['fr'], ''],
+      [['de'], expect.stringContaining('When translating to de: Address the user informally')],
+      [['pt-BR'], 'When translating to pt-BR: Use Brazilian Portuguese vocabulary ("celular", not "telemóvel").']
+    ]);
+    expect(response.translations).toHaveLength(3);
+    getBatchTranslations.mockRestore();
+  });
+});
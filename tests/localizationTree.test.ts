@@ -0,0 +1,75 @@
+import { getPluralCategories, getStringUnitAtPath, hasIncompletePlurals, hasStringUnitValues, setStringUnitAtPath } from '../src/helpers/localizationTree';
+import { Localization } from '../src/types';
+
+describe('localizationTree', () => {
+  test('should return plural categories in Xcode order', () => {
+    expect(getPluralCategories('ru')).toEqual(['one', 'few', 'many', 'other']);
+    expect(getPluralCategories('ja')).toEqual(['other']);
+    expect(getPluralCategories('ar')).toEqual(['zero', 'one', 'two', 'few', 'many', 'other']);
+  });
+
+  test('should write plural variations and drop the flat string unit', () => {
+    const localization: Localization = { stringUnit: { state: 'translated', value: '' } };
+
+    setStringUnitAtPath(localization, 'plural.one', { state: 'translated', value: '%lld élément' });
+    setStringUnitAtPath(localization, 'plural.other', { state: 'translated', value: '%lld éléments' });
+
+    expect(localization).toEqual({
+      variations: {
+        plural: {
+          'one': { stringUnit: { state: 'translated', value: '%lld élément' } },
+          'other': { stringUnit: { state: 'translated', value: '%lld éléments' } }
+        }
+      }
+    });
+    expect(getStringUnitAtPath(localization, 'plural.other')?.value).toBe('%lld éléments');
+    expect(getStringUnitAtPath(localization, 'plural.few')).toBeUndefined();
+  });
+
+  test('should keep argNum and formatSpecifier when writing substitutions', () => {
+    const source: Localization = {
+      stringUnit: { state: 'translated', value: '%#@files@' },
+      substitutions: {
+        'files': { argNum: 1, formatSpecifier: 'lld', variations: { plural: {} } }
+      }
+    };
+    const localization: Localization = {};
+
+    setStringUnitAtPath(localization, '', { state: 'translated', value: '%#@files@' }, source);
+    setStringUnitAtPath(localization, 'substitutions.files.plural.other', { state: 'translated', value: '%arg Dateien' }, source);
+
+    expect(localization).toEqual({
+      stringUnit: { state: 'translated', value: '%#@files@' },
+      substitutions: {
+        'files': {
+          argNum: 1,
+          formatSpecifier: 'lld',
+          variations: { plural: { 'other': { stringUnit: { state: 'translated', value: '%arg Dateien' } } } }
+        }
+      }
+    });
+  });
+
+  test('should find plurals without the other form', () => {
+    const other = { stringUnit: { state: 'translated', value: '%lld files' } };
+    const one = { stringUnit: { state: 'translated', value: '%lld file' } };
+
+    expect(hasIncompletePlurals({ variations: { plural: { one, other } } })).toBe(false);
+    expect(hasIncompletePlurals({ variations: { plural: { one } } })).toBe(true);
+    expect(hasIncompletePlurals({ variations: { device: { iphone: { variations: { plural: { one } } } } } })).toBe(true);
+    expect(hasIncompletePlurals({ stringUnit: other.stringUnit, substitutions: { files: { formatSpecifier: 'lld', variations: { plural: { one } } } } })).toBe(true);
+  });
+
+  test('should tell empty localizations from translated ones', () => {
+    expect(hasStringUnitValues({})).toBe(false);
+    expect(hasStringUnitValues({ stringUnit: { state: 'translated', value: '' } })).toBe(false);
+    expect(hasStringUnitValues({ stringUnit: { state: 'translated', value: 'Hallo' } })).toBe(true);
+    expect(hasStringUnitValues({ variations: { device: { mac: { variations: { plural: { other: { stringUnit: { state: 'translated', value: 'x' } } } } } } } })).toBe(true);
+    expect(hasStringUnitValues({ substitutions: { files: { formatSpecifier: 'lld', variations: { plural: { other: { stringUnit: { state: 'translated', value: 'x' } } } } } } })).toBe(true);
+  });
+
+  test('should reject unknown substitutions and malformed paths', () => {
+    expect(() => setStringUnitAtPath({}, 'substitutions.missing.plural.one', { state: 'translated', value: 'x' }, {})).toThrow();
+    expect(() => getStringUnitAtPath({}, 'plural')).toThrow('Invalid string unit path: plural');
+  });
+});
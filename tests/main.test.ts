@@ -0,0 +1,217 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as core from '@actions/core';
+import * as exec from '@actions/exec';
+import * as github from '@actions/github';
+import { run } from '../src/main';
+import { LOCALIZATION_COMMIT_TRAILER } from '../src/services/githubService';
+
+jest.mock('@actions/core');
+jest.mock('@actions/exec');
+jest.mock('@actions/github', () => ({
+  context: {
+    eventName: 'push',
+    ref: 'refs/heads/main',
+    sha: 'head123',
+    serverUrl: 'https://github.com',
+    repo: { owner: 'octo', repo: 'app' },
+    payload: { before: 'base123', after: 'head123' }
+  },
+  getOctokit: jest.fn()
+}));
+
+describe('action', () => {
+  const catalog = {
+    sourceLanguage: 'en',
+    version: '1.0',
+    strings: {
+      'Hello': { comment: 'Greeting on the home screen' },
+      '%lld files': {
+        localizations: {
+          en: {
+            variations: {
+              plural: {
+                one: { stringUnit: { state: 'translated', value: '%lld file' } },
+                other: { stringUnit: { state: 'translated', value: '%lld files' } }
+              }
+            }
+          }
+        }
+      }
+    }
+  };
+
+  const context = github.context as any;
+  const originalContext = { ...context };
+  const originalCwd = process.cwd();
+  let workDir: string;
+  let inputs: { [name: string]: string };
+  let outputs: { [name: string]: unknown };
+  let octokit: any;
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'action-'));
+    fs.writeFileSync(path.join(workDir, 'Localizable.xcstrings'), JSON.stringify(catalog));
+    process.chdir(workDir);
+    delete process.env.GITHUB_STEP_SUMMARY;
+
+    inputs = { target_languages: 'de', provider: 'mock', github_token: 'token' };
+    outputs = {};
+    (core.getInput as jest.Mock).mockImplementation((name: string) => inputs[name] ?? '');
+    (core.setOutput as jest.Mock).mockImplementation((name: string, value: unknown) => { outputs[name] = value; });
+
+    // The catalog is new on this branch, so it only exists at the head commit
+    (exec.exec as jest.Mock).mockImplementation(async (_command: string, args: string[], options?: exec.ExecOptions) => {
+      if (args[0] === 'show') {
+        if (!args[1].startsWith('head123:')) {
+          return 1;
+        }
+        options?.listeners?.stdout?.(Buffer.from(JSON.stringify(catalog)));
+        return 0;
+      }
+      return args[0] === 'ls-remote' || args[0] === 'diff' ? 1 : 0;
+    });
+
+    octokit = {
+      paginate: jest.fn().mockResolvedValue([]),
+      rest: {
+        pulls: { list: jest.fn(), get: jest.fn(), create: jest.fn().mockResolvedValue({ data: { number: 7, html_url: 'https://github.com/octo/app/pull/7' } }) },
+        issues: { createComment: jest.fn() }
+      }
+    };
+    (github.getOctokit as jest.Mock).mockReturnValue(octokit);
+  });
+
+  afterEach(() => {
+    Object.assign(context, originalContext);
+    process.chdir(originalCwd);
+    fs.rmSync(workDir, { recursive: true, force: true });
+    jest.resetAllMocks();
+  });
+
+  test('should localize, write back and open a pull request offline with the mock provider', async () => {
+    await run();
+
+    expect(core.setFailed).not.toHaveBeenCalled();
+    const written = JSON.parse(fs.readFileSync(path.join(workDir, 'Localizable.xcstrings'), 'utf8'));
+    expect(written.strings['Hello'].localizations.de).toEqual({ stringUnit: { state: 'translated', value: '[de] Hello' } });
+    expect(written.strings['%lld files'].localizations.de.variations.plural).toEqual({
+      one: { stringUnit: { state: 'translated', value: '[de] %lld file' } },
+      other: { stringUnit: { state: 'translated', value: '[de] %lld files' } }
+    });
+
+    const { body } = octokit.rest.pulls.create.mock.calls[0][0];
+    expect(body).toContain('Automated localization updates by the iOS Vibe Localization Action.');
+    expect(body).toContain('### ✅ Added Translations (2)\n- Hello (de)\n- %lld files (de)\n');
+    expect(body).toContain('[de] Hello');
+
+    expect(outputs).toMatchObject({
+      pr_url: 'https://github.com/octo/app/pull/7',
+      pr_number: 7,
+      changed_files: 'Localizable.xcstrings',
+      added_count: 2,
+      updated_count: 0
+    });
+  });
+
+  test('should preview a dry run without writing files or opening a pull request', async () => {
+    inputs.dry_run = 'true';
+
+    await run();
+
+    expect(core.setFailed).not.toHaveBeenCalled();
+    expect(JSON.parse(fs.readFileSync(path.join(workDir, 'Localizable.xcstrings'), 'utf8'))).toEqual(catalog);
+    expect(octokit.rest.pulls.create).not.toHaveBeenCalled();
+    expect(outputs).toMatchObject({ added_count: 2, pr_url: '' });
+    expect(JSON.parse(outputs.report as string)).toMatchObject({ dryRun: true, targetLanguages: ['de'] });
+  });
+
+  const emptyOutputs = {
+    pr_url: '',
+    pr_number: '',
+    branch: '',
+    changed_files: '',
+    added_count: 0,
+    updated_count: 0,
+    stale_removed_count: 0,
+    needs_review_count: 0
+  };
+
+  test('should set empty outputs when skipping its own commit', async () => {
+    inputs.mode = 'commit-to-head';
+    context.eventName = 'pull_request';
+    context.payload = { pull_request: { number: 3, base: { ref: 'main', sha: 'base123' }, head: { ref: 'feature/login', sha: 'head123', repo: { full_name: 'octo/app' } } } };
+    (exec.exec as jest.Mock).mockImplementation(async (_command: string, args: string[], options?: exec.ExecOptions) => {
+      if (args[0] === 'log') {
+        options?.listeners?.stdout?.(Buffer.from(`Update translations\n\n${LOCALIZATION_COMMIT_TRAILER}\n`));
+      }
+      return 0;
+    });
+
+    await run();
+
+    expect(core.setFailed).not.toHaveBeenCalled();
+    expect(octokit.rest.pulls.create).not.toHaveBeenCalled();
+    expect(outputs).toMatchObject(emptyOutputs);
+    expect(JSON.parse(outputs.report as string)).toMatchObject({ dryRun: false, changedFiles: [], pullRequest: null });
+  });
+
+  test('should set empty outputs when no catalogs match', async () => {
+    inputs.dry_run = 'true';
+    inputs.xcstrings_file_path = '**/*.xcstrings';
+    fs.rmSync(path.join(workDir, 'Localizable.xcstrings'));
+
+    await run();
+
+    expect(core.setFailed).toHaveBeenCalledWith('No string catalogs match **/*.xcstrings.');
+    expect(outputs).toMatchObject({ ...emptyOutputs, estimated_tokens: 0, estimated_cost: '0.0000' });
+  });
+
+  test('should set empty outputs for comments without review commands', async () => {
+    context.eventName = 'issue_comment';
+    context.payload = { action: 'created', issue: { number: 3, pull_request: {} }, comment: { body: 'Looks good!' } };
+
+    await run();
+
+    expect(core.setFailed).not.toHaveBeenCalled();
+    expect(outputs).toMatchObject(emptyOutputs);
+  });
+
+  test('should only list review commands in a dry run', async () => {
+    inputs.dry_run = 'true';
+    context.eventName = 'issue_comment';
+    context.payload = {
+      action: 'created',
+      issue: { number: 3, pull_request: {} },
+      comment: { body: '/retranslate Hello de "shorter"\n/set Hello de "Hallo"', author_association: 'MEMBER', user: { login: 'reviewer' } }
+    };
+    octokit.rest.pulls.get.mockResolvedValue({
+      data: { number: 3, html_url: 'https://github.com/octo/app/pull/3', state: 'open', head: { ref: 'feature/login', repo: { full_name: 'octo/app' } } }
+    });
+
+    await run();
+
+    expect(core.setFailed).not.toHaveBeenCalled();
+    expect(exec.exec).not.toHaveBeenCalled();
+    expect(octokit.rest.issues.createComment).not.toHaveBeenCalled();
+    expect(core.info).toHaveBeenCalledWith('Dry run: 2 review command(s) would be applied to feature/login: /retranslate Hello de "shorter"; /set Hello de "Hallo". Nothing was translated, committed or posted.');
+    expect(outputs).toMatchObject(emptyOutputs);
+    expect(JSON.parse(outputs.report as string)).toMatchObject({ dryRun: true });
+  });
+
+  test('should only report the changes of a merge queue run', async () => {
+    context.eventName = 'merge_group';
+    context.ref = 'refs/heads/gh-readonly-queue/main/pr-12-head123';
+    context.payload = { merge_group: { base_sha: 'base123', head_sha: 'head123', base_ref: 'refs/heads/main' } };
+
+    await run();
+
+    expect(core.setFailed).not.toHaveBeenCalled();
+    expect(JSON.parse(fs.readFileSync(path.join(workDir, 'Localizable.xcstrings'), 'utf8'))).toEqual(catalog);
+    expect((exec.exec as jest.Mock).mock.calls.map(call => call[1][0])).not.toContain('push');
+    expect(octokit.rest.pulls.create).not.toHaveBeenCalled();
+    expect(outputs).toMatchObject({ added_count: 2, pr_url: '', branch: '' });
+    expect(JSON.parse(outputs.report as string)).toMatchObject({ dryRun: true });
+  });
+});
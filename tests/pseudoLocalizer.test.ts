@@ -0,0 +1,34 @@
+import { isRtlPseudoLocale, pseudoLocalize } from '../src/helpers/pseudoLocalizer';
+import { validateTranslation } from '../src/helpers/translationValidator';
+
+describe('pseudoLocalize', () => {
+  test('should accent, expand and bracket text while keeping placeholders', () => {
+    expect(pseudoLocalize('Save %@')).toBe('[Šåṽé %@ one]');
+
+    const source = 'Delete %1$@ from %2$lld folders?';
+    const pseudo = pseudoLocalize(source);
+    expect(pseudo.startsWith('[Ðéļéţé %1$@ ƒŕöṁ %2$lld ƒöļðéŕš?')).toBe(true);
+    expect(pseudo.length).toBeGreaterThanOrEqual(Math.ceil(source.length * 1.3));
+    expect(validateTranslation(source, pseudo)).toEqual([]);
+  });
+
+  test('should keep substitution tokens, escaped percents and Markdown link targets', () => {
+    const source = 'Read the [terms](https://example.com/terms) for %#@files@ at 100%%';
+    const pseudo = pseudoLocalize(source);
+
+    expect(pseudo).toContain('](https://example.com/terms)');
+    expect(pseudo).toContain('%#@files@');
+    expect(pseudo).toContain('100%%');
+    expect(validateTranslation(source, pseudo)).toEqual([]);
+  });
+
+  test('should mirror right-to-left pseudo-locales', () => {
+    expect(isRtlPseudoLocale('ar-XB')).toBe(true);
+    expect(isRtlPseudoLocale('en-XA')).toBe(false);
+    expect(pseudoLocalize('Hi %@', { rtl: true })).toBe('[\u200F\u202EHi \u202C\u200F%@ one]');
+  });
+
+  test('should leave empty strings empty', () => {
+    expect(pseudoLocalize('')).toBe('');
+  });
+});
@@ -0,0 +1,132 @@
+import { findConfigFile, parseRepoConfig } from '../src/helpers/repoConfig';
+import { applyDispatchInputs, DEFAULT_PR_CONFIG, resolveSettings } from '../src/helpers/settings';
+
+describe('repoConfig', () => {
+  const inputs = (values: { [name: string]: string }) => (name: string) => values[name] ?? '';
+
+  test('should parse YAML and JSON config files', () => {
+    const yamlConfig = parseRepoConfig(`
+catalogs: "App/Localizable.xcstrings, Widget/*.xcstrings"
+targetLanguages: [de, fr]
+languageProviders:
+  fr: deepl
+glossary:
+  - term: Vibe
+    doNotTranslate: true
+batch:
+  maxStrings: 20
+`, '.vibe-localizer.yml');
+    expect(yamlConfig).toEqual({
+      catalogs: ['App/Localizable.xcstrings', 'Widget/*.xcstrings'],
+      targetLanguages: ['de', 'fr'],
+      languageProviders: { fr: 'deepl' },
+      glossary: [{ term: 'Vibe', doNotTranslate: true }],
+      batch: { maxStrings: 20 }
+    });
+
+    expect(parseRepoConfig('{ "provider": "anthropic", "model": "claude-sonnet" }', '.vibe-localizer.json')).toEqual({ provider: 'anthropic', model: 'claude-sonnet' });
+    expect(parseRepoConfig('', '.vibe-localizer.yml')).toEqual({});
+  });
+
+  test('should report invalid settings by name', () => {
+    expect(() => parseRepoConfig('targetLanguage: [de]', 'config.yml')).toThrow("Invalid config file config.yml: unknown setting 'targetLanguage'. Expected one of: catalogs,");
+    expect(() => parseRepoConfig('batch: { maxStrings: 0 }', 'config.yml')).toThrow('Invalid config file config.yml: "batch.maxStrings" must be a positive integer, got 0.');
+    expect(() => parseRepoConfig('pullRequest: { label: l10n }', 'config.yml')).toThrow("unknown setting 'pullRequest.label'");
+    expect(() => parseRepoConfig('mode: commit', 'config.yml')).toThrow('"mode" must be "pull-request" or "commit-to-head", got "commit".');
+    expect(() => parseRepoConfig('pullRequest: { updateMode: rebase }', 'config.yml')).toThrow('"pullRequest.updateMode" must be "force" or "append", got "rebase".');
+    expect(() => parseRepoConfig('pullRequest: { reviewComments: yes please }', 'config.yml')).toThrow('"pullRequest.reviewComments" must be true or false, got "yes please".');
+    expect(() => parseRepoConfig('provider: gemini', 'config.yml')).toThrow('"provider" must be one of openai, azure-openai');
+    expect(() => parseRepoConfig('languageProviders: { de: google }', 'config.yml')).toThrow('"languageProviders.de" must be one of');
+    expect(() => parseRepoConfig('changedSourceStrategy: ignore', 'config.yml')).toThrow('"changedSourceStrategy" must be "retranslate" or "needs_review", got "ignore".');
+    expect(() => parseRepoConfig('glossary: [{ term: Vibe }]', 'config.yml')).toThrow('set "doNotTranslate": true or provide "translations"');
+    expect(() => parseRepoConfig('tokenPrices: { input: 0.15, output: 0.6 }', 'config.yml')).toThrow('"tokenPrices" has an unknown provider \'input\'');
+    expect(() => parseRepoConfig('tokenPrices: { openai: { gpt-4o-mini: { input: 0.15 } } }', 'config.yml')).toThrow('"tokenPrices.openai.gpt-4o-mini" must set both input and output prices');
+    expect(parseRepoConfig('tokenPrices: { openai-compatible: { llama3.1: { input: 0.2, output: 0.2 } } }', 'config.yml'))
+      .toEqual({ tokenPrices: { 'openai-compatible': { 'llama3.1': { input: 0.2, output: 0.2 } } } });
+    expect(() => parseRepoConfig('providerModels: { deepl: next-gen }', 'config.yml')).toThrow('"providerModels" has an unknown provider \'deepl\'. Expected one of: openai, azure-openai, anthropic, openai-compatible.');
+    expect(parseRepoConfig('providerModels: { anthropic: claude-3-5-haiku-latest }', 'config.yml')).toEqual({ providerModels: { anthropic: 'claude-3-5-haiku-latest' } });
+    expect(() => parseRepoConfig('- de', 'config.yml')).toThrow('Invalid config file config.yml: expected a mapping of settings');
+    expect(() => parseRepoConfig('targetLanguages: [de', 'config.yml')).toThrow('Failed to parse config file config.yml');
+  });
+
+  test('should find an explicit or default config file', () => {
+    const files = new Set(['.vibe-localizer.json', 'ci/localizer.yml']);
+    const exists = (filePath: string) => files.has(filePath);
+
+    expect(findConfigFile(undefined, exists)).toBe('.vibe-localizer.json');
+    expect(findConfigFile('ci/localizer.yml', exists)).toBe('ci/localizer.yml');
+    expect(() => findConfigFile('missing.yml', exists)).toThrow('Config file missing.yml does not exist.');
+    expect(findConfigFile(undefined, () => false)).toBeUndefined();
+  });
+
+  test('should let action inputs override the config file', () => {
+    const config = parseRepoConfig(`
+catalogs: ["**/*.xcstrings"]
+exclude: ["**/.build/**"]
+targetLanguages: [de, fr]
+pseudoLocales: [en-XA]
+provider: deepl
+systemPrompt: A fitness app.
+batch: { maxStrings: 20, retries: 0 }
+pullRequest: { title: Update translations }
+`, '.vibe-localizer.yml');
+
+    const fromConfig = resolveSettings(inputs({}), config, {});
+    expect(fromConfig.catalogPatterns).toEqual(['**/*.xcstrings', '!**/.build/**']);
+    expect(fromConfig.targetLanguages).toEqual(['de', 'fr', 'en-XA']);
+    expect(fromConfig.providerConfig).toMatchObject({ provider: 'deepl', model: 'gpt-4o-mini', languageProviders: { 'en-XA': 'pseudo' } });
+    expect(fromConfig.baseSystemPrompt).toBe('A fitness app.');
+    expect(fromConfig.batchOptions).toMatchObject({ maxStringsPerBatch: 20, maxTokensPerBatch: 8000, batchRetries: 0 });
+    expect(fromConfig.prConfig).toEqual({ ...DEFAULT_PR_CONFIG, prTitle: 'Update translations' });
+
+    const overridden = resolveSettings(inputs({
+      xcstrings_file_path: 'Localizable.xcstrings',
+      target_languages: 'ja',
+      provider: 'openai',
+      max_strings_per_batch: '5',
+      pr_title: 'i18n'
+    }), config, { VIBE_LOCALIZER_PROVIDER: 'mock' });
+    expect(overridden.catalogPatterns).toEqual(['Localizable.xcstrings', '!**/.build/**']);
+    expect(overridden.targetLanguages).toEqual(['ja', 'en-XA']);
+    expect(overridden.providerConfig.provider).toBe('openai');
+    expect(overridden.batchOptions.maxStringsPerBatch).toBe(5);
+    expect(overridden.prConfig.prTitle).toBe('i18n');
+    expect(overridden.mode).toBe('pull-request');
+    expect(resolveSettings(inputs({ target_languages: 'de', mode: 'commit-to-head' }), config, {}).mode).toBe('commit-to-head');
+
+    expect(resolveSettings(inputs({}), config, { VIBE_LOCALIZER_PROVIDER: 'mock' }).providerConfig.provider).toBe('mock');
+    // Resolving the same config repeatedly leaves its patterns untouched
+    expect(config.catalogs).toEqual(['**/*.xcstrings']);
+  });
+
+  test('should fail on missing or invalid settings', () => {
+    expect(() => resolveSettings(inputs({}), {}, {})).toThrow('No target languages or pseudo-locales specified.');
+    expect(() => resolveSettings(inputs({ target_languages: 'de', provider: 'anthropic' }), {}, {})).toThrow('The anthropic provider requires the model input or model in the config file');
+    expect(() => resolveSettings(inputs({ target_languages: 'de', batch_retries: '-1' }), {}, {})).toThrow("Invalid batch_retries '-1'. Expected a non-negative integer.");
+    expect(() => resolveSettings(inputs({ target_languages: 'de', pr_update_mode: 'merge' }), {}, {})).toThrow("Invalid pr_update_mode 'merge'. Expected 'force' or 'append'.");
+    expect(() => resolveSettings(inputs({ target_languages: 'de', review_comments: 'yes' }), {}, {})).toThrow("Invalid review_comments 'yes'. Expected 'true' or 'false'.");
+    expect(resolveSettings(inputs({ target_languages: 'de', review_comments: 'FALSE' }), { pullRequest: { reviewComments: true } }, {}).prConfig.reviewComments).toBe(false);
+    expect(resolveSettings(inputs({ target_languages: 'de', provider: 'anthropic' }), { model: 'claude-sonnet' }, {}).providerConfig.model).toBe('claude-sonnet');
+    expect(() => resolveSettings(inputs({ target_languages: 'de', token_prices: '0.15,0.60' }), {}, {}))
+      .toThrow("Invalid token_prices entry '0.15,0.60'. Expected 'provider:model=input,output' in US dollars per million tokens, e.g. 'openai:gpt-4o-mini=0.15,0.60'.");
+    expect(() => resolveSettings(inputs({ target_languages: 'de', token_prices: 'deepl:next-gen=1,1' }), {}, {}))
+      .toThrow("Invalid provider 'deepl' in token_prices. Expected one of: openai, azure-openai, anthropic, openai-compatible.");
+    expect(resolveSettings(inputs({ target_languages: 'de', token_prices: 'openai:gpt-4o-mini=0.075,0.30; openai:gpt-4o=1.25,5;anthropic:claude-3-5-haiku=0.8,4' }), {}, {}).tokenPrices).toEqual({
+      openai: { 'gpt-4o-mini': { input: 0.075, output: 0.3 }, 'gpt-4o': { input: 1.25, output: 5 } },
+      anthropic: { 'claude-3-5-haiku': { input: 0.8, output: 4 } }
+    });
+  });
+
+  test('should apply the inputs of a dispatched workflow', () => {
+    const settings = resolveSettings(inputs({ target_languages: 'de,fr,ja', force_keys: 'Hello, Bye' }), {}, {});
+    expect(settings.forceKeys).toEqual(['Hello', 'Bye']);
+    expect(resolveSettings(inputs({ target_languages: 'de', force_keys: 'Hello, world\nBye' }), {}, {}).forceKeys).toEqual(['Hello, world', 'Bye']);
+
+    const dispatched = applyDispatchInputs(settings, { languages: 'fr, ja', force_keys: 'Bye,Cancel', unrelated: true });
+    expect(dispatched.targetLanguages).toEqual(['fr', 'ja']);
+    expect(dispatched.forceKeys).toEqual(['Hello', 'Bye', 'Cancel']);
+    expect(applyDispatchInputs(settings, { languages: '' }).targetLanguages).toEqual(['de', 'fr', 'ja']);
+    expect(applyDispatchInputs(settings, undefined)).toEqual(settings);
+    expect(() => applyDispatchInputs(settings, { languages: 'fr,ko' })).toThrow("Invalid languages 'fr,ko'. ko is not among the target languages: de, fr, ja.");
+  });
+});
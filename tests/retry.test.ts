@@ -0,0 +1,111 @@
+jest.mock('@actions/core');
+
+import { computeBackoffDelay, parseRetryAfter, withRetry } from '../src/helpers/retry';
+import { salvageTranslationResults } from '../src/helpers/partialJsonParser';
+import { TranslationResponseError } from '../src/helpers/translationPrompt';
+import { DEFAULT_BATCH_OPTIONS, fetchValidatedTranslations } from '../src/services/localizationManager';
+import { MockTranslationService } from '../src/services/mockTranslationService';
+import { TranslationRequest } from '../src/types';
+
+describe('retry', () => {
+  test('should grow the backoff ceiling exponentially up to the maximum', () => {
+    const noJitter = () => 0.999999;
+    expect(computeBackoffDelay(1, 1000, 10000, noJitter)).toBe(1000);
+    expect(computeBackoffDelay(3, 1000, 10000, noJitter)).toBe(4000);
+    expect(computeBackoffDelay(10, 1000, 10000, noJitter)).toBe(10000);
+    expect(computeBackoffDelay(3, 1000, 10000, () => 0.5)).toBe(2000);
+  });
+
+  test('should parse Retry-After seconds and HTTP dates', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z');
+    expect(parseRetryAfter('3', now)).toBe(3000);
+    expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:10 GMT', now)).toBe(10000);
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+    expect(parseRetryAfter(undefined, now)).toBeUndefined();
+  });
+
+  test('should retry retryable errors and honor the requested delay', async () => {
+    const operation = jest.fn()
+      .mockRejectedValueOnce(new Error('rate limited'))
+      .mockResolvedValueOnce('done');
+    const onRetry = jest.fn();
+
+    const result = await withRetry(operation, {
+      maxAttempts: 3,
+      baseDelayMs: 1000,
+      maxDelayMs: 1000,
+      getRetryAfterMs: () => 0,
+      onRetry
+    });
+
+    expect(result).toBe('done');
+    expect(operation).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenCalledWith(expect.any(Error), 1, 0);
+  });
+
+  test('should not retry non-retryable errors', async () => {
+    const operation = jest.fn().mockRejectedValue(new Error('invalid api key'));
+
+    await expect(withRetry(operation, { maxAttempts: 3, baseDelayMs: 0, maxDelayMs: 0, isRetryable: () => false }))
+      .rejects.toThrow('invalid api key');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('salvageTranslationResults', () => {
+  test('should recover complete results from a truncated response', () => {
+    const truncated = '{"translations":[{"key":"save","unitPath":"","translations":{"es":"Guardar {1}"}},{"key":"cancel","unitPath":"","translations":{"es":"Cance';
+
+    expect(salvageTranslationResults(truncated)).toEqual([
+      { key: 'save', unitPath: '', translations: { es: 'Guardar {1}' } }
+    ]);
+  });
+
+  test('should return nothing when no translations array is present', () => {
+    expect(salvageTranslationResults('{"error": "oops"}')).toEqual([]);
+  });
+});
+
+describe('batch retries', () => {
+  const requests: TranslationRequest[] = ['One', 'Two', 'Three'].map(text => ({ key: text, text, targetLanguages: ['de'] }));
+  const translate = (batch: TranslationRequest[]) => ({
+    translations: batch.map(request => ({ key: request.key, translations: { de: `[de] ${request.text}` } }))
+  });
+  let getBatchTranslations: jest.SpyInstance;
+
+  beforeEach(() => {
+    getBatchTranslations = jest.spyOn(MockTranslationService.prototype, 'getBatchTranslations');
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should send a batch again only when its response could not be read', async () => {
+    getBatchTranslations
+      .mockRejectedValueOnce(new TranslationResponseError('Malformed JSON in Mock response', { requests: 1, promptTokens: 100, completionTokens: 40, characters: 0 }))
+      .mockImplementationOnce(async batch => ({ ...translate(batch), usage: { requests: 1, promptTokens: 100, completionTokens: 30, characters: 0 } }));
+    const response = await fetchValidatedTranslations(requests, 'en', { provider: 'mock', model: '' });
+    expect(response.translations).toHaveLength(3);
+    expect(getBatchTranslations).toHaveBeenCalledTimes(2);
+    // The unreadable response was billed too
+    expect(response.providerUsage).toEqual([{ provider: 'mock', requests: 2, promptTokens: 200, completionTokens: 70, characters: 0 }]);
+
+    getBatchTranslations.mockReset().mockRejectedValue(new Error('401 Incorrect API key provided'));
+    await expect(fetchValidatedTranslations(requests, 'en', { provider: 'mock', model: '' })).rejects.toThrow('All 1 translation batches failed.');
+    expect(getBatchTranslations).toHaveBeenCalledTimes(1);
+  });
+
+  test('should split a batch truncated before a single translation', async () => {
+    getBatchTranslations
+      .mockResolvedValueOnce({ translations: [], truncated: true, usage: { requests: 1, promptTokens: 100, completionTokens: 8192, characters: 0 } })
+      .mockImplementation(async batch => ({ ...translate(batch), usage: { requests: 1, promptTokens: 50, completionTokens: 10, characters: 0 } }));
+
+    const response = await fetchValidatedTranslations(requests, 'en', { provider: 'mock', model: '' }, '', { ...DEFAULT_BATCH_OPTIONS, followUpRetries: 0 });
+    expect(getBatchTranslations.mock.calls.map(call => call[0].map((request: TranslationRequest) => request.key))).toEqual([['One', 'Two', 'Three'], ['One', 'Two'], ['Three']]);
+    expect(response.translations.map(result => result.translations.de)).toEqual(['[de] One', '[de] Two', '[de] Three']);
+    expect(response.failedRequests).toEqual([]);
+    expect(response.providerUsage).toEqual([{ provider: 'mock', requests: 3, promptTokens: 200, completionTokens: 8212, characters: 0 }]);
+  });
+});
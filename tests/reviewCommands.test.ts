@@ -0,0 +1,149 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { formatReviewCommandReply, parseReviewCommands } from '../src/helpers/reviewCommands';
+import { resolveSettings } from '../src/helpers/settings';
+import { MockTranslationService } from '../src/services/mockTranslationService';
+import { runReviewCommands } from '../src/services/reviewCommandRunner';
+import { XCStrings } from '../src/types';
+
+jest.mock('@actions/core');
+
+describe('reviewCommands', () => {
+  test('should parse commands with quoted arguments and forms', () => {
+    expect(parseReviewCommands([
+      'Thanks, a few fixes:',
+      '/retranslate "Sign in" de "use a shorter phrase"',
+      '/set "%lld files [plural.one]" fr “%lld fichier”',
+      '/retranslate Cancel ja',
+      '> /set Quoted de "Ignored"',
+      '```',
+      '/set InCode de "Ignored"',
+      '```',
+      '/set Hello de',
+      '/set Hello de "Hallo'
+    ].join('\r\n'))).toEqual([
+      { line: '/retranslate "Sign in" de "use a shorter phrase"', command: { action: 'retranslate', key: 'Sign in', language: 'de', hint: 'use a shorter phrase' } },
+      { line: '/set "%lld files [plural.one]" fr “%lld fichier”', command: { action: 'set', key: '%lld files', unitPath: 'plural.one', language: 'fr', value: '%lld fichier' } },
+      { line: '/retranslate Cancel ja', command: { action: 'retranslate', key: 'Cancel', language: 'ja' } },
+      { line: '/set Hello de', error: expect.stringContaining('Expected a key, a language and a value. Usage:') },
+      { line: '/set Hello de "Hallo', error: expect.stringContaining('Missing closing quote.') }
+    ]);
+    expect(parseReviewCommands('/settings are great')).toEqual([]);
+  });
+
+  test('should format the reply', () => {
+    expect(formatReviewCommandReply([
+      { line: '/set Hello de "Hallo"', succeeded: true, message: 'Localizable.xcstrings: "Hi" → "Hallo"' },
+      { line: '/set Bye xx "Tschüss"', succeeded: false, message: '`xx` is not a target language. Expected one of: de.' }
+    ], 'Pushed the changes to `main`.')).toBe(
+      '✅ `/set Hello de "Hallo"`\n> Localizable.xcstrings: "Hi" → "Hallo"\n\n' +
+      '❌ `/set Bye xx "Tschüss"`\n> `xx` is not a target language. Expected one of: de.\n\n' +
+      'Pushed the changes to `main`.'
+    );
+  });
+
+  describe('runReviewCommands', () => {
+    const originalCwd = process.cwd();
+    let tempDir: string;
+    const catalog: XCStrings = {
+      sourceLanguage: 'en',
+      version: '1.0',
+      strings: {
+        'Hello': { comment: 'Greeting', localizations: { de: { stringUnit: { state: 'translated', value: 'Hallo' } } } },
+        '%lld files': {
+          localizations: {
+            en: { variations: { plural: { one: { stringUnit: { state: 'translated', value: '%lld file' } }, other: { stringUnit: { state: 'translated', value: '%lld files' } } } } }
+          }
+        },
+        'Vibe': { shouldTranslate: false }
+      }
+    };
+    const settings = (inputs: { [name: string]: string } = {}) => resolveSettings(name => ({ target_languages: 'de', provider: 'mock', ...inputs })[name] ?? '', {}, {});
+    const readCatalog = () => JSON.parse(fs.readFileSync('Localizable.xcstrings', 'utf8')) as XCStrings;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'review-commands-'));
+      process.chdir(tempDir);
+    });
+
+    afterEach(() => {
+      process.chdir(originalCwd);
+      fs.rmSync(tempDir, { recursive: true, force: true });
+      jest.restoreAllMocks();
+    });
+
+    test('should set translations and remember them', async () => {
+      const { results, changedFiles } = await runReviewCommands(parseReviewCommands([
+        '/set Hello de "Servus"',
+        '/set "%lld files [plural.other]" de "%lld Dateien"',
+        '/set "%lld files" de "Dateien"',
+        '/set "%lld files [plural.other]" de "Dateien"',
+        '/set Vibe de "Vibe"',
+        '/set Bye de "Tschüss"'
+      ].join('\n')), [{ filePath: 'Localizable.xcstrings', currentXcstringsData: JSON.parse(JSON.stringify(catalog)) }], settings({ translation_memory_path: 'memory.json' }));
+
+      expect(results.map(result => [result.succeeded, result.message])).toEqual([
+        [true, 'Localizable.xcstrings: "Hallo" → "Servus"'],
+        [true, 'Localizable.xcstrings [plural.other]: "%lld Dateien"'],
+        [false, expect.stringContaining('`%lld files` varies by plural or device in Localizable.xcstrings. Add the form to the key, e.g. `/set "%lld files [plural.one]" de "…"`.')],
+        [false, expect.stringContaining('"Dateien" does not match the source text "%lld files": format specifiers differ')],
+        [false, '`Vibe` is marked as not translatable in Localizable.xcstrings.'],
+        [false, '`Bye` is not in any catalog (Localizable.xcstrings).']
+      ]);
+      expect(changedFiles).toEqual(['Localizable.xcstrings', 'memory.json']);
+      const updated = readCatalog();
+      expect(updated.strings['Hello'].localizations?.de?.stringUnit).toEqual({ state: 'translated', value: 'Servus' });
+      expect(updated.strings['%lld files'].localizations?.de?.variations?.plural?.other?.stringUnit?.value).toBe('%lld Dateien');
+      expect(updated.strings['Vibe'].localizations).toBeUndefined();
+      expect(fs.readFileSync('memory.json', 'utf8')).toContain('"de": "Servus"');
+    });
+
+    test('should not set a plural form before the other form', async () => {
+      const { results, changedFiles } = await runReviewCommands(parseReviewCommands([
+        '/set "%lld files [plural.one]" de "%lld Datei"',
+        '/set "%lld files [plural.other]" de "%lld Dateien"',
+        '/set "%lld files [plural.one]" de "%lld Datei"'
+      ].join('\n')), [{ filePath: 'Localizable.xcstrings', currentXcstringsData: JSON.parse(JSON.stringify(catalog)) }], settings());
+
+      expect(results.map(result => [result.succeeded, result.message])).toEqual([
+        [false, '`%lld files` has no `other` plural form in de in Localizable.xcstrings, which Xcode requires. Set the `other` form first, e.g. `/set "%lld files [plural.other]" de "…"`.'],
+        [true, 'Localizable.xcstrings [plural.other]: "%lld Dateien"'],
+        [true, 'Localizable.xcstrings [plural.one]: "%lld Datei"']
+      ]);
+      expect(changedFiles).toEqual(['Localizable.xcstrings']);
+      expect(readCatalog().strings['%lld files'].localizations?.de?.variations?.plural).toEqual({
+        one: { stringUnit: { state: 'translated', value: '%lld Datei' } },
+        other: { stringUnit: { state: 'translated', value: '%lld Dateien' } }
+      });
+    });
+
+    test('should retranslate with the reviewer feedback', async () => {
+      const getBatchTranslations = jest.spyOn(MockTranslationService.prototype, 'getBatchTranslations');
+
+      const { results, changedFiles } = await runReviewCommands(
+        parseReviewCommands('/retranslate Hello de "less formal"'),
+        [{ filePath: 'Localizable.xcstrings', currentXcstringsData: JSON.parse(JSON.stringify(catalog)) }],
+        settings()
+      );
+
+      expect(results).toEqual([expect.objectContaining({ succeeded: true, message: 'Localizable.xcstrings: "Hallo" → "[de] Hello"' })]);
+      expect(getBatchTranslations.mock.calls[0][0]).toEqual([{
+        key: 'Hello',
+        text: 'Hello',
+        targetLanguages: ['de'],
+        comment: 'Greeting\n\nA reviewer rejected the translation "Hallo". Reviewer feedback: less formal'
+      }]);
+      expect(changedFiles).toEqual(['Localizable.xcstrings']);
+      expect(readCatalog().strings['Hello'].localizations?.de?.stringUnit?.value).toBe('[de] Hello');
+    });
+
+    test('should not write anything when every command fails', async () => {
+      const { results, changedFiles } = await runReviewCommands(parseReviewCommands('/set Hello xx "Hallo"'), [{ filePath: 'Localizable.xcstrings', currentXcstringsData: JSON.parse(JSON.stringify(catalog)) }], settings());
+
+      expect(results[0]).toEqual(expect.objectContaining({ succeeded: false, message: '`xx` is not a target language. Expected one of: de.' }));
+      expect(changedFiles).toEqual([]);
+      expect(fs.existsSync('Localizable.xcstrings')).toBe(false);
+    });
+  });
+});
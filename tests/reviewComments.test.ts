@@ -0,0 +1,74 @@
+import { buildReviewComments, findStringValueLines, formatReviewComment, parseAddedLines } from '../src/helpers/reviewComments';
+import { formatXcstringsJson } from '../src/helpers/xcstringsFormatter';
+import { XCStrings } from '../src/types';
+
+describe('reviewComments', () => {
+  const catalog: XCStrings = {
+    sourceLanguage: 'en',
+    version: '1.0',
+    strings: {
+      'Hello': {
+        comment: 'Greeting',
+        localizations: {
+          de: { stringUnit: { state: 'translated', value: 'Hallo "Welt"' } }
+        }
+      },
+      '%lld files': {
+        localizations: {
+          de: {
+            variations: {
+              plural: {
+                one: { stringUnit: { state: 'translated', value: '%lld Datei' } },
+                other: { stringUnit: { state: 'translated', value: '%lld Dateien' } }
+              }
+            }
+          }
+        }
+      }
+    }
+  };
+  const content = formatXcstringsJson(catalog);
+  const lines = content.split('\n');
+  const lineOf = (text: string) => lines.findIndex(line => line.includes(text)) + 1;
+
+  test('should find the line of each string value', () => {
+    const valueLines = findStringValueLines(content);
+    expect(valueLines.get(JSON.stringify(['strings', 'Hello', 'localizations', 'de', 'stringUnit', 'value']))).toBe(lineOf('Hallo'));
+    expect(valueLines.get(JSON.stringify(['strings', '%lld files', 'localizations', 'de', 'variations', 'plural', 'other', 'stringUnit', 'value']))).toBe(lineOf('%lld Dateien'));
+    expect(valueLines.get(JSON.stringify(['sourceLanguage']))).toBe(2);
+  });
+
+  test('should list the added lines of a patch', () => {
+    const patch = '@@ -1,3 +1,4 @@\n {\n-  "a" : 1\n+  "a" : 2,\n+  "b" : 3\n }\n@@ -10,2 +11,2 @@\n   "c" : 4\n+  "d" : 5';
+    expect([...parseAddedLines(patch)]).toEqual([2, 3, 12]);
+  });
+
+  test('should comment on new translations on added lines', () => {
+    const newTranslations = [
+      { filePath: './Localizable.xcstrings', key: 'Hello', language: 'de', source: 'Hello', comment: 'Greeting', translation: 'Hallo "Welt"' },
+      { filePath: 'Localizable.xcstrings', key: '%lld files', language: 'de', unitPath: 'plural.one', source: '%lld file', translation: '%lld Datei' },
+      { filePath: 'Localizable.xcstrings', key: '%lld files', language: 'de', unitPath: 'plural.other', source: '%lld files', translation: '%lld Dateien' },
+      { filePath: 'Other.xcstrings', key: 'Bye', language: 'de', source: 'Bye', translation: 'Tschüss' }
+    ];
+    const addedLines = new Map([['Localizable.xcstrings', new Set([lineOf('Hallo'), lineOf('%lld Datei"')])]]);
+
+    const comments = buildReviewComments(newTranslations, () => content, addedLines);
+
+    expect(comments.map(({ path, line }) => ({ path, line }))).toEqual([
+      { path: 'Localizable.xcstrings', line: lineOf('Hallo') },
+      { path: 'Localizable.xcstrings', line: lineOf('%lld Datei"') }
+    ]);
+    expect(comments[0].body).toBe(formatReviewComment(newTranslations[0], '            "value" : "Hallo \\"Welt\\""'));
+    expect(comments[0].body).toContain('**de** translation of `Hello`\n\n**Source:**\n> Hello\n\n**Comment:**\n> Greeting\n\n');
+    expect(comments[0].body).toContain('```suggestion\n            "value" : "Hallo \\"Welt\\""\n```');
+    expect(comments[1].body).toContain('**de** translation of `%lld files [plural.one]`');
+  });
+
+  test('should skip translations that share a line with other content', () => {
+    const minified = JSON.stringify(catalog);
+    const comments = buildReviewComments([
+      { filePath: 'Localizable.xcstrings', key: 'Hello', language: 'de', source: 'Hello', translation: 'Hallo "Welt"' }
+    ], () => minified, new Map([['Localizable.xcstrings', new Set([1])]]));
+    expect(comments).toEqual([]);
+  });
+});
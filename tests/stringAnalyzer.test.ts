@@ -1,4 +1,5 @@
 import { analyzeStringsForTranslation } from '../src/helpers/stringAnalyzer';
+import { TranslationMemory } from '../src/helpers/translationMemory';
 import { XCStrings } from '../src/types';
 
 describe('analyzeStringsForTranslation', () => {
@@ -185,4 +186,294 @@ describe('analyzeStringsForTranslation', () => {
     expect(result.stringTranslationMap.size).toBe(0);
     expect(result.xcstringsModified).toBe(false);
   });
-}); 
\ No newline at end of file
+
+  test('should request the plural categories each target language requires', () => {
+    const xcstringsData: XCStrings = {
+      sourceLanguage: 'en',
+      version: '1.0',
+      strings: {
+        '%lld items': {
+          comment: 'Number of items in the cart',
+          localizations: {
+            'en': {
+              variations: {
+                plural: {
+                  'one': { stringUnit: { state: 'translated', value: '%lld item' } },
+                  'other': { stringUnit: { state: 'translated', value: '%lld items' } }
+                }
+              }
+            },
+            'ja': {
+              variations: {
+                plural: {
+                  'other': { stringUnit: { state: 'translated', value: '%lld個のアイテム' } }
+                }
+              }
+            }
+          }
+        }
+      }
+    };
+
+    const result = analyzeStringsForTranslation(xcstringsData, ['ru', 'ja']);
+
+    expect(result.translationRequests.map(req => [req.unitPath, req.text, req.targetLanguages])).toEqual([
+      ['plural.one', '%lld item', ['ru']],
+      ['plural.few', '%lld items', ['ru']],
+      ['plural.many', '%lld items', ['ru']],
+      ['plural.other', '%lld items', ['ru']]
+    ]);
+    expect(result.translationRequests[0].comment).toBe('Number of items in the cart');
+
+    const mapping = result.stringTranslationMap.get('%lld items');
+    expect(mapping!.languages).toEqual(['ru']);
+    expect(mapping!.isNew.get('ru')).toBe(true);
+    expect(result.modifiedXcstringsData.strings['%lld items'].localizations!['ru']).toEqual({});
+  });
+
+  test('should expand device variations with nested plurals', () => {
+    const xcstringsData: XCStrings = {
+      sourceLanguage: 'en',
+      version: '1.0',
+      strings: {
+        'tap_to_continue': {
+          localizations: {
+            'en': {
+              variations: {
+                device: {
+                  'iphone': { stringUnit: { state: 'translated', value: 'Tap to continue' } },
+                  'mac': { stringUnit: { state: 'translated', value: 'Click to continue' } },
+                  'other': {
+                    variations: {
+                      plural: {
+                        'one': { stringUnit: { state: 'translated', value: 'Press %lld key' } },
+                        'other': { stringUnit: { state: 'translated', value: 'Press %lld keys' } }
+                      }
+                    }
+                  }
+                }
+              }
+            },
+            'de': {
+              variations: {
+                device: {
+                  'iphone': { stringUnit: { state: 'translated', value: 'Tippen, um fortzufahren' } }
+                }
+              }
+            }
+          }
+        }
+      }
+    };
+
+    const result = analyzeStringsForTranslation(xcstringsData, ['de']);
+
+    expect(result.translationRequests.map(req => req.unitPath)).toEqual([
+      'device.mac',
+      'device.other.plural.one',
+      'device.other.plural.other'
+    ]);
+    expect(result.stringTranslationMap.get('tap_to_continue')!.isNew.get('de')).toBe(false);
+  });
+
+  test('should request the outer string and each substitution variation', () => {
+    const xcstringsData: XCStrings = {
+      sourceLanguage: 'en',
+      version: '1.0',
+      strings: {
+        '%#@files@ in %#@folders@': {
+          localizations: {
+            'en': {
+              stringUnit: { state: 'translated', value: '%#@files@ in %#@folders@' },
+              substitutions: {
+                'files': {
+                  argNum: 1,
+                  formatSpecifier: 'lld',
+                  variations: {
+                    plural: {
+                      'one': { stringUnit: { state: 'translated', value: '%arg file' } },
+                      'other': { stringUnit: { state: 'translated', value: '%arg files' } }
+                    }
+                  }
+                },
+                'folders': {
+                  argNum: 2,
+                  formatSpecifier: 'lld',
+                  variations: {
+                    plural: {
+                      'one': { stringUnit: { state: 'translated', value: '%arg folder' } },
+                      'other': { stringUnit: { state: 'translated', value: '%arg folders' } }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    };
+
+    const result = analyzeStringsForTranslation(xcstringsData, ['ja']);
+
+    expect(result.translationRequests.map(req => [req.unitPath, req.text])).toEqual([
+      [undefined, '%#@files@ in %#@folders@'],
+      ['substitutions.files.plural.other', '%arg files'],
+      ['substitutions.folders.plural.other', '%arg folders']
+    ]);
+  });
+
+  test('should use the source-language value as the text to translate', () => {
+    const xcstringsData: XCStrings = {
+      sourceLanguage: 'en',
+      version: '1.0',
+      strings: {
+        'onboarding.welcome.title': {
+          localizations: {
+            'en': { stringUnit: { state: 'translated', value: 'Welcome aboard!' } }
+          }
+        }
+      }
+    };
+
+    const result = analyzeStringsForTranslation(xcstringsData, ['es']);
+
+    expect(result.translationRequests).toHaveLength(1);
+    expect(result.translationRequests[0].text).toBe('Welcome aboard!');
+  });
+
+  test('should re-translate existing translations when the source value changed since the base commit', () => {
+    const buildCatalog = (englishValue: string): XCStrings => ({
+      sourceLanguage: 'en',
+      version: '1.0',
+      strings: {
+        'onboarding.welcome.title': {
+          localizations: {
+            'en': { stringUnit: { state: 'translated', value: englishValue } },
+            'es': { stringUnit: { state: 'translated', value: '¡Bienvenido!' } }
+          }
+        },
+        'onboarding.welcome.subtitle': {
+          localizations: {
+            'en': { stringUnit: { state: 'translated', value: 'Let\'s get started' } },
+            'es': { stringUnit: { state: 'translated', value: 'Comencemos' } }
+          }
+        }
+      }
+    });
+    const baseXcstringsData = buildCatalog('Welcome!');
+    const xcstringsData = buildCatalog('Welcome aboard!');
+
+    const result = analyzeStringsForTranslation(xcstringsData, ['es'], baseXcstringsData);
+
+    expect(result.translationRequests).toHaveLength(1);
+    expect(result.translationRequests[0]).toEqual({
+      key: 'onboarding.welcome.title',
+      text: 'Welcome aboard!',
+      targetLanguages: ['es'],
+      comment: undefined,
+      unitPath: undefined
+    });
+    expect(result.stringTranslationMap.get('onboarding.welcome.title')!.isNew.get('es')).toBe(false);
+  });
+
+  test('should mark translations as needs review when the source comment changed', () => {
+    const buildCatalog = (comment: string): XCStrings => ({
+      sourceLanguage: 'en',
+      version: '1.0',
+      strings: {
+        'Book': {
+          comment: comment,
+          localizations: {
+            'de': { stringUnit: { state: 'translated', value: 'Buch' } },
+            'fr': { stringUnit: { state: 'needs_review', value: 'Livre' } }
+          }
+        }
+      }
+    });
+    const baseXcstringsData = buildCatalog('A printed book');
+    const xcstringsData = buildCatalog('Button title for reserving a table');
+
+    const result = analyzeStringsForTranslation(xcstringsData, ['de', 'fr'], baseXcstringsData, 'needs_review');
+
+    expect(result.translationRequests).toHaveLength(0);
+    expect(result.translationChanges.needsReview).toEqual(['Book (de)']);
+    expect(result.xcstringsModified).toBe(true);
+    expect(result.modifiedXcstringsData.strings['Book'].localizations!['de'].stringUnit).toEqual({
+      state: 'needs_review',
+      value: 'Buch'
+    });
+
+    const retranslateResult = analyzeStringsForTranslation(xcstringsData, ['de', 'fr'], baseXcstringsData);
+    expect(retranslateResult.translationRequests[0].targetLanguages).toEqual(['de', 'fr']);
+    expect(retranslateResult.translationChanges.needsReview).toHaveLength(0);
+  });
+
+  test('should fill units from the translation memory instead of requesting them', () => {
+    const translationMemory = new TranslationMemory();
+    translationMemory.record('Cancel', '', undefined, 'de', 'Abbrechen');
+    translationMemory.record('%lld file', 'plural.one', undefined, 'de', '%lld Datei');
+    translationMemory.record('%lld files', '', undefined, 'de', '%lld Dateien');
+
+    const xcstringsData: XCStrings = {
+      sourceLanguage: 'en',
+      version: '1.0',
+      strings: {
+        'cancel_button': {
+          localizations: { 'en': { stringUnit: { state: 'translated', value: 'Cancel' } } }
+        },
+        '%lld files': {
+          localizations: {
+            'en': {
+              variations: {
+                plural: {
+                  one: { stringUnit: { state: 'translated', value: '%lld file' } },
+                  other: { stringUnit: { state: 'translated', value: '%lld files' } }
+                }
+              }
+            }
+          }
+        }
+      }
+    };
+
+    const result = analyzeStringsForTranslation(xcstringsData, ['de', 'fr'], undefined, 'retranslate', translationMemory);
+
+    expect(result.translationMemoryHits).toBe(2);
+    expect(result.translationChanges.added).toEqual(['cancel_button (de)', '%lld files (de)']);
+    expect(result.modifiedXcstringsData.strings['cancel_button'].localizations!['de'].stringUnit).toEqual({
+      state: 'translated',
+      value: 'Abbrechen'
+    });
+    expect(result.modifiedXcstringsData.strings['%lld files'].localizations!['de'].variations!.plural!['one'].stringUnit!.value).toBe('%lld Datei');
+    // Memory entries are specific to their unit path, so the top-level translation is not used for plural.other
+    expect(result.translationRequests.map(request => [request.key, request.unitPath, request.targetLanguages])).toEqual([
+      ['cancel_button', undefined, ['fr']],
+      ['%lld files', 'plural.other', ['de', 'fr']],
+      ['%lld files', 'plural.one', ['fr']],
+      ['%lld files', 'plural.many', ['fr']]
+    ]);
+  });
+
+  test('should request forced keys again, bypassing the translation memory', () => {
+    const translationMemory = new TranslationMemory();
+    translationMemory.record('Cancel', '', undefined, 'de', 'Abbrechen');
+
+    const xcstringsData: XCStrings = {
+      sourceLanguage: 'en',
+      version: '1.0',
+      strings: {
+        'Cancel': { localizations: { 'de': { stringUnit: { state: 'translated', value: 'Abbrechen' } } } },
+        'Done': { localizations: { 'de': { stringUnit: { state: 'translated', value: 'Fertig' } } } }
+      }
+    };
+
+    const result = analyzeStringsForTranslation(xcstringsData, ['de', 'fr'], undefined, 'retranslate', translationMemory, ['Cancel']);
+
+    expect(result.translationMemoryHits).toBe(0);
+    expect(result.translationRequests.map(request => [request.key, request.targetLanguages])).toEqual([
+      ['Cancel', ['de', 'fr']],
+      ['Done', ['fr']]
+    ]);
+    expect(result.stringTranslationMap.get('Cancel')!.isNew).toEqual(new Map([['de', false], ['fr', true]]));
+  });
+});
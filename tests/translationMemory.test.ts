@@ -0,0 +1,86 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TranslationMemory } from '../src/helpers/translationMemory';
+import { XCStrings } from '../src/types';
+
+describe('TranslationMemory', () => {
+  const buildCatalog = (sourceValue: string): XCStrings => ({
+    sourceLanguage: 'en',
+    version: '1.0',
+    strings: {
+      'done_button': {
+        comment: 'Toolbar button',
+        localizations: {
+          'en': { stringUnit: { state: 'translated', value: sourceValue } },
+          'de': { stringUnit: { state: 'translated', value: 'Fertig' } },
+          'fr': { stringUnit: { state: 'needs_review', value: 'Terminé' } }
+        }
+      },
+      'Cancel': {
+        localizations: {
+          'de': { stringUnit: { state: 'translated', value: 'Abbrechen' } }
+        }
+      },
+      'internal_id': {
+        shouldTranslate: false,
+        localizations: {
+          'de': { stringUnit: { state: 'translated', value: 'ignored' } }
+        }
+      }
+    }
+  });
+
+  test('should remember reviewed translations from a catalog', () => {
+    const memory = new TranslationMemory();
+    memory.addCatalog(buildCatalog('Done'));
+
+    expect(memory.lookup('Done', '', 'Toolbar button', 'de')).toBe('Fertig');
+    expect(memory.lookup('Done', '', undefined, 'de')).toBeUndefined();
+    expect(memory.lookup('Done', '', 'Toolbar button', 'fr')).toBeUndefined();
+    expect(memory.lookup('Cancel', '', undefined, 'de')).toBe('Abbrechen');
+    expect(memory.size).toBe(2);
+
+    const withoutGerman = new TranslationMemory();
+    withoutGerman.addCatalog(buildCatalog('Done'), undefined, ['de']);
+    expect(withoutGerman.size).toBe(0);
+  });
+
+  test('should skip translations whose source changed since the base commit', () => {
+    const memory = new TranslationMemory();
+    memory.addCatalog(buildCatalog('Finish'), buildCatalog('Done'));
+
+    expect(memory.lookup('Finish', '', 'Toolbar button', 'de')).toBeUndefined();
+    expect(memory.lookup('Cancel', '', undefined, 'de')).toBe('Abbrechen');
+  });
+
+  test('should round-trip through a sorted JSON file', () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'translation-memory-'));
+    const filePath = path.join(directory, 'nested', 'memory.json');
+
+    try {
+      const memory = TranslationMemory.load(filePath);
+      expect(memory.size).toBe(0);
+      memory.record('Save', '', undefined, 'fr', 'Enregistrer');
+      memory.record('Save', '', undefined, 'de', 'Sichern');
+      memory.record('%lld items', 'plural.one', 'Item count', 'de', '%lld Element');
+      expect(memory.hasChanges).toBe(true);
+      memory.save(filePath);
+
+      expect(JSON.parse(fs.readFileSync(filePath, 'utf8'))).toEqual({
+        version: 1,
+        entries: [
+          { source: '%lld items', unitPath: 'plural.one', comment: 'Item count', translations: { de: '%lld Element' } },
+          { source: 'Save', translations: { de: 'Sichern', fr: 'Enregistrer' } }
+        ]
+      });
+
+      const reloaded = TranslationMemory.load(filePath);
+      expect(reloaded.lookup('%lld items', 'plural.one', 'Item count', 'de')).toBe('%lld Element');
+      reloaded.record('Save', '', undefined, 'de', 'Sichern');
+      expect(reloaded.hasChanges).toBe(false);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
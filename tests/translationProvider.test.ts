@@ -0,0 +1,140 @@
+jest.mock('@actions/core');
+
+import * as deepl from 'deepl-node';
+import OpenAI from 'openai';
+import Anthropic from '@anthropic-ai/sdk';
+import { createTranslationProvider, getProviderForLanguage, getProviderModel, isProviderName, parseLanguageProviders, parseProviderModels, ProviderConfig } from '../src/services/translationProvider';
+import { OpenAIService } from '../src/services/openaiService';
+import { AnthropicService } from '../src/services/anthropicService';
+import { DeepLService, protectText } from '../src/services/deeplService';
+import { MockTranslationService } from '../src/services/mockTranslationService';
+import { PseudoLocalizationService } from '../src/services/pseudoLocalizationService';
+import { resolveSettings } from '../src/helpers/settings';
+
+describe('translationProvider', () => {
+  test('should recognize supported providers', () => {
+    expect(isProviderName('azure-openai')).toBe(true);
+    expect(isProviderName('deepl')).toBe(true);
+    expect(isProviderName('mock')).toBe(true);
+    expect(isProviderName('gemini')).toBe(false);
+  });
+
+  test('should parse per-language provider overrides', () => {
+    expect(parseLanguageProviders(' de:deepl, fr : deepl ,')).toEqual({ de: 'deepl', fr: 'deepl' });
+    expect(parseLanguageProviders('')).toEqual({});
+  });
+
+  test('should reject malformed overrides with actionable errors', () => {
+    expect(() => parseLanguageProviders('de')).toThrow("Invalid language_providers entry 'de'. Expected 'language:provider', e.g. 'de:deepl'.");
+    expect(() => parseLanguageProviders('de:google')).toThrow("Invalid provider 'google' for language 'de'");
+  });
+
+  test('should route languages to their configured provider', () => {
+    const config: ProviderConfig = { provider: 'anthropic', model: 'claude', languageProviders: { de: 'deepl' } };
+
+    expect(getProviderForLanguage('de', config)).toBe('deepl');
+    expect(getProviderForLanguage('ja', config)).toBe('anthropic');
+  });
+
+  test('should parse the models of override providers', () => {
+    expect(parseProviderModels('anthropic: claude-3-5-haiku-latest, openai-compatible:llama3.1:8b')).toEqual({
+      anthropic: 'claude-3-5-haiku-latest',
+      'openai-compatible': 'llama3.1:8b'
+    });
+    expect(() => parseProviderModels('anthropic')).toThrow("Invalid provider_models entry 'anthropic'. Expected 'provider:model'");
+    expect(() => parseProviderModels('deepl:next-gen')).toThrow("Invalid provider 'deepl' in provider_models. Expected one of: openai, azure-openai, anthropic, openai-compatible.");
+  });
+
+  test('should only share the main model with providers that accept it', () => {
+    const config: ProviderConfig = { provider: 'openai', model: 'gpt-4o-mini', providerModels: { anthropic: 'claude-3-5-haiku-latest' } };
+
+    expect(getProviderModel('openai', config)).toBe('gpt-4o-mini');
+    expect(getProviderModel('azure-openai', config)).toBe('gpt-4o-mini');
+    expect(getProviderModel('anthropic', config)).toBe('claude-3-5-haiku-latest');
+    expect(getProviderModel('openai-compatible', config)).toBeUndefined();
+    expect(getProviderModel('deepl', config)).toBeUndefined();
+
+    const readInput = (values: { [name: string]: string }) => (name: string) => values[name] ?? '';
+    expect(() => resolveSettings(readInput({ target_languages: 'de,ja', language_providers: 'ja:anthropic' }), {}, {}))
+      .toThrow("The anthropic provider used for 'ja' cannot use the openai model 'gpt-4o-mini'. Set its model in the provider_models input or providerModels in the config file, e.g. 'anthropic:<model>'.");
+    const settings = resolveSettings(readInput({ target_languages: 'de,ja', language_providers: 'ja:anthropic', provider_models: 'anthropic:claude-3-5-haiku-latest' }), {}, {});
+    expect(settings.providerConfig.providerModels).toEqual({ anthropic: 'claude-3-5-haiku-latest' });
+  });
+
+  describe('construction', () => {
+    const env = process.env;
+
+    beforeEach(() => {
+      process.env = { ...env, OPENAI_API_KEY: 'openai-key', ANTHROPIC_API_KEY: 'anthropic-key', DEEPL_API_KEY: 'deepl-key:fx' };
+    });
+
+    afterEach(() => {
+      process.env = env;
+    });
+
+    test('should construct each provider with its model, and the endpoint only for the main provider', async () => {
+      const config: ProviderConfig = {
+        provider: 'openai-compatible',
+        model: 'llama3.1',
+        baseUrl: 'http://localhost:11434/v1',
+        providerModels: { anthropic: 'claude-3-5-haiku-latest' }
+      };
+      const requests = [{ key: 'Hello', text: 'Hello', targetLanguages: ['de'] }];
+      // The requests are captured before they reach the network
+      const openaiPost = jest.spyOn(OpenAI.prototype, 'post').mockRejectedValue(new Error('offline'));
+      const anthropicPost = jest.spyOn(Anthropic.prototype, 'post').mockRejectedValue(new Error('offline'));
+
+      const compatible = createTranslationProvider('openai-compatible', config);
+      expect(compatible).toBeInstanceOf(OpenAIService);
+      expect(compatible.name).toBe('OpenAI-compatible server');
+      await expect(compatible.getBatchTranslations(requests, 'en', '')).rejects.toThrow('offline');
+      expect(openaiPost).toHaveBeenCalledWith('/chat/completions', expect.objectContaining({ body: expect.objectContaining({ model: 'llama3.1' }) }));
+      expect(openaiPost.mock.contexts[0].baseURL).toBe('http://localhost:11434/v1');
+
+      const anthropic = createTranslationProvider('anthropic', config);
+      expect(anthropic).toBeInstanceOf(AnthropicService);
+      await expect(anthropic.getBatchTranslations(requests, 'en', '')).rejects.toThrow('offline');
+      expect(anthropicPost).toHaveBeenCalledWith('/v1/messages', expect.objectContaining({ body: expect.objectContaining({ model: 'claude-3-5-haiku-latest' }) }));
+      expect(anthropicPost.mock.contexts[0].baseURL).not.toBe('http://localhost:11434/v1');
+      openaiPost.mockRestore();
+      anthropicPost.mockRestore();
+
+      expect(createTranslationProvider('deepl', config)).toBeInstanceOf(DeepLService);
+      expect(createTranslationProvider('mock', config)).toBeInstanceOf(MockTranslationService);
+      expect(createTranslationProvider('pseudo', config)).toBeInstanceOf(PseudoLocalizationService);
+    });
+
+    test('should send DeepL the formality of each language and keep glossary terms', async () => {
+      const request = {
+        key: 'welcome',
+        text: 'Open your Workspace in Vibe',
+        targetLanguages: ['de', 'fr'],
+        glossary: [{ term: 'Workspace', translations: { de: 'Arbeitsbereich' } }, { term: 'Vibe', doNotTranslate: true }]
+      };
+      // DeepL returns the protected texts unchanged
+      const result = (text: string): deepl.TextResult => ({ text, detectedSourceLang: 'en', billedCharacters: text.length });
+      const translateText = jest.spyOn(deepl.Translator.prototype, 'translateText')
+        .mockResolvedValueOnce([result(protectText(request, 'de'))])
+        .mockResolvedValueOnce([result(protectText(request, 'fr'))]);
+      const provider = createTranslationProvider('deepl', { provider: 'openai', model: 'gpt-4o-mini' }, { de: { formality: 'informal' } });
+
+      const response = await provider.getBatchTranslations([request], 'en', '');
+
+      expect(translateText.mock.calls.map(call => [call[0], call[2], call[3]])).toEqual([
+        [[protectText(request, 'de')], 'de', { tagHandling: 'xml', ignoreTags: ['x'], formality: 'prefer_less' }],
+        [[protectText(request, 'fr')], 'fr', { tagHandling: 'xml', ignoreTags: ['x'] }]
+      ]);
+      expect(response.translations[0].translations).toEqual({ de: 'Open your Arbeitsbereich in Vibe', fr: 'Open your Workspace in Vibe' });
+      translateText.mockRestore();
+    });
+  });
+
+  test('should protect placeholders and glossary terms from DeepL', () => {
+    expect(protectText({
+      key: 'files',
+      text: '<b>Vibe</b> & %lld Workspaces',
+      targetLanguages: ['de'],
+      glossary: [{ term: 'Vibe', doNotTranslate: true }, { term: 'Workspaces', translations: { de: 'Arbeitsbereiche & Co' } }]
+    }, 'de')).toBe('&lt;b&gt;<x>Vibe</x>&lt;/b&gt; &amp; <x>%lld</x> <x>Arbeitsbereiche &amp; Co</x>');
+  });
+});
@@ -0,0 +1,154 @@
+import { collectNewTranslations, computeCoverage, combineCoverage, escapeTableCell, formatCoverageTable } from '../src/helpers/translationReport';
+import { generatePrDescription, generatePrDescriptionWithTranslations } from '../src/helpers/prDescriptionGenerator';
+import { generateJobSummary } from '../src/helpers/jobSummary';
+import { LocalizationRunResult } from '../src/services/localizationRunner';
+import { XCStrings } from '../src/types';
+
+describe('translationReport', () => {
+  const catalog: XCStrings = {
+    sourceLanguage: 'en',
+    version: '1.0',
+    strings: {
+      'Hello': {
+        comment: 'Greeting | home screen',
+        localizations: {
+          de: { stringUnit: { state: 'translated', value: 'Hallo' } },
+          fr: { stringUnit: { state: 'needs_review', value: 'Salut' } }
+        }
+      },
+      '%lld files': {
+        localizations: {
+          en: {
+            variations: {
+              plural: {
+                one: { stringUnit: { state: 'translated', value: '%lld file' } },
+                other: { stringUnit: { state: 'translated', value: '%lld files' } }
+              }
+            }
+          },
+          de: {
+            variations: {
+              plural: {
+                one: { stringUnit: { state: 'translated', value: '%lld Datei' } },
+                other: { stringUnit: { state: 'translated', value: '%lld Dateien' } }
+              }
+            }
+          },
+          fr: {
+            variations: {
+              plural: {
+                one: { stringUnit: { state: 'translated', value: '%lld fichier' } }
+              }
+            }
+          }
+        }
+      },
+      'Vibe': { shouldTranslate: false },
+      'Old': { extractionState: 'stale' }
+    }
+  };
+
+  test('should count translated, needs-review and missing strings per language', () => {
+    const coverage = computeCoverage(catalog, ['de', 'fr']);
+    expect(coverage).toEqual([
+      { language: 'de', translated: 2, needsReview: 0, missing: 0, notTranslatable: 1 },
+      // A plural string missing its "other" form counts as missing
+      { language: 'fr', translated: 0, needsReview: 1, missing: 1, notTranslatable: 1 }
+    ]);
+
+    const combined = combineCoverage([coverage, computeCoverage({ ...catalog, strings: { 'Bye': {} } }, ['fr'])]);
+    expect(combined[1]).toEqual({ language: 'fr', translated: 0, needsReview: 1, missing: 2, notTranslatable: 1 });
+    expect(formatCoverageTable(combined)).toContain('| de | 2 | 0 | 0 | 1 | 100% |\n| fr | 0 | 1 | 2 | 1 | 0% |\n');
+  });
+
+  test('should list translations that changed during the run', () => {
+    const before: XCStrings = { ...catalog, strings: { ...catalog.strings, 'Hello': { comment: 'Greeting | home screen' } } };
+    expect(collectNewTranslations('Localizable.xcstrings', before, catalog, ['de', 'fr'])).toEqual([
+      { filePath: 'Localizable.xcstrings', key: 'Hello', language: 'de', source: 'Hello', comment: 'Greeting | home screen', translation: 'Hallo' }
+    ]);
+    expect(collectNewTranslations('Localizable.xcstrings', { ...catalog, strings: {} }, catalog, ['de']).map(translation => translation.unitPath)).toEqual([undefined, 'plural.one', 'plural.other']);
+  });
+
+  test('should add the coverage table to the PR description', () => {
+    const description = generatePrDescription('Automated updates.', [{
+      filePath: 'Localizable.xcstrings',
+      translationChanges: { added: ['Hello (de)'], updated: [], staleRemoved: [], needsReview: [], rejected: [], failed: [], glossaryViolations: [] },
+      coverage: computeCoverage(catalog, ['de'])
+    }], ['de'], ['Localizable.xcstrings']);
+
+    expect(description).toContain('- Hello (de)\n\n### 📊 Translation Coverage\n\n| Language | Translated | Needs review | Missing | Not translatable | Coverage |');
+    expect(description).toContain('| de | 2 | 0 | 0 | 1 | 100% |\n\n**Updated files:**');
+  });
+
+  test('should summarize a run with coverage, samples and usage', () => {
+    const newTranslations = ['A', 'B', 'C', 'D'].map(key => ({ filePath: 'Localizable.xcstrings', key, language: 'de', source: `${key} | <b>source</b>`, translation: `${key} übersetzt` }));
+    const result: LocalizationRunResult = {
+      catalogChanges: [{
+        filePath: 'Localizable.xcstrings',
+        translationChanges: { added: ['A (de)', 'B (de)', 'C (de)', 'D (de)'], updated: [], staleRemoved: [], needsReview: [], rejected: [], failed: [], glossaryViolations: [] },
+        coverage: [{ language: 'de', translated: 4, needsReview: 0, missing: 1, notTranslatable: 0 }]
+      }],
+      changedFiles: ['Localizable.xcstrings'],
+      totals: { added: 4, updated: 0, staleRemoved: 0, needsReview: 0, rejected: 0, failed: 0, glossaryViolations: 0 },
+      newTranslations,
+      usage: [{ provider: 'openai', model: 'gpt-4o-mini', batches: 1, promptTokens: 1200, completionTokens: 80, characters: 0, estimatedCost: 0.0002 }]
+    };
+
+    const summary = generateJobSummary(result, ['de'], 'Translations pushed to `l10n-main` in [#7](https://github.com/octo/app/pull/7).');
+    expect(summary).toContain('## 🌍 iOS Vibe Localization\n\nTranslations pushed to `l10n-main` in [#7]');
+    expect(summary).toContain('| 4 | 0 | 0 | 0 | 0 | 0 | 0 |');
+    expect(summary).toContain('| de | 4 | 0 | 1 | 0 | 80% |');
+    expect(summary).toContain('| de | A | A \\| &lt;b>source&lt;/b> | A übersetzt |');
+    expect(summary).not.toContain('| de | D |');
+    expect(summary).toContain('Showing 3 of 4 new translations.');
+    expect(summary).toContain('| openai (gpt-4o-mini) | 1 | 1,200 | 80 | 0 | $0.0002 |');
+  });
+
+  describe('translation tables', () => {
+    const changes = [{
+      filePath: 'Localizable.xcstrings',
+      translationChanges: { added: ['Hello (de)'], updated: [], staleRemoved: [], needsReview: [], rejected: [], failed: [], glossaryViolations: [] }
+    }];
+    const fullReport = { path: '.github/localization-report.md', url: 'https://github.com/octo/app/blob/l10n-main/.github/localization-report.md' };
+    const translation = (key: string, language: string) => ({ filePath: 'Localizable.xcstrings', key, language, source: `${key} source`, translation: `${key} ${language}` });
+
+    test('should show a collapsible table per language', () => {
+      const { body, report } = generatePrDescriptionWithTranslations('Automated updates.', changes, ['de', 'fr'], ['Localizable.xcstrings'], [
+        { ...translation('Hello', 'de'), comment: 'Greeting' },
+        { ...translation('%lld files', 'de'), unitPath: 'plural.one', source: 'x'.repeat(250) }
+      ], fullReport);
+
+      expect(report).toBeUndefined();
+      expect(body).toContain('**Updated files:**\n- Localizable.xcstrings\n\n## Translations\n\n<details>\n<summary><b>de</b>: 2 translations</summary>\n\n| Key | Source | Comment | Translation |');
+      expect(body).toContain('| Hello | Hello source | Greeting | Hello de |\n');
+      expect(body).toContain(`| %lld files [plural.one] | ${'x'.repeat(199)}… |  | %lld files de |\n\n</details>\n`);
+      expect(body).not.toContain('<b>fr</b>');
+    });
+
+    test('should share the space between languages and link the full report', () => {
+      const newTranslations = ['de', 'fr'].flatMap(language => Array.from({ length: 40 }, (_, index) => translation(`String ${index}`, language)));
+      const { body, report } = generatePrDescriptionWithTranslations('Automated updates.', changes, ['de', 'fr'], ['Localizable.xcstrings'], newTranslations, fullReport, 3000);
+
+      expect(body.length).toBeLessThanOrEqual(3000);
+      const shown = [...body.matchAll(/<b>(de|fr)<\/b>: (\d+) of 40 translations/g)].map(match => [match[1], Number(match[2])] as const);
+      expect(shown.map(([language]) => language)).toEqual(['de', 'fr']);
+      expect(shown.every(([, count]) => count > 5)).toBe(true);
+      expect(body).toContain(`All translations are listed in [\`.github/localization-report.md\`](${fullReport.url}) on this branch.`);
+      expect(report).toContain('# Localization Report\n\n## Translations\n\n<details>\n<summary><b>de</b>: 40 translations</summary>');
+      expect(report).toContain('| String 39 | String 39 source |  | String 39 fr |');
+    });
+
+    test('should cut a description without line breaks at the size limit', () => {
+      const { body } = generatePrDescriptionWithTranslations('x'.repeat(5000), changes, ['de'], [], [], fullReport, 3000);
+
+      expect(body.startsWith('x'.repeat(2600))).toBe(true);
+      expect(body.length).toBeLessThanOrEqual(3000);
+      expect(body).toContain("This description was shortened to stay within GitHub's size limit.");
+    });
+
+    test('should keep mentions and issue references in cells from linking', () => {
+      expect(escapeTableCell('Ask @support-team about #12, email me@example.com')).toBe('Ask @&#8203;support-team about #&#8203;12, email me@&#8203;example.com');
+      expect(escapeTableCell('%@ and #tag')).toBe('%@ and #tag');
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import { extractFormatSpecifiers, validateTranslation, validateBatchTranslations } from '../src/helpers/translationValidator';
+
+describe('translationValidator', () => {
+  test('should normalize sequential and positional format specifiers', () => {
+    expect(extractFormatSpecifiers('%@ has %lld new messages (100%%)').arguments).toEqual(['%1$@', '%2$lld']);
+    expect(extractFormatSpecifiers('%2$lld neue Nachrichten für %1$@').arguments).toEqual(['%1$@', '%2$lld']);
+    expect(extractFormatSpecifiers('%#@files@ in %#@folders@').substitutions).toEqual(['files', 'folders']);
+    expect(extractFormatSpecifiers('50% off').arguments).toEqual([]);
+  });
+
+  test('should accept translations that keep every placeholder', () => {
+    expect(validateTranslation('Hello, %@!', '¡Hola, %@!')).toEqual([]);
+    expect(validateTranslation('%@ sent you %lld photos', '%2$lld Fotos von %1$@')).toEqual([]);
+    expect(validateTranslation('Read the **[terms](https://example.com/terms)**', 'Lies die **[AGB](https://example.com/terms)**')).toEqual([]);
+    expect(validateTranslation('Add ^[%lld apple](inflect: true)', 'Añadir ^[%lld manzana](inflect: true)')).toEqual([]);
+  });
+
+  test('should report dropped, retyped and reordered placeholders', () => {
+    expect(validateTranslation('Hello, %@!', '¡Hola!')).toEqual([
+      'format specifiers differ (expected %1$@, got none)'
+    ]);
+    expect(validateTranslation('%lld items', '%@ artículos')).toEqual([
+      'format specifiers differ (expected %1$lld, got %1$@)'
+    ]);
+    expect(validateTranslation('%@ sent you %lld photos', '%lld Fotos von %@')).toEqual([
+      'format specifiers differ (expected %1$@, %2$lld, got %1$lld, %2$@)'
+    ]);
+  });
+
+  test('should report broken markup', () => {
+    expect(validateTranslation('Add ^[%lld apple](inflect: true)', 'Añadir %lld manzanas')).toEqual([
+      'inflection markup differs (expected 1 ^[...] span(s), got 0)'
+    ]);
+    expect(validateTranslation('See [help](https://example.com/help)', 'Voir [aide](https://example.com/aide)')).toEqual([
+      'Markdown links differ (expected https://example.com/help, got https://example.com/aide)'
+    ]);
+    expect(validateTranslation('**Important**', 'Important')).toEqual(['Markdown bold markers (**) differ']);
+  });
+
+  test('should remove invalid translations from a batch response', () => {
+    const requests = [{ key: 'greeting', text: 'Hello, %@!', targetLanguages: ['es', 'fr'] }];
+    const response = { translations: [{ key: 'greeting', translations: { 'es': '¡Hola, %@!', 'fr': 'Bonjour !' } }] };
+
+    const { validResponse, failures } = validateBatchTranslations(requests, response);
+
+    expect(validResponse.translations).toEqual([{ key: 'greeting', translations: { 'es': '¡Hola, %@!' } }]);
+    expect(failures).toEqual([{
+      key: 'greeting',
+      unitPath: undefined,
+      language: 'fr',
+      translation: 'Bonjour !',
+      issues: ['format specifiers differ (expected %1$@, got none)']
+    }]);
+  });
+});
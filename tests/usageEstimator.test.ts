@@ -0,0 +1,125 @@
+jest.mock('../src/services/translationProvider', () => ({
+  ...jest.requireActual('../src/services/translationProvider'),
+  createTranslationProvider: jest.fn()
+}));
+jest.mock('@actions/core');
+
+import { fetchValidatedTranslations, planTranslationChunks } from '../src/services/localizationManager';
+import { combineUsageEstimates, estimateUsage, getTokenPrices, priceProviderUsage } from '../src/services/usageEstimator';
+import { generateDryRunReport } from '../src/helpers/dryRunReport';
+import { createTranslationProvider, ProviderConfig } from '../src/services/translationProvider';
+import { TranslationRequest } from '../src/types';
+
+describe('usageEstimator', () => {
+  const requests: TranslationRequest[] = [
+    { key: 'greeting', text: 'Hello, world', targetLanguages: ['de', 'fr', 'en-XA'], comment: 'Home screen title' },
+    { key: 'farewell', text: 'Goodbye', targetLanguages: ['de', 'fr', 'en-XA'] }
+  ];
+  const providerConfig: ProviderConfig = {
+    provider: 'openai',
+    model: 'gpt-4o-mini-2024-07-18',
+    languageProviders: { fr: 'deepl', 'en-XA': 'pseudo' }
+  };
+
+  test('should match model prices by the longest prefix', () => {
+    expect(getTokenPrices('openai', 'gpt-4o-mini-2024-07-18')).toEqual({ input: 0.15, output: 0.6 });
+    expect(getTokenPrices('openai', 'gpt-4o-2024-08-06')).toEqual({ input: 2.5, output: 10 });
+    expect(getTokenPrices('openai-compatible', 'llama3.1')).toBeUndefined();
+  });
+
+  test('should prefer the prices given for a provider and model', () => {
+    const overrides = { 'openai-compatible': { 'llama3': { input: 0, output: 0 } }, openai: { 'gpt-4o-mini': { input: 0.075, output: 0.3 } } };
+    expect(getTokenPrices('openai-compatible', 'llama3.1', overrides)).toEqual({ input: 0, output: 0 });
+    expect(getTokenPrices('openai', 'gpt-4o-mini-2024-07-18', overrides)).toEqual({ input: 0.075, output: 0.3 });
+    // Other models and providers keep their list prices
+    expect(getTokenPrices('openai', 'gpt-4o-2024-08-06', overrides)).toEqual({ input: 2.5, output: 10 });
+    expect(getTokenPrices('azure-openai', 'gpt-4o-mini', overrides)).toEqual({ input: 0.15, output: 0.6 });
+    expect(getTokenPrices('anthropic', 'llama3.1', overrides)).toBeUndefined();
+  });
+
+  test('should estimate override providers with their own model', () => {
+    const config: ProviderConfig = { provider: 'openai', model: 'gpt-4o-mini', languageProviders: { fr: 'anthropic' }, providerModels: { anthropic: 'claude-3-5-haiku-latest' } };
+    const chunks = planTranslationChunks(requests, config, '', { maxStringsPerBatch: 10, maxTokensPerBatch: 8000, maxConcurrentBatches: 1, batchRetries: 0, followUpRetries: 0 });
+    const [openai, anthropic] = estimateUsage(chunks, 'en', config);
+
+    expect(openai).toMatchObject({ provider: 'openai', model: 'gpt-4o-mini' });
+    expect(anthropic).toMatchObject({ provider: 'anthropic', model: 'claude-3-5-haiku-latest' });
+    expect(anthropic.estimatedCost).toBeCloseTo((anthropic.promptTokens * 0.8 + anthropic.completionTokens * 4) / 1_000_000);
+  });
+
+  test('should estimate usage per provider without calling any', () => {
+    const chunks = planTranslationChunks(requests, providerConfig, '', { maxStringsPerBatch: 1, maxTokensPerBatch: 8000, maxConcurrentBatches: 1, batchRetries: 0, followUpRetries: 0 });
+    const estimates = estimateUsage(chunks, 'en', providerConfig);
+
+    expect(estimates.map(estimate => estimate.provider)).toEqual(['openai', 'deepl']);
+    const [openai, deepl] = estimates;
+    expect(openai).toMatchObject({ model: 'gpt-4o-mini-2024-07-18', batches: 2, characters: 0 });
+    // The instructions and schema are sent with every batch
+    expect(openai.promptTokens).toBeGreaterThan(2 * 400);
+    expect(openai.completionTokens).toBe(15 + 13);
+    expect(openai.estimatedCost).toBeCloseTo((openai.promptTokens * 0.15 + openai.completionTokens * 0.6) / 1_000_000);
+    expect(deepl).toEqual({ provider: 'deepl', model: '', batches: 2, promptTokens: 0, completionTokens: 0, characters: 'Hello, world'.length + 'Goodbye'.length });
+  });
+
+  test('should sum and price the usage reported by providers', async () => {
+    (createTranslationProvider as jest.Mock).mockImplementation(name => ({
+      name,
+      getBatchTranslations: async (batch: TranslationRequest[]) => ({
+        translations: batch.map(request => ({ key: request.key, translations: Object.fromEntries(request.targetLanguages.map(lang => [lang, `${lang}: ${request.text}`])) })),
+        // Pseudo-localization runs locally and reports no usage
+        usage: name === 'pseudo' ? undefined : name === 'deepl'
+          ? { requests: 1, promptTokens: 0, completionTokens: 0, characters: 19 }
+          : { requests: 1, promptTokens: 500, completionTokens: 20, characters: 0 }
+      })
+    }));
+
+    const response = await fetchValidatedTranslations(requests, 'en', providerConfig, '', { maxStringsPerBatch: 1, maxTokensPerBatch: 8000, maxConcurrentBatches: 1, batchRetries: 0, followUpRetries: 0 });
+    expect(response.providerUsage).toEqual([
+      { provider: 'openai', requests: 2, promptTokens: 1000, completionTokens: 40, characters: 0 },
+      { provider: 'deepl', requests: 2, promptTokens: 0, completionTokens: 0, characters: 38 }
+    ]);
+
+    expect(priceProviderUsage(response.providerUsage, providerConfig)).toEqual([
+      { provider: 'openai', model: 'gpt-4o-mini-2024-07-18', batches: 2, promptTokens: 1000, completionTokens: 40, characters: 0, estimatedCost: (1000 * 0.15 + 40 * 0.6) / 1_000_000 },
+      { provider: 'deepl', model: '', batches: 2, promptTokens: 0, completionTokens: 0, characters: 38 }
+    ]);
+  });
+
+  test('should price the usage of override providers with their own model', () => {
+    const config: ProviderConfig = { provider: 'openai', model: 'gpt-4o-mini', languageProviders: { fr: 'anthropic', de: 'azure-openai' }, providerModels: { anthropic: 'claude-3-5-haiku-latest' } };
+    const usage = { requests: 1, promptTokens: 1000, completionTokens: 100, characters: 0 };
+
+    expect(priceProviderUsage([{ provider: 'anthropic', ...usage }, { provider: 'azure-openai', ...usage }], config)).toEqual([
+      { provider: 'anthropic', model: 'claude-3-5-haiku-latest', batches: 1, promptTokens: 1000, completionTokens: 100, characters: 0, estimatedCost: (1000 * 0.8 + 100 * 4) / 1_000_000 },
+      { provider: 'azure-openai', model: 'gpt-4o-mini', batches: 1, promptTokens: 1000, completionTokens: 100, characters: 0, estimatedCost: (1000 * 0.15 + 100 * 0.6) / 1_000_000 }
+    ]);
+  });
+
+  test('should combine estimates across catalogs', () => {
+    const estimate = { provider: 'openai' as const, model: 'gpt-4o-mini', batches: 1, promptTokens: 1000, completionTokens: 100, characters: 0, estimatedCost: 0.0002 };
+    expect(combineUsageEstimates([estimate, { ...estimate }])).toEqual([{ ...estimate, batches: 2, promptTokens: 2000, completionTokens: 200, estimatedCost: 0.0004 }]);
+
+    // A partial sum would understate the cost
+    const [combined] = combineUsageEstimates([estimate, { ...estimate, estimatedCost: undefined }, { ...estimate }]);
+    expect(combined).toMatchObject({ batches: 3, promptTokens: 3000 });
+    expect(combined.estimatedCost).toBeUndefined();
+  });
+
+  test('should report the previewed changes and estimated usage', () => {
+    const catalogChanges = [{
+      filePath: 'Localizable.xcstrings',
+      translationChanges: { added: ['greeting (de)'], updated: [], staleRemoved: ['Old'], needsReview: [], rejected: [], failed: [], glossaryViolations: [] }
+    }];
+    const report = generateDryRunReport(catalogChanges, ['de'], ['Localizable.xcstrings'], [
+      { provider: 'openai', model: 'gpt-4o-mini', batches: 1, promptTokens: 1234, completionTokens: 56, characters: 0, estimatedCost: 0.0002 },
+      { provider: 'openai-compatible', model: 'llama3.1', batches: 1, promptTokens: 1234, completionTokens: 56, characters: 0 }
+    ]);
+
+    expect(report).toContain('A real run would make these changes:');
+    expect(report).toContain('### ✅ Added Translations (1)\n- greeting (de)');
+    expect(report).toContain('### 🗑️ Removed Stale Strings (1)\n- Old');
+    expect(report).toContain('| openai (gpt-4o-mini) | 1 | 1,234 | 56 | 0 | $0.0002 |');
+    expect(report).toContain('| openai-compatible (llama3.1) | 1 | 1,234 | 56 | 0 | unknown |');
+    expect(generateDryRunReport([], ['de'], [], [])).toBe('## 🔍 Localization Dry Run\n\nDry run: all strings are up to date, a real run would not change any files.\n');
+  });
+});